@@ -11,10 +11,18 @@ interface SearchResult {
     source: string;
 }
 
+// A piece of page text handed to the model, with the page it came from
+interface Passage {
+    title: string;
+    url: string;
+    text: string;
+}
+
 interface SearchResponse {
     query: string;
     results: SearchResult[];
     content: string[];
+    passages: Passage[];        // content[i] with its title and url, for citations
     sources: string[];
     summary?: string;
     error?: string;
@@ -30,7 +38,7 @@ const SEARXNG_INSTANCES = [
     "https://search.mdosch.de",
 ];
 
-async function searchSearXNG(query: string): Promise<{ results: SearchResult[]; content: string[] }> {
+async function searchSearXNG(query: string): Promise<{ results: SearchResult[]; passages: Passage[] }> {
     // Try multiple instances in case one is down
     for (const instance of SEARXNG_INSTANCES) {
         try {
@@ -57,16 +65,16 @@ async function searchSearXNG(query: string): Promise<{ results: SearchResult[];
                     source: "searxng",
                 }));
 
-            const content: string[] = data.results
+            const passages: Passage[] = data.results
                 .filter((r: any) => r.content && r.content.length > 40)
                 .slice(0, 4)
                 .map((r: any) => {
                     const text = r.content.slice(0, 1500);
-                    return `[${r.title}]\n${text}`;
+                    return { title: r.title || "", url: r.url || "", text: `[${r.title}]\n${text}` };
                 });
 
             if (results.length > 0) {
-                return { results, content };
+                return { results, passages };
             }
         } catch {
             // Try next instance
@@ -74,12 +82,12 @@ async function searchSearXNG(query: string): Promise<{ results: SearchResult[];
         }
     }
 
-    return { results: [], content: [] };
+    return { results: [], passages: [] };
 }
 
 // ── Tavily (if API key configured) ──
 
-async function searchTavily(query: string): Promise<{ results: SearchResult[]; content: string[]; summary?: string } | null> {
+async function searchTavily(query: string): Promise<{ results: SearchResult[]; passages: Passage[]; summary?: string } | null> {
     const apiKey = process.env.TAVILY_API_KEY;
     if (!apiKey || apiKey.includes("xxxxxxx") || apiKey.length < 10) return null;
 
@@ -100,14 +108,14 @@ async function searchTavily(query: string): Promise<{ results: SearchResult[]; c
             source: "tavily",
         }));
 
-        const content: string[] = (response.results || [])
+        const passages: Passage[] = (response.results || [])
             .filter((r: any) => r.content && r.content.length > 50)
             .slice(0, 3)
-            .map((r: any) => r.content.slice(0, 1500));
+            .map((r: any) => ({ title: r.title || "", url: r.url || "", text: r.content.slice(0, 1500) }));
 
         return {
             results,
-            content,
+            passages,
             summary: response.answer || undefined,
         };
     } catch (e) {
@@ -118,7 +126,7 @@ async function searchTavily(query: string): Promise<{ results: SearchResult[]; c
 
 // ── DuckDuckGo Instant Answer API (reliable, no scraping) ──
 
-async function getDDGInstant(query: string): Promise<{ summary: string | null; results: SearchResult[] }> {
+async function getDDGInstant(query: string): Promise<{ summary: string | null; passage: Passage | null; results: SearchResult[] }> {
     try {
         const res = await fetch(
             `https://api.duckduckgo.com/?q=${encodeURIComponent(query)}&format=json&no_html=1&skip_disambig=1`,
@@ -127,11 +135,13 @@ async function getDDGInstant(query: string): Promise<{ summary: string | null; r
         const data = await res.json();
 
         let summary: string | null = null;
+        let passage: Passage | null = null;
         const results: SearchResult[] = [];
 
         // Abstract (Wikipedia-sourced usually)
         if (data.Abstract && data.Abstract.length > 30) {
             summary = data.Abstract;
+            passage = { title: data.Heading || query, url: data.AbstractURL || "", text: data.Abstract };
             results.push({
                 title: data.Heading || query,
                 url: data.AbstractURL || "",
@@ -143,6 +153,7 @@ async function getDDGInstant(query: string): Promise<{ summary: string | null; r
         // Direct answer
         if (data.Answer && !summary) {
             summary = data.Answer;
+            passage = { title: "DuckDuckGo instant answer", url: "", text: data.Answer };
         }
 
         // Related topics
@@ -159,22 +170,22 @@ async function getDDGInstant(query: string): Promise<{ summary: string | null; r
             }
         }
 
-        return { summary, results };
+        return { summary, passage, results };
     } catch {
-        return { summary: null, results: [] };
+        return { summary: null, passage: null, results: [] };
     }
 }
 
 // ── Wikipedia API (always works) ──
 
-async function searchWikipedia(query: string): Promise<{ results: SearchResult[]; content: string[] }> {
+async function searchWikipedia(query: string): Promise<{ results: SearchResult[]; passages: Passage[] }> {
     try {
         const searchUrl = `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(query)}&format=json&srlimit=3&origin=*`;
         const searchRes = await fetch(searchUrl, { signal: AbortSignal.timeout(5000) });
         const searchData = await searchRes.json();
 
         const pages = searchData.query?.search || [];
-        if (pages.length === 0) return { results: [], content: [] };
+        if (pages.length === 0) return { results: [], passages: [] };
 
         const titles = pages.map((p: any) => p.title).join("|");
         const extractUrl = `https://en.wikipedia.org/w/api.php?action=query&titles=${encodeURIComponent(titles)}&prop=extracts&exintro=false&explaintext=true&exchars=2000&format=json&origin=*`;
@@ -182,7 +193,7 @@ async function searchWikipedia(query: string): Promise<{ results: SearchResult[]
         const extractData = await extractRes.json();
 
         const results: SearchResult[] = [];
-        const content: string[] = [];
+        const passages: Passage[] = [];
 
         if (extractData.query?.pages) {
             for (const page of Object.values(extractData.query.pages) as any[]) {
@@ -194,14 +205,14 @@ async function searchWikipedia(query: string): Promise<{ results: SearchResult[]
                         snippet: page.extract.slice(0, 200),
                         source: "wikipedia",
                     });
-                    content.push(`[Wikipedia: ${page.title}]\n${page.extract.slice(0, 1500)}`);
+                    passages.push({ title: page.title, url: wikiUrl, text: `[Wikipedia: ${page.title}]\n${page.extract.slice(0, 1500)}` });
                 }
             }
         }
 
-        return { results, content };
+        return { results, passages };
     } catch {
-        return { results: [], content: [] };
+        return { results: [], passages: [] };
     }
 }
 
@@ -243,17 +254,18 @@ export async function POST(request: NextRequest) {
         // Run ALL search engines in parallel for speed
         const [tavilyResult, searxResult, ddgResult, wikiResult] = await Promise.all([
             searchTavily(query).catch(() => null),
-            searchSearXNG(query).catch(() => ({ results: [], content: [] })),
-            getDDGInstant(query).catch(() => ({ summary: null, results: [] })),
-            searchWikipedia(query).catch(() => ({ results: [], content: [] })),
+            searchSearXNG(query).catch(() => ({ results: [], passages: [] })),
+            getDDGInstant(query).catch(() => ({ summary: null, passage: null, results: [] })),
+            searchWikipedia(query).catch(() => ({ results: [], passages: [] })),
         ]);
 
         // If Tavily worked, use it (best quality)
-        if (tavilyResult && tavilyResult.content.length > 0) {
+        if (tavilyResult && tavilyResult.passages.length > 0) {
             return NextResponse.json({
                 query,
                 results: tavilyResult.results,
-                content: tavilyResult.content,
+                content: tavilyResult.passages.map(p => p.text),
+                passages: tavilyResult.passages,
                 sources: tavilyResult.results.map(r => r.url).filter(Boolean),
                 summary: tavilyResult.summary,
             });
@@ -262,7 +274,7 @@ export async function POST(request: NextRequest) {
         // Merge all fallback results
         const allResults: SearchResult[] = [];
         const seenUrls = new Set<string>();
-        const allContent: string[] = [];
+        const allPassages: Passage[] = [];
         const allSources: string[] = [];
 
         // Priority: SearXNG > Wikipedia > DDG
@@ -274,12 +286,12 @@ export async function POST(request: NextRequest) {
         }
 
         // Merge content
-        if (ddgResult.summary) {
-            allContent.push(ddgResult.summary);
+        if (ddgResult.passage) {
+            allPassages.push(ddgResult.passage);
         }
-        for (const c of [...searxResult.content, ...wikiResult.content]) {
-            if (c && c.length > 40 && allContent.length < 4) {
-                allContent.push(c);
+        for (const p of [...searxResult.passages, ...wikiResult.passages]) {
+            if (p.text && p.text.length > 40 && allPassages.length < 4) {
+                allPassages.push(p);
             }
         }
 
@@ -289,7 +301,7 @@ export async function POST(request: NextRequest) {
         }
 
         // If we have results but no deep content, try Jina on top 2 URLs
-        if (allContent.length < 2 && allResults.length > 0) {
+        if (allPassages.length < 2 && allResults.length > 0) {
             const jinaUrls = allResults
                 .filter(r => r.source !== "wikipedia" && r.url.startsWith("http"))
                 .slice(0, 2)
@@ -298,8 +310,9 @@ export async function POST(request: NextRequest) {
             if (jinaUrls.length > 0) {
                 const extracts = await Promise.all(jinaUrls.map(extractWithJina));
                 for (let i = 0; i < extracts.length; i++) {
-                    if (extracts[i].length > 80 && allContent.length < 4) {
-                        allContent.push(extracts[i]);
+                    if (extracts[i].length > 80 && allPassages.length < 4) {
+                        const title = allResults.find(r => r.url === jinaUrls[i])?.title || jinaUrls[i];
+                        allPassages.push({ title, url: jinaUrls[i], text: extracts[i] });
                         if (!allSources.includes(jinaUrls[i])) allSources.push(jinaUrls[i]);
                     }
                 }
@@ -307,21 +320,22 @@ export async function POST(request: NextRequest) {
         }
 
         // Snippet fallback if we still have no content
-        if (allContent.length === 0 && allResults.length > 0) {
+        if (allPassages.length === 0 && allResults.length > 0) {
             const snippetContent = allResults
                 .filter(r => r.snippet.length > 20)
                 .slice(0, 5)
                 .map(r => `${r.title}: ${r.snippet}`)
                 .join("\n\n");
             if (snippetContent) {
-                allContent.push(snippetContent);
+                allPassages.push({ title: "Search result snippets", url: "", text: snippetContent });
             }
         }
 
         const response: SearchResponse = {
             query,
             results: allResults.slice(0, 8),
-            content: allContent,
+            content: allPassages.map(p => p.text),
+            passages: allPassages,
             sources: Array.from(new Set(allSources)),
             summary: ddgResult.summary || undefined,
         };
@@ -336,6 +350,7 @@ export async function POST(request: NextRequest) {
             query: "",
             results: [],
             content: [],
+            passages: [],
             sources: [],
             error: "Search temporarily unavailable. The AI will answer from its own knowledge.",
         });
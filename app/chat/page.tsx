@@ -1,32 +1,46 @@
 "use client";
 
 import React, { useRef, useEffect, useCallback, useState, useMemo } from "react";
-import { ChevronDown, Loader2, Zap, Brain, Code, Shield, Volume2, VolumeX, Cpu, Menu, AlertTriangle, Download } from "lucide-react";
+import { ChevronDown, Loader2, Zap, Brain, Code, Shield, Volume2, VolumeX, Cpu, Menu, AlertTriangle, Download, HardDrive } from "lucide-react";
 import { MetricsOverlay } from "@/components/metrics-overlay";
+import { BenchmarkPanel } from "@/components/benchmark-panel";
 import { Sidebar } from "@/components/sidebar";
 import { MessageBubble } from "@/components/message-bubble";
 import { ChatInput } from "@/components/chat-input";
 import { AgentThinking } from "@/components/agent-thinking";
 import { MemoryPanel } from "@/components/memory-panel";
-import { WEBLLM_MODELS, MODEL_CATEGORIES } from "@/lib/useWebLLM";
+import { MODEL_CATEGORIES, findModel } from "@/lib/useWebLLM";
+import { useModelRegistry, useModelCatalog } from "@/lib/useModelRegistry";
 import { cn } from "@/lib/utils";
 import { CommandMenu } from "@/components/command-menu";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { PersonaSelector } from "@/components/persona-selector";
+import { ConversationSettingsMenu } from "@/components/conversation-settings";
 import { ShareMenu } from "@/components/share-menu";
+import { GenerationSettings } from "@/components/generation-settings";
+import { ModelManager } from "@/components/model-manager";
+import { ProviderSettings } from "@/components/provider-settings";
+import { RouterSettings } from "@/components/router-settings";
+import { FitBadge } from "@/components/fit-badge";
+import { useModelRouter } from "@/lib/useModelRouter";
+import { useRAG } from "@/lib/useRAG";
 import { useChat } from "@/lib/useChat";
 import { useSTT } from "@/lib/useSTT";
 import { AgentTrace } from "@/components/agent-trace";
+import { SearchPanel } from "@/components/search-panel";
+import { SummaryPanel } from "@/components/summary-panel";
 
 function ChatPageInner() {
   const chat = useChat();
   const {
     input, setInput, streamingContent, isStreaming, generatingImage, imageProgress,
-    deepSearchEnabled, setDeepSearchEnabled, memoryEnabled, setMemoryEnabled,
+    deepSearchEnabled, setDeepSearchEnabled, memoryEnabled, setMemoryEnabled, pyEnabled, setPyEnabled,
     webllm, deepSearch, memory, pyodide, tts, rag, chatStore, persona, agent,
-    handleSend, handleNewChat, handleStop, handlePythonRun,
+    handleSend, handleNewChat, handleStop, handlePythonRun, selectProvider, editMessage, regenerate,
+    pendingImages, attachImage, removeImage, visionSupported,
   } = chat;
   const stt = useSTT();
+  const catalog = useModelCatalog();
 
   // Detect STT support on client side (after hydration)
   useEffect(() => {
@@ -38,27 +52,34 @@ function ChatPageInner() {
   const [headerModelOpen, setHeaderModelOpen] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [showMemoryPanel, setShowMemoryPanel] = useState(false);
+  const [showModelManager, setShowModelManager] = useState(false);
   const [showMetrics, setShowMetrics] = useState(true);
+  const [showBenchmarks, setShowBenchmarks] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
   const [isExploding, setIsExploding] = useState(false);
-  const [pyEnabled, setPyEnabled] = useState(false);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const userScrolledUpRef = useRef(false);
 
   const DEFAULT_MODEL = "Qwen2.5-1.5B-Instruct-q4f16_1-MLC";
+  const DEFAULT_CPU_MODEL = "Qwen2.5-0.5B-Instruct-q4f16_1-MLC";
 
   // Auto-load smallest model on first visit
   useEffect(() => {
+    useModelRegistry.getState().init();
+    useModelRouter.getState().init();
+    useRAG.getState().init();
     webllm.init();
     tts.init();
   }, []);
 
   useEffect(() => {
-    if (webllm.isSupported && webllm.status === "unloaded" && !webllm.loadedModel) {
-      const timer = setTimeout(() => webllm.loadModel(DEFAULT_MODEL), 500);
+    if (webllm.isSupported && webllm.provider === "webllm" && webllm.status === "unloaded" && !webllm.loadedModel) {
+      const timer = setTimeout(() => webllm.loadModel(webllm.backend === "cpu" ? DEFAULT_CPU_MODEL : DEFAULT_MODEL), 500);
       return () => clearTimeout(timer);
     }
-  }, [webllm.isSupported, webllm.status, webllm.loadedModel]);
+  }, [webllm.isSupported, webllm.backend, webllm.provider, webllm.status, webllm.loadedModel]);
 
   // Auto-scroll
   useEffect(() => {
@@ -68,6 +89,24 @@ function ChatPageInner() {
     }
   }, [chatStore.messages, streamingContent, deepSearch.phase, deepSearch.streamingText]);
 
+  // Search result picked — scroll to the message once its conversation has rendered
+  useEffect(() => {
+    if (!jumpTarget) return;
+    const el = document.getElementById(`msg-${jumpTarget}`);
+    if (!el) return;
+    userScrolledUpRef.current = true;
+    el.scrollIntoView({ block: "center" });
+    el.classList.add("ring-1", "ring-zinc-600", "rounded-2xl");
+    const timer = setTimeout(() => el.classList.remove("ring-1", "ring-zinc-600", "rounded-2xl"), 1500);
+    setJumpTarget(null);
+    return () => clearTimeout(timer);
+  }, [jumpTarget, chatStore.messages]);
+
+  const onJumpToMessage = useCallback((convId: string, messageId: string) => {
+    chatStore.jumpToMessage(convId, messageId);
+    setJumpTarget(messageId);
+  }, [chatStore]);
+
   useEffect(() => {
     const el = scrollContainerRef.current;
     if (!el) return;
@@ -81,10 +120,15 @@ function ChatPageInner() {
 
   const handleModelChange = useCallback(async (modelId: string) => {
     setHeaderModelOpen(false);
+    if (webllm.provider !== "webllm") selectProvider({ kind: "webllm" });
     if (webllm.loadedModel !== modelId) {
       await webllm.loadModel(modelId);
     }
-  }, [webllm]);
+  }, [webllm, selectProvider]);
+
+  const activeModelLabel = webllm.provider === "openai"
+    ? webllm.remote.model || ""
+    : findModel(webllm.loadedModel)?.label || webllm.loadedModel || "";
 
   const onNewChat = useCallback(() => {
     setIsExploding(true);
@@ -103,7 +147,19 @@ function ChatPageInner() {
         onToggleTTS={() => tts.setEnabled(!tts.isEnabled)}
         ragEnabled={rag.ragEnabled}
         onToggleRAG={rag.toggle}
+        onManageModels={() => setShowModelManager(true)}
+        onSearch={() => setShowSearch(true)}
+        onSlashCommand={(name) => setInput(`/${name} `)}
       />
+      {showSearch && (
+        <SearchPanel
+          search={chatStore.search}
+          facets={chatStore.searchFacets}
+          personas={persona.personas}
+          onJump={onJumpToMessage}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
       <Sidebar
         isOpen={sidebarOpen}
         currentModel={webllm.loadedModel}
@@ -112,18 +168,24 @@ function ChatPageInner() {
         activeId={chatStore.activeId}
         onSwitch={chatStore.switchConversation}
         onDelete={chatStore.deleteConversation}
+        onSearch={() => setShowSearch(true)}
+        onRename={chatStore.renameConversation}
+        onRetitle={chat.retitle}
       />
 
       <main className="flex-1 flex flex-col min-w-0 relative">
         <MetricsOverlay
           tps={webllm.stats?.tps || 0}
-          modelName={WEBLLM_MODELS.find(m => m.id === webllm.loadedModel)?.label || webllm.loadedModel || ""}
+          modelName={activeModelLabel}
           isLoaded={webllm.status === "ready"}
           isLoading={webllm.status === "loading"}
           progress={webllm.loadProgress}
+          usage={webllm.lastTurn}
           isOpen={showMetrics}
           onToggle={() => setShowMetrics(!showMetrics)}
+          onBenchmark={() => setShowBenchmarks(!showBenchmarks)}
         />
+        {showMetrics && showBenchmarks && <BenchmarkPanel onClose={() => setShowBenchmarks(false)} />}
         {/* Header */}
         <header className="h-14 border-b border-border flex items-center px-4 shrink-0 bg-background/50 backdrop-blur-md sticky top-0 z-40">
           <button onClick={() => setSidebarOpen(!sidebarOpen)} className="mr-3 text-txt-tertiary hover:text-phosphor transition-colors">
@@ -137,7 +199,7 @@ function ChatPageInner() {
               className="flex items-center gap-2 text-xs font-mono text-txt-secondary hover:text-phosphor transition-colors"
             >
               <Cpu className="w-3.5 h-3.5" />
-              <span>{WEBLLM_MODELS.find(m => m.id === webllm.loadedModel)?.label || "no model"}</span>
+              <span>{activeModelLabel || "no model"}</span>
               <ChevronDown className={cn("w-3 h-3 opacity-40 transition-transform", headerModelOpen && "rotate-180")} />
             </button>
 
@@ -145,8 +207,13 @@ function ChatPageInner() {
               <>
                 <div className="fixed inset-0 z-40" onClick={() => setHeaderModelOpen(false)} />
                 <div className="absolute top-full left-0 mt-2 w-72 max-h-[70vh] overflow-y-auto bg-card border border-border shadow-xl rounded-xl z-50 no-scrollbar p-1">
+                  {webllm.gpu && webllm.backend === "webgpu" && (
+                    <div className="px-2 py-1.5 text-[9px] font-mono text-txt-tertiary border-b border-border mb-1" title={webllm.gpu.description || undefined}>
+                      gpu: {webllm.gpu.vendor || "unknown"} {webllm.gpu.architecture} · {webllm.gpu.gpuClass} · ~{(webllm.gpu.estimatedVramMB / 1024).toFixed(1)}GB{webllm.gpu.estimateIsFloor && "+"} est.{!webllm.gpu.shaderF16 && " · no f16"}
+                    </div>
+                  )}
                   {Object.entries(MODEL_CATEGORIES).map(([key, cat]) => {
-                    const models = WEBLLM_MODELS.filter(m => m.category === key);
+                    const models = catalog.filter(m => m.category === key);
                     if (models.length === 0) return null;
                     return (
                       <div key={key} className="p-1">
@@ -159,40 +226,105 @@ function ChatPageInner() {
                           <span className="text-[10px] font-mono text-txt-tertiary uppercase tracking-wider">
                             {cat.label}
                           </span>
+                          {cat.cpu && <span className="ml-auto text-[9px] font-mono text-txt-tertiary">cpu ok</span>}
                         </div>
                         {models.map((m) => (
                           <button
                             key={m.id}
                             onClick={() => handleModelChange(m.id)}
-                            disabled={!webllm.isSupported}
+                            disabled={!webllm.isSupported || (webllm.backend === "cpu" && !m.gguf)}
+                            title={webllm.backend === "cpu" && !m.gguf ? "needs WebGPU" : undefined}
                             className={cn(
                               "w-full flex items-center justify-between px-2 py-1.5 rounded text-xs text-left transition-all font-mono",
                               webllm.loadedModel === m.id
                                 ? "bg-zinc-800 text-white border border-zinc-700 font-semibold"
-                                : "text-zinc-400 hover:bg-zinc-900 hover:text-white"
+                                : "text-zinc-400 hover:bg-zinc-900 hover:text-white",
+                              "disabled:opacity-30 disabled:cursor-not-allowed"
                             )}
                           >
                             <div>
-                              <div>{m.label}</div>
+                              <div>{m.label}{m.custom && <span className="ml-1.5 text-[9px] text-neon-cyan">custom</span>}{m.toolCalling && <span className="ml-1.5 text-[9px] text-neon-amber">tools</span>}{m.vision && <span className="ml-1.5 text-[9px] text-neon-magenta">vision</span>}</div>
                               <div className="text-[10px] text-txt-tertiary">{m.desc}</div>
                             </div>
-                            <span className="text-[10px] text-txt-tertiary">{m.size}</span>
+                            <div className="flex flex-col items-end gap-0.5">
+                              <span className="text-[10px] text-txt-tertiary">{m.size}</span>
+                              <FitBadge assessment={webllm.assessModelFit(m.id)} />
+                            </div>
                           </button>
                         ))}
                       </div>
                     );
                   })}
+                  <div className="border-t border-border mt-1 p-1">
+                    <button
+                      onClick={() => { setHeaderModelOpen(false); setShowModelManager(true); }}
+                      className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs text-left font-mono text-txt-tertiary hover:bg-zinc-900 hover:text-white transition-all"
+                    >
+                      <HardDrive className="w-3 h-3" />
+                      manage downloaded models
+                    </button>
+                  </div>
                 </div>
               </>
             )}
           </div>
 
+          {/* Inference provider */}
+          <div className="ml-2">
+            <ProviderSettings
+              provider={webllm.provider}
+              remote={webllm.remote}
+              remoteModels={webllm.remoteModels}
+              backend={webllm.backend}
+              onSelect={selectProvider}
+              onChangeRemote={webllm.setRemoteConfig}
+              onFetchModels={async () => {
+                await webllm.fetchRemoteModels();
+                selectProvider({ kind: "openai" });
+              }}
+            />
+          </div>
+
+          {/* Task-based model routing (in-browser models only) */}
+          {webllm.provider === "webllm" && (
+            <div className="ml-1">
+              <RouterSettings />
+            </div>
+          )}
+
           {/* Only show these controls when NOT loading */}
           {webllm.status !== "loading" && (
             <>
               {/* Persona */}
               <div className="ml-3">
-                <PersonaSelector compact />
+                <PersonaSelector persona={persona} compact />
+              </div>
+
+              {/* Per-chat setup */}
+              <div className="ml-3">
+                <ConversationSettingsMenu
+                  settings={chat.settings}
+                  personaName={persona.activePersona.name}
+                  documents={rag.documents}
+                  onToggleTool={(tool) => {
+                    if (tool === "search") setDeepSearchEnabled(!deepSearchEnabled);
+                    if (tool === "memory") setMemoryEnabled(!memoryEnabled);
+                    if (tool === "python") setPyEnabled(!pyEnabled);
+                    if (tool === "agent") agent.toggle();
+                  }}
+                  onChangeKnowledge={chat.setKnowledge}
+                />
+              </div>
+
+              {/* Generation params */}
+              <div className="ml-3">
+                <GenerationSettings
+                  conversation={chatStore.generation}
+                  persona={persona.generation}
+                  personaName={persona.activePersona.name}
+                  onChangeConversation={chatStore.setGeneration}
+                  onChangePersona={(opts) => persona.setPersonaGeneration(persona.activeId, opts)}
+                />
               </div>
 
               {/* TTS */}
@@ -217,7 +349,13 @@ function ChatPageInner() {
 
               {/* Share */}
               <div className="ml-3">
-                <ShareMenu messages={chatStore.messages} modelName={WEBLLM_MODELS.find(m => m.id === webllm.loadedModel)?.label} />
+                <ShareMenu
+                  messages={chatStore.messages}
+                  modelName={activeModelLabel || undefined}
+                  conversation={chatStore.activeConversation}
+                  conversations={chatStore.conversations}
+                  onImport={chatStore.importConversations}
+                />
               </div>
             </>
           )}
@@ -236,19 +374,25 @@ function ChatPageInner() {
         {/* Messages */}
         <div ref={scrollContainerRef} className="flex-1 overflow-y-auto p-6">
           {/* WebGPU not supported banner */}
-          {!webllm.isSupported && (
+          {!webllm.isSupported && webllm.provider === "webllm" && (
             <div className="max-w-lg mx-auto mt-12">
               <div className="bg-red-500/10 border border-red-500/30 rounded p-5 text-center space-y-3">
                 <AlertTriangle className="w-8 h-8 text-red-400 mx-auto" />
                 <h3 className="text-sm font-mono text-red-400 font-bold">WebGPU not available</h3>
                 <p className="text-xs text-txt-secondary font-mono leading-relaxed">
-                  your browser doesn't support WebGPU yet. N0X needs it to run AI models locally.
+                  your browser doesn&apos;t support WebGPU yet. N0X needs it to run AI models locally.
                 </p>
                 <div className="text-[11px] text-txt-tertiary font-mono space-y-1">
                   <p>✅ Chrome 113+ or Edge 113+</p>
                   <p>⚠️ Firefox — enable <code className="text-phosphor-dim">dom.webgpu.enabled</code> in about:config</p>
                   <p>⚠️ Safari 17+ — macOS Sonoma / iOS 17 only</p>
                 </div>
+                <button
+                  onClick={() => selectProvider({ kind: "openai" })}
+                  className="mt-2 px-4 py-2 bg-crt-surface hover:bg-crt-hover border border-crt-border text-txt-secondary text-xs font-mono rounded transition-colors"
+                >
+                  use a local server instead (llama.cpp / Ollama / LM Studio)
+                </button>
               </div>
             </div>
           )}
@@ -258,7 +402,9 @@ function ChatPageInner() {
             <div className="max-w-lg mx-auto mt-12 mb-6">
               <div className="bg-red-500/10 border border-red-500/30 rounded p-5 text-center space-y-3">
                 <AlertTriangle className="w-8 h-8 text-red-400 mx-auto" />
-                <h3 className="text-sm font-mono text-red-400 font-bold">Model Load Failed</h3>
+                <h3 className="text-sm font-mono text-red-400 font-bold">
+                  {webllm.error.includes("Engine") ? "Engine Failure" : "Model Load Failed"}
+                </h3>
                 <p className="text-xs text-red-300/80 font-mono leading-relaxed">
                   {webllm.error}
                 </p>
@@ -267,12 +413,21 @@ function ChatPageInner() {
                   <button
                     onClick={() => {
                       // Use the last attempted payload from webllm's error state, or fallback if tracking isn't perfect
-                      const modelToForce = webllm.loadingModel || webllm.loadedModel || "Qwen2.5-1.5B-Instruct-q4f16_1-MLC";
+                      const modelToForce = webllm.failedModel || webllm.loadedModel || "Qwen2.5-1.5B-Instruct-q4f16_1-MLC";
                       webllm.loadModel(modelToForce, true);
                     }}
                     className="mt-4 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/40 text-red-300 text-xs font-mono font-bold rounded transition-colors"
                   >
-                    Force Load (I know what I'm doing)
+                    Force Load (I know what I&apos;m doing)
+                  </button>
+                )}
+
+                {!webllm.error.includes("Hardware Restricted") && (
+                  <button
+                    onClick={() => webllm.restart()}
+                    className="mt-4 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/40 text-red-300 text-xs font-mono font-bold rounded transition-colors"
+                  >
+                    Restart Engine
                   </button>
                 )}
               </div>
@@ -295,7 +450,7 @@ function ChatPageInner() {
                   </div>
                   <div className="flex justify-between mt-2">
                     <span className="text-[10px] text-txt-tertiary font-mono">
-                      downloading {WEBLLM_MODELS.find(m => m.id === (webllm.loadingModel || webllm.loadedModel || DEFAULT_MODEL))?.label || "model"}
+                      downloading {findModel(webllm.loadingModel || webllm.loadedModel || DEFAULT_MODEL)?.label || "model"}{webllm.backend === "cpu" && " (cpu)"}
                     </span>
                     <span className="text-[10px] text-phosphor-dim font-mono">
                       {Math.round(webllm.loadProgress * 100)}%
@@ -306,14 +461,14 @@ function ChatPageInner() {
                 {/* First-time tips */}
                 <div className="space-y-2 pt-2">
                   <p className="text-[11px] text-txt-secondary font-mono">
-                    first time? this downloads once, then it's instant forever.
+                    first time? this downloads once, then it&apos;s instant forever.
                   </p>
                   <p className="text-[10px] text-txt-tertiary font-mono">
                     the model weights are cached in your browser —<br />
                     no server, no account, everything stays on your machine.
                   </p>
                   <p className="text-[10px] text-txt-tertiary font-mono opacity-60">
-                    don't refresh — download will restart
+                    don&apos;t refresh — download will restart
                   </p>
                 </div>
               </div>
@@ -321,15 +476,15 @@ function ChatPageInner() {
           )}
 
           {/* Welcome screen (model loaded, no messages) */}
-          {webllm.isSupported && chatStore.messages.length === 0 && !deepSearch.isActive && webllm.status !== "loading" ? (
+          {(webllm.isSupported || webllm.provider === "openai") && chatStore.messages.length === 0 && !deepSearch.isActive && webllm.status !== "loading" ? (
             <div className="h-full flex flex-col items-center justify-center">
               <div className="space-y-6 text-center max-w-md w-full">
                 <h2 className="text-3xl text-white font-bold tracking-tight">N0X</h2>
                 <p className="text-sm text-zinc-400 font-medium mt-2 max-w-xs">
-                  {webllm.status === "unloaded" ? "Select a model to begin. All inference runs locally on your GPU — zero cloud, zero latency." : "Model loaded. Ask me anything — code, analysis, research. Everything stays on your machine."}
+                  {webllm.provider === "openai" && webllm.status === "unloaded" ? "Pick a model served by your local server from the ⇄ menu above." : webllm.status === "unloaded" ? "Select a model to begin. All inference runs locally on your GPU — zero cloud, zero latency." : "Model loaded. Ask me anything — code, analysis, research. Everything stays on your machine."}
                 </p>
 
-                {webllm.status === "unloaded" && (
+                {webllm.status === "unloaded" && webllm.provider === "webllm" && (
                   <div className="grid grid-cols-3 gap-2 pt-4">
                     <button
                       onClick={() => handleModelChange("Qwen2.5-1.5B-Instruct-q4f16_1-MLC")}
@@ -371,13 +526,32 @@ function ChatPageInner() {
           ) : (
             <div className={cn("max-w-3xl mx-auto space-y-5 transition-all", isExploding && "opacity-0 scale-95")}>
               {chatStore.messages.map((msg) => (
-                <MessageBubble
-                  key={msg.id}
-                  role={msg.role}
-                  content={msg.content}
-                  image={msg.image}
-                  onRunCode={(pyodide.isReady && pyEnabled) ? handlePythonRun : undefined}
-                />
+                <div key={msg.id} id={`msg-${msg.id}`} className="transition-shadow">
+                  <MessageBubble
+                    role={msg.role}
+                    content={msg.content}
+                    image={msg.image}
+                    images={msg.images}
+                    route={msg.route}
+                    telemetry={msg.telemetry}
+                    citations={msg.citations}
+                    branch={chatStore.branchInfo(msg.id)}
+                    onSelectBranch={isStreaming ? undefined : chatStore.selectBranch}
+                    onEdit={isStreaming || msg.role !== "user" ? undefined : (text) => editMessage(msg.id, text)}
+                    onRegenerate={isStreaming || msg.role !== "assistant" ? undefined : () => regenerate(msg.id)}
+                    onRunCode={(pyodide.isReady && pyEnabled) ? handlePythonRun : undefined}
+                  />
+                  {chatStore.activeSummary?.throughId === msg.id && (
+                    <div className="mt-5">
+                      <SummaryPanel
+                        key={chatStore.activeSummary.updatedAt}
+                        summary={chatStore.activeSummary}
+                        onSave={chatStore.saveSummary}
+                        onClear={() => chatStore.removeSummary(msg.id)}
+                      />
+                    </div>
+                  )}
+                </div>
               ))}
 
               {deepSearch.isActive && (
@@ -424,6 +598,31 @@ function ChatPageInner() {
 
         {/* Input */}
         <div className="max-w-3xl mx-auto w-full">
+          {/* GPU device lost: engine rebuild progress, then an offer to finish the cut-off reply */}
+          {(webllm.deviceLost || chat.interrupted) && (
+            <div className="mx-4 mt-2 flex items-center gap-2 px-3 py-2 rounded-lg border border-neon-amber/30 bg-neon-amber/5 text-[11px] font-mono text-neon-amber">
+              {webllm.deviceLost?.recovering ? (
+                <>
+                  <Loader2 className="w-3.5 h-3.5 animate-spin shrink-0" />
+                  <span>GPU device lost — reloading the model from cache...</span>
+                </>
+              ) : webllm.deviceLost ? (
+                <>
+                  <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                  <span className="truncate">GPU device lost ({webllm.deviceLost.message}). restart the engine to continue.</span>
+                </>
+              ) : (
+                <>
+                  <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                  <span>the GPU reset mid-reply. the engine is back.</span>
+                  <button onClick={chat.resumeInterrupted} disabled={isStreaming || webllm.status === "loading"} className="ml-auto px-2 py-0.5 rounded border border-neon-amber/40 hover:bg-neon-amber/10 disabled:opacity-40">
+                    resume reply
+                  </button>
+                  <button onClick={chat.dismissInterrupted} className="text-txt-tertiary hover:text-txt-secondary">dismiss</button>
+                </>
+              )}
+            </div>
+          )}
           <ChatInput
             input={input}
             setInput={setInput}
@@ -449,6 +648,14 @@ function ChatPageInner() {
             onRemoveFile={(id) => {
               rag.clear();
             }}
+            onImageAttach={attachImage}
+            attachedImages={pendingImages}
+            onRemoveImage={removeImage}
+            visionSupported={visionSupported}
+            onUseVisionModel={webllm.backend === "webgpu" ? () => {
+              const vision = catalog.find(m => m.vision);
+              if (vision) handleModelChange(vision.id);
+            } : undefined}
             agentEnabled={agent.enabled}
             toggleAgent={agent.toggle}
             sttSupported={stt.isSupported}
@@ -466,6 +673,9 @@ function ChatPageInner() {
                 stt.start();
               }
             }}
+            slashSuggestions={chat.slashSuggestions}
+            notice={chat.commandNotice}
+            onDismissNotice={chat.dismissCommandNotice}
           />
         </div>
       </main>
@@ -478,6 +688,12 @@ function ChatPageInner() {
         onDelete={memory.deleteMemory}
         onSearch={memory.searchMemories}
       />
+
+      <ModelManager
+        isOpen={showModelManager}
+        onClose={() => setShowModelManager(false)}
+        loadedModel={webllm.loadedModel}
+      />
     </div>
   );
 }
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { Gauge, Loader2, Play, Square, Download, Trash2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { useBenchmark, benchmarkToCSV, benchmarkToJSON, BENCHMARK_PROMPTS } from "@/lib/useBenchmark";
+import { cn } from "@/lib/utils";
+
+interface BenchmarkPanelProps {
+    onClose: () => void;
+}
+
+function download(content: string, type: string, ext: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `n0x-benchmark-${Date.now()}.${ext}`;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+export function BenchmarkPanel({ onClose }: BenchmarkPanelProps) {
+    const bench = useBenchmark();
+
+    useEffect(() => {
+        useBenchmark.getState().init();
+    }, []);
+
+    // newest first; best decode speed highlighted for comparison
+    const rows = [...bench.results].reverse();
+    const bestDecode = Math.max(0, ...rows.filter(r => !r.error && !r.skipped).map(r => r.decodeTps));
+    const running = bench.progress;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            className="absolute top-4 right-80 z-50 w-[34rem] max-w-[calc(100vw-22rem)] bg-zinc-950/90 backdrop-blur-xl border border-zinc-800/80 rounded-xl shadow-2xl overflow-hidden font-mono text-[11px]"
+        >
+            <div className="px-4 py-3 border-b border-zinc-800/80 flex items-center justify-between bg-zinc-900/50">
+                <div className="flex items-center gap-2 text-zinc-300 font-semibold">
+                    <Gauge className="w-4 h-4" />
+                    <span>Benchmarks</span>
+                </div>
+                <div className="flex items-center gap-3">
+                    {running ? (
+                        <button onClick={bench.cancel} className="flex items-center gap-1 text-red-400 hover:text-red-300" title="stop after the current prompt">
+                            <Square className="w-3 h-3" /> stop
+                        </button>
+                    ) : (
+                        <button onClick={() => bench.run()} className="flex items-center gap-1 text-green-400 hover:text-green-300" title="load and test every downloaded model">
+                            <Play className="w-3 h-3" /> run all
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+                        close
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-4 space-y-3">
+                {running && (
+                    <div className="flex items-center gap-2 text-yellow-400">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        <span className="truncate">
+                            [{running.modelIndex + 1}/{running.modelCount}] {running.modelId} — {running.step === "loading" ? "loading" : `prompt "${running.prompt}"`}
+                        </span>
+                    </div>
+                )}
+                {bench.error && <div className="text-red-400 leading-relaxed">{bench.error}</div>}
+
+                {rows.length === 0 ? (
+                    <p className="text-zinc-500 leading-relaxed">
+                        runs {BENCHMARK_PROMPTS.length} fixed prompts against every downloaded model and records load time,
+                        time to first token, prefill and decode speed. the models are reloaded one at a time, so this takes a while.
+                    </p>
+                ) : (
+                    <div className="max-h-[50vh] overflow-auto no-scrollbar">
+                        <table className="w-full text-left">
+                            <thead className="text-zinc-500 text-[10px]">
+                                <tr>
+                                    <th className="py-1 pr-2 font-normal">model</th>
+                                    <th className="py-1 pr-2 font-normal text-right" title="cold load from cache">load</th>
+                                    <th className="py-1 pr-2 font-normal text-right" title="time to first token">ttft</th>
+                                    <th className="py-1 pr-2 font-normal text-right">prefill</th>
+                                    <th className="py-1 pr-2 font-normal text-right">decode</th>
+                                    <th className="py-1 font-normal text-right" title="peak JS heap during the run">heap</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(r => (
+                                    <tr key={r.id} className="border-t border-zinc-800/50" title={`${r.backend} · ${r.device} · ${new Date(r.createdAt).toLocaleString()}`}>
+                                        <td className="py-1 pr-2 text-zinc-300 max-w-[140px] truncate">{r.modelLabel}</td>
+                                        {r.skipped ? (
+                                            <td colSpan={5} className="py-1 text-zinc-500 truncate max-w-[200px]" title={r.skipped}>skipped: {r.skipped}</td>
+                                        ) : r.error ? (
+                                            <td colSpan={5} className="py-1 text-red-400 truncate max-w-[200px]" title={r.error}>{r.error}</td>
+                                        ) : (
+                                            <>
+                                                <td className="py-1 pr-2 text-right text-zinc-400">{(r.loadMs / 1000).toFixed(1)}s</td>
+                                                <td className="py-1 pr-2 text-right text-zinc-400">{r.ttftMs}ms</td>
+                                                <td className="py-1 pr-2 text-right text-zinc-400">{r.prefillTps} t/s</td>
+                                                <td className={cn("py-1 pr-2 text-right", r.decodeTps === bestDecode ? "text-green-400" : "text-zinc-200")}>{r.decodeTps} t/s</td>
+                                                <td className="py-1 text-right text-zinc-500">{r.peakMemoryMB !== null ? `${r.peakMemoryMB}MB` : "—"}</td>
+                                            </>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {rows.length > 0 && (
+                    <div className="flex items-center gap-3 pt-1 border-t border-zinc-800/50 text-[10px]">
+                        <button onClick={() => download(benchmarkToJSON(bench.results), "application/json", "json")} className="flex items-center gap-1 text-zinc-400 hover:text-white">
+                            <Download className="w-3 h-3" /> json
+                        </button>
+                        <button onClick={() => download(benchmarkToCSV(bench.results), "text/csv", "csv")} className="flex items-center gap-1 text-zinc-400 hover:text-white">
+                            <Download className="w-3 h-3" /> csv
+                        </button>
+                        <button onClick={bench.clear} disabled={!!running} className="ml-auto flex items-center gap-1 text-zinc-500 hover:text-red-400 disabled:opacity-40">
+                            <Trash2 className="w-3 h-3" /> clear
+                        </button>
+                    </div>
+                )}
+            </div>
+        </motion.div>
+    );
+}
@@ -1,10 +1,12 @@
 "use client";
 
 import React, { useRef, useEffect, useState, useCallback } from "react";
-import { Send, Square, Globe, Brain, Code, Paperclip, Upload, X, FileText, Mic, MicOff, Lightbulb, Bot } from "lucide-react";
+import { Send, Square, Globe, Brain, Code, Paperclip, Upload, X, FileText, Mic, MicOff, Lightbulb, Bot, EyeOff } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { SlashSuggestion } from "@/lib/slashCommands";
 
 interface AttachedFile { id: string; name: string; size: number; type: string; }
+interface AttachedImage { id: string; url: string; name: string; }
 
 interface ChatInputProps {
     input: string; setInput: (val: string) => void;
@@ -16,8 +18,12 @@ interface ChatInputProps {
     pyodideReady?: boolean; pyodideLoading?: boolean; pyodideEnabled?: boolean;
     onPyodideLoad?: () => void; onPyodideToggle?: (on: boolean) => void;
     onFileDrop?: (file: File) => void; attachedFiles?: AttachedFile[]; onRemoveFile?: (id: string) => void;
+    onImageAttach?: (file: File) => void; attachedImages?: AttachedImage[]; onRemoveImage?: (id: string) => void;
+    visionSupported?: boolean; onUseVisionModel?: () => void;
     agentEnabled?: boolean; toggleAgent?: () => void;
     sttSupported?: boolean; sttListening?: boolean; onSttToggle?: () => void;
+    slashSuggestions?: (input: string) => SlashSuggestion[];
+    notice?: string | null; onDismissNotice?: () => void;
 }
 
 function formatSize(bytes: number): string {
@@ -30,12 +36,25 @@ export function ChatInput({
     input, setInput, onSend, onStop, isStreaming, deepSearchEnabled, toggleDeepSearch,
     memoryEnabled, toggleMemory, reasoningEnabled, toggleReasoning, ragEnabled, toggleRag, pyodideReady, pyodideLoading, pyodideEnabled,
     onPyodideLoad, onPyodideToggle, onFileDrop, attachedFiles = [], onRemoveFile,
+    onImageAttach, attachedImages = [], onRemoveImage, visionSupported = true, onUseVisionModel,
     agentEnabled, toggleAgent,
     sttSupported, sttListening, onSttToggle,
+    slashSuggestions, notice, onDismissNotice,
 }: ChatInputProps) {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [isDragging, setIsDragging] = useState(false);
+    const [selected, setSelected] = useState(0);
+    const [suggestionsClosed, setSuggestionsClosed] = useState(false);
+
+    const suggestions = slashSuggestions && !suggestionsClosed ? slashSuggestions(input) : [];
+    useEffect(() => setSelected(0), [input]);
+    useEffect(() => { if (!input.startsWith("/")) setSuggestionsClosed(false); }, [input]);
+
+    const acceptSuggestion = (s: SlashSuggestion) => {
+        setInput(s.value);
+        textareaRef.current?.focus();
+    };
 
     useEffect(() => {
         if (textareaRef.current) {
@@ -45,25 +64,48 @@ export function ChatInput({
     }, [input]);
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
-        if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); onSend(); }
+        if (suggestions.length > 0) {
+            if (e.key === "ArrowDown") { e.preventDefault(); setSelected(i => (i + 1) % suggestions.length); return; }
+            if (e.key === "ArrowUp") { e.preventDefault(); setSelected(i => (i - 1 + suggestions.length) % suggestions.length); return; }
+            if (e.key === "Escape") { e.preventDefault(); setSuggestionsClosed(true); return; }
+            if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+                e.preventDefault();
+                acceptSuggestion(suggestions[Math.min(selected, suggestions.length - 1)]);
+                return;
+            }
+        }
+        if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); if (!imagesBlocked) onSend(); }
     };
 
     const handleDragOver = useCallback((e: React.DragEvent) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); }, []);
     const handleDragLeave = useCallback((e: React.DragEvent) => { e.preventDefault(); e.stopPropagation(); setIsDragging(false); }, []);
+    // images go to the model as pixels; everything else into the document index
+    const routeFile = useCallback((file: File) => {
+        if (file.type.startsWith("image/") && onImageAttach) onImageAttach(file);
+        else onFileDrop?.(file);
+    }, [onFileDrop, onImageAttach]);
+
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault(); e.stopPropagation(); setIsDragging(false);
-        if (!onFileDrop) return;
         const files = e.dataTransfer.files;
-        if (files.length > 0) {
-            for (let i = 0; i < files.length; i++) onFileDrop(files[i]);
-        }
-    }, [onFileDrop]);
+        for (let i = 0; i < files.length; i++) routeFile(files[i]);
+    }, [routeFile]);
 
     const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-        if (!onFileDrop || !e.target.files) return;
-        for (let i = 0; i < e.target.files.length; i++) onFileDrop(e.target.files[i]);
+        if (!e.target.files) return;
+        for (let i = 0; i < e.target.files.length; i++) routeFile(e.target.files[i]);
         e.target.value = "";
-    }, [onFileDrop]);
+    }, [routeFile]);
+
+    const handlePaste = useCallback((e: React.ClipboardEvent) => {
+        if (!onImageAttach) return;
+        const images = Array.from(e.clipboardData.files).filter(f => f.type.startsWith("image/"));
+        if (images.length === 0) return; // plain text paste
+        e.preventDefault();
+        images.forEach(onImageAttach);
+    }, [onImageAttach]);
+
+    const imagesBlocked = attachedImages.length > 0 && !visionSupported;
 
     const features = [
         { key: "search", icon: Globe, label: "Search", active: deepSearchEnabled, action: toggleDeepSearch },
@@ -84,6 +126,23 @@ export function ChatInput({
             className={cn("bg-background mx-auto max-w-4xl w-full p-4", isDragging && "bg-zinc-900/50 rounded-xl")}
             onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}
         >
+            {suggestions.length > 0 && (
+                <div className="mb-2 border border-zinc-800 bg-zinc-950 rounded-xl overflow-hidden font-mono text-[11px] max-h-64 overflow-y-auto no-scrollbar">
+                    {suggestions.map((s, i) => (
+                        <button
+                            key={s.value}
+                            onMouseDown={(e) => { e.preventDefault(); acceptSuggestion(s); }}
+                            onMouseEnter={() => setSelected(i)}
+                            className={cn("w-full flex items-center gap-3 px-3 py-1.5 text-left transition-colors", i === selected ? "bg-zinc-800 text-white" : "text-zinc-400")}
+                        >
+                            <span className="truncate max-w-[60%]">{s.label}</span>
+                            <span className="ml-auto truncate text-zinc-600">{s.help}</span>
+                        </button>
+                    ))}
+                    <div className="px-3 py-1 border-t border-zinc-800 text-[9px] text-zinc-600">↑↓ choose · tab complete · esc close</div>
+                </div>
+            )}
+
             <div className="relative border border-zinc-800 bg-zinc-900/40 rounded-2xl shadow-sm overflow-hidden focus-within:border-zinc-700 transition-colors flex flex-col pt-3 pb-2 px-4 shadow-[0_4px_24px_rgba(0,0,0,0.2)]">
 
                 {attachedFiles.length > 0 && (
@@ -103,10 +162,50 @@ export function ChatInput({
                     </div>
                 )}
 
+                {attachedImages.length > 0 && (
+                    <div className="mb-3 space-y-2">
+                        <div className="flex flex-wrap gap-2">
+                            {attachedImages.map((img) => (
+                                <div key={img.id} className="group relative">
+                                    <img src={img.url} alt={img.name} title={img.name} className={cn("h-16 w-16 object-cover rounded-lg border border-zinc-800", imagesBlocked && "opacity-40")} />
+                                    {onRemoveImage && (
+                                        <button onClick={() => onRemoveImage(img.id)} className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-zinc-900 border border-zinc-700 opacity-0 group-hover:opacity-100 text-zinc-400 hover:text-red-400">
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        {imagesBlocked && (
+                            <div className="flex items-center gap-2 text-[11px] font-mono text-neon-amber">
+                                <EyeOff className="w-3.5 h-3.5 shrink-0" />
+                                <span>the loaded model can&apos;t see images — remove them or switch to a vision model.</span>
+                                {onUseVisionModel && (
+                                    <button onClick={onUseVisionModel} className="ml-auto shrink-0 px-2 py-0.5 rounded border border-neon-amber/40 hover:bg-neon-amber/10">
+                                        load vision model
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {notice && (
+                    <div className="flex items-center gap-2 mb-2 text-[11px] font-mono text-zinc-400">
+                        <span className="text-phosphor">›</span>
+                        <span className="truncate">{notice}</span>
+                        {onDismissNotice && (
+                            <button onClick={onDismissNotice} className="ml-auto text-zinc-600 hover:text-zinc-300">
+                                <X className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                )}
+
                 <div className="max-h-60 overflow-y-auto custom-scrollbar no-scrollbar pr-2 mb-2">
                     <textarea
-                        ref={textareaRef} value={input} onChange={(e) => setInput(e.target.value)} onKeyDown={handleKeyDown}
-                        placeholder={sttListening ? "Listening..." : "Message n0x..."} disabled={isStreaming} rows={1}
+                        ref={textareaRef} value={input} onChange={(e) => setInput(e.target.value)} onKeyDown={handleKeyDown} onPaste={handlePaste}
+                        placeholder={sttListening ? "Listening..." : "Message n0x... (/ for commands)"} disabled={isStreaming} rows={1}
                         className="w-full bg-transparent text-sm resize-none outline-none text-zinc-200 placeholder:text-zinc-500 leading-relaxed min-h-[40px] overflow-hidden"
                         style={{ height: 'auto' }}
                     />
@@ -114,7 +213,7 @@ export function ChatInput({
 
                 <div className="flex bg-transparent items-center justify-between border-t border-zinc-800/50 pt-2 pb-1">
                     <div className="flex flex-wrap gap-1.5 overflow-x-auto no-scrollbar py-1">
-                        {onFileDrop && (
+                        {(onFileDrop || onImageAttach) && (
                             <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-[11px] font-medium transition-colors text-zinc-400 hover:text-white hover:bg-zinc-800">
                                 <Upload className="w-3.5 h-3.5" /> Attach
                             </button>
@@ -137,14 +236,14 @@ export function ChatInput({
                                 <Square className="w-4 h-4 fill-current" />
                             </button>
                         ) : (
-                            <button onClick={onSend} disabled={isStreaming || (!input.trim() && attachedFiles.length === 0)} className="p-2 rounded-full bg-white text-black disabled:bg-zinc-800 disabled:text-zinc-600 transition-colors hover:bg-zinc-200">
+                            <button onClick={onSend} disabled={isStreaming || imagesBlocked || (!input.trim() && attachedFiles.length === 0 && attachedImages.length === 0)} className="p-2 rounded-full bg-white text-black disabled:bg-zinc-800 disabled:text-zinc-600 transition-colors hover:bg-zinc-200">
                                 <Send className="w-4 h-4" />
                             </button>
                         )}
                     </div>
                 </div>
             </div>
-            <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept=".pdf,.txt,.md,.json,.csv,.docx,.html,.htm,.xml,.log,.yaml,.yml,.toml,.ini,.cfg,.conf,.rst,.tex" multiple />
+            <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept="image/*,.pdf,.txt,.md,.json,.csv,.docx,.html,.htm,.xml,.log,.yaml,.yml,.toml,.ini,.cfg,.conf,.rst,.tex" multiple />
         </div>
     );
 }
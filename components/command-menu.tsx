@@ -2,9 +2,10 @@
 
 import React, { useEffect, useState, useRef } from "react";
 import { Command } from "cmdk";
-import { Terminal, Volume2, VolumeX, Database, Cpu, Search, X, Keyboard } from "lucide-react";
-import { WEBLLM_MODELS } from "@/lib/useWebLLM";
+import { Terminal, Volume2, VolumeX, Database, Cpu, Search, X, Keyboard, HardDrive, Slash } from "lucide-react";
+import { useModelCatalog } from "@/lib/useModelRegistry";
 import { getKeySoundEnabled, setKeySoundEnabled } from "@/lib/useKeySound";
+import { SLASH_COMMANDS, slashUsage } from "@/lib/slashCommands";
 
 interface CommandMenuProps {
     onLoadModel: (modelId: string) => void;
@@ -13,11 +14,15 @@ interface CommandMenuProps {
     onToggleTTS: () => void;
     ragEnabled: boolean;
     onToggleRAG: () => void;
+    onManageModels: () => void;
+    onSearch: () => void;
+    onSlashCommand: (name: string) => void;   // start typing the command in the chat input
 }
 
-export function CommandMenu({ onLoadModel, onNewChat, ttsEnabled, onToggleTTS, ragEnabled, onToggleRAG }: CommandMenuProps) {
+export function CommandMenu({ onLoadModel, onNewChat, ttsEnabled, onToggleTTS, ragEnabled, onToggleRAG, onManageModels, onSearch, onSlashCommand }: CommandMenuProps) {
     const [open, setOpen] = useState(false);
     const [keySounds, setKeySounds] = useState(false);
+    const models = useModelCatalog();
 
     useEffect(() => {
         setKeySounds(getKeySoundEnabled());
@@ -66,6 +71,13 @@ export function CommandMenu({ onLoadModel, onNewChat, ttsEnabled, onToggleTTS, r
                             <Terminal className="w-3 h-3" />
                             new session
                         </Command.Item>
+                        <Command.Item
+                            onSelect={() => { onSearch(); setOpen(false); }}
+                            className="flex items-center gap-2 px-2 py-1.5 text-xs text-txt-secondary rounded cursor-pointer hover:bg-crt-hover hover:text-phosphor data-[selected=true]:bg-crt-hover data-[selected=true]:text-phosphor"
+                        >
+                            <Search className="w-3 h-3" />
+                            search conversations
+                        </Command.Item>
                         <Command.Item
                             onSelect={() => { onToggleTTS(); setOpen(false); }}
                             className="flex items-center gap-2 px-2 py-1.5 text-xs text-txt-secondary rounded cursor-pointer hover:bg-crt-hover hover:text-phosphor data-[selected=true]:bg-crt-hover data-[selected=true]:text-phosphor"
@@ -80,6 +92,13 @@ export function CommandMenu({ onLoadModel, onNewChat, ttsEnabled, onToggleTTS, r
                             <Database className="w-3 h-3" />
                             {ragEnabled ? "close knowledge base" : "open knowledge base"}
                         </Command.Item>
+                        <Command.Item
+                            onSelect={() => { onManageModels(); setOpen(false); }}
+                            className="flex items-center gap-2 px-2 py-1.5 text-xs text-txt-secondary rounded cursor-pointer hover:bg-crt-hover hover:text-phosphor data-[selected=true]:bg-crt-hover data-[selected=true]:text-phosphor"
+                        >
+                            <HardDrive className="w-3 h-3" />
+                            manage downloaded models
+                        </Command.Item>
                         <Command.Item
                             onSelect={() => { const next = !keySounds; setKeySoundEnabled(next); setKeySounds(next); setOpen(false); }}
                             className="flex items-center gap-2 px-2 py-1.5 text-xs text-txt-secondary rounded cursor-pointer hover:bg-crt-hover hover:text-phosphor data-[selected=true]:bg-crt-hover data-[selected=true]:text-phosphor"
@@ -89,9 +108,25 @@ export function CommandMenu({ onLoadModel, onNewChat, ttsEnabled, onToggleTTS, r
                         </Command.Item>
                     </Command.Group>
 
+                    {/* Slash commands */}
+                    <Command.Group heading={<span className="text-[10px] text-txt-tertiary uppercase tracking-wider px-1 mt-2">commands</span>}>
+                        {SLASH_COMMANDS.map((command) => (
+                            <Command.Item
+                                key={command.name}
+                                value={`/${command.name} ${command.help}`}
+                                onSelect={() => { onSlashCommand(command.name); setOpen(false); }}
+                                className="flex items-center gap-2 px-2 py-1.5 text-xs text-txt-secondary rounded cursor-pointer hover:bg-crt-hover hover:text-phosphor data-[selected=true]:bg-crt-hover data-[selected=true]:text-phosphor"
+                            >
+                                <Slash className="w-3 h-3" />
+                                <span className="shrink-0">{slashUsage(command)}</span>
+                                <span className="ml-auto truncate text-[10px] text-txt-tertiary">{command.help}</span>
+                            </Command.Item>
+                        ))}
+                    </Command.Group>
+
                     {/* Models */}
                     <Command.Group heading={<span className="text-[10px] text-txt-tertiary uppercase tracking-wider px-1 mt-2">models</span>}>
-                        {WEBLLM_MODELS.map((model) => (
+                        {models.map((model) => (
                             <Command.Item
                                 key={model.id}
                                 onSelect={() => { onLoadModel(model.id); setOpen(false); }}
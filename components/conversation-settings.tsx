@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useState } from "react";
+import { Settings2, Check } from "lucide-react";
+import { findModel } from "@/lib/useWebLLM";
+import { loadDefaultSettings, saveDefaultSettings, sameSettings, BUILTIN_DEFAULTS, type ConversationSettings } from "@/lib/conversationSettings";
+import { cn } from "@/lib/utils";
+
+interface ConversationSettingsProps {
+    settings: ConversationSettings;
+    personaName: string;
+    documents: { name: string }[];
+    onToggleTool: (tool: "search" | "memory" | "python" | "agent") => void;
+    onChangeKnowledge: (names: string[] | null) => void;
+}
+
+// What this chat runs with — restored whenever it's reopened — plus the
+// default a new chat starts from.
+export function ConversationSettingsMenu({ settings, personaName, documents, onToggleTool, onChangeKnowledge }: ConversationSettingsProps) {
+    const [open, setOpen] = useState(false);
+    const [isDefault, setIsDefault] = useState(false);
+
+    const toggleOpen = () => {
+        if (!open) setIsDefault(sameSettings(settings, loadDefaultSettings()));
+        setOpen(!open);
+    };
+
+    const inScope = (name: string) => !settings.knowledge || settings.knowledge.includes(name);
+    const toggleFile = (name: string) => {
+        const current = settings.knowledge ?? documents.map(d => d.name);
+        const next = current.includes(name) ? current.filter(n => n !== name) : [...current, name];
+        // every file ticked is the same as "all", which also covers files added later
+        onChangeKnowledge(documents.every(d => next.includes(d.name)) ? null : next);
+    };
+
+    const saveDefault = (value: ConversationSettings | null) => {
+        saveDefaultSettings(value);
+        setIsDefault(sameSettings(settings, value ?? BUILTIN_DEFAULTS));
+    };
+
+    const tools: { id: "search" | "memory" | "python" | "agent"; label: string; on: boolean }[] = [
+        { id: "search", label: "web search", on: settings.tools.search },
+        { id: "memory", label: "memory", on: settings.tools.memory },
+        { id: "python", label: "python", on: settings.tools.python },
+        { id: "agent", label: "agent mode", on: settings.agent },
+    ];
+
+    return (
+        <div className="relative">
+            <button
+                onClick={toggleOpen}
+                title="chat settings"
+                className="p-1 rounded text-txt-tertiary hover:text-txt-secondary transition-all"
+            >
+                <Settings2 className="w-3.5 h-3.5" />
+            </button>
+
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+                    <div className="absolute top-full left-0 mt-2 w-72 bg-crt-surface border border-crt-border rounded z-50 overflow-hidden font-mono text-[11px]">
+                        <div className="px-3 py-2 border-b border-crt-border text-[10px] uppercase tracking-wider text-txt-tertiary">
+                            this chat
+                        </div>
+
+                        <div className="px-3 py-2 space-y-1 border-b border-crt-border">
+                            <div className="flex justify-between gap-2">
+                                <span className="text-txt-tertiary">model</span>
+                                <span className="text-txt-secondary truncate">
+                                    {settings.modelId ? findModel(settings.modelId)?.label ?? settings.modelId : "whatever is loaded"}
+                                </span>
+                            </div>
+                            <div className="flex justify-between gap-2">
+                                <span className="text-txt-tertiary">persona</span>
+                                <span className="text-txt-secondary truncate">{personaName}</span>
+                            </div>
+                        </div>
+
+                        <div className="px-3 py-2 flex flex-wrap gap-1.5 border-b border-crt-border">
+                            {tools.map(t => (
+                                <button
+                                    key={t.id}
+                                    onClick={() => onToggleTool(t.id)}
+                                    className={cn(
+                                        "px-2 py-0.5 rounded border text-[10px] transition-all",
+                                        t.on ? "border-phosphor/40 text-phosphor bg-phosphor-faint" : "border-crt-border text-txt-tertiary hover:text-txt-secondary"
+                                    )}
+                                >
+                                    {t.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="px-3 py-2 border-b border-crt-border">
+                            <div className="text-[10px] uppercase tracking-wider text-txt-tertiary mb-1">knowledge</div>
+                            {documents.length === 0 ? (
+                                <div className="text-txt-tertiary">
+                                    {settings.knowledge ? `${settings.knowledge.length} file${settings.knowledge.length === 1 ? "" : "s"} — not loaded` : "no files loaded"}
+                                </div>
+                            ) : (
+                                <div className="max-h-32 overflow-y-auto no-scrollbar space-y-0.5">
+                                    {documents.map(d => (
+                                        <button
+                                            key={d.name}
+                                            onClick={() => toggleFile(d.name)}
+                                            className="w-full flex items-center gap-2 text-left text-txt-secondary hover:text-txt-primary"
+                                        >
+                                            <span className={cn("w-3 h-3 border rounded-sm flex items-center justify-center shrink-0", inScope(d.name) ? "border-phosphor text-phosphor" : "border-crt-border")}>
+                                                {inScope(d.name) && <Check className="w-2.5 h-2.5" />}
+                                            </span>
+                                            <span className="truncate">{d.name}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="px-3 py-2 flex items-center justify-between text-[10px]">
+                            <button
+                                onClick={() => saveDefault(settings)}
+                                disabled={isDefault}
+                                className="text-phosphor hover:text-white disabled:text-txt-tertiary transition-colors"
+                            >
+                                {isDefault ? "default for new chats" : "use as default for new chats"}
+                            </button>
+                            <button onClick={() => saveDefault(null)} className="text-txt-tertiary hover:text-txt-secondary">
+                                reset default
+                            </button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
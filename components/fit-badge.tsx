@@ -0,0 +1,20 @@
+"use client";
+
+import React from "react";
+import { FIT_LABELS, type FitAssessment } from "@/lib/gpuProbe";
+import { cn } from "@/lib/utils";
+
+const FIT_CLASS = {
+    fits: "text-phosphor",
+    risky: "text-neon-amber",
+    "wont-fit": "text-red-400",
+};
+
+export function FitBadge({ assessment }: { assessment: FitAssessment | null }) {
+    if (!assessment) return null;
+    return (
+        <span title={assessment.reason} className={cn("text-[9px] font-mono whitespace-nowrap", FIT_CLASS[assessment.fit])}>
+            {FIT_LABELS[assessment.fit]}
+        </span>
+    );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useState } from "react";
+import { SlidersHorizontal, RotateCcw } from "lucide-react";
+import { DEFAULT_GENERATION_OPTIONS, GenerationOptions, resolveGenerationOptions } from "@/lib/useWebLLM";
+import { cn } from "@/lib/utils";
+
+interface GenerationSettingsProps {
+    conversation?: GenerationOptions;
+    persona?: GenerationOptions;
+    personaName?: string;
+    onChangeConversation: (opts: GenerationOptions | undefined) => void;
+    onChangePersona: (opts: GenerationOptions | undefined) => void;
+}
+
+type Scope = "chat" | "persona";
+
+type NumericKey = "temperature" | "top_p" | "max_tokens" | "seed" | "presence_penalty" | "frequency_penalty";
+
+const FIELDS: { key: NumericKey; label: string; min: number; max: number; step: number; slider: boolean }[] = [
+    { key: "temperature", label: "temperature", min: 0, max: 2, step: 0.05, slider: true },
+    { key: "top_p", label: "top_p", min: 0, max: 1, step: 0.01, slider: true },
+    { key: "presence_penalty", label: "presence", min: -2, max: 2, step: 0.1, slider: true },
+    { key: "frequency_penalty", label: "frequency", min: -2, max: 2, step: 0.1, slider: true },
+    { key: "max_tokens", label: "max_tokens", min: 1, max: 32768, step: 1, slider: false },
+    { key: "seed", label: "seed", min: 0, max: 2 ** 31 - 1, step: 1, slider: false },
+];
+
+// drop empty fields so an override object only carries what the user actually set
+function compact(opts: GenerationOptions): GenerationOptions | undefined {
+    const out = resolveGenerationOptions(opts);
+    if (out.stop && out.stop.length === 0) delete out.stop;
+    return Object.keys(out).length > 0 ? out : undefined;
+}
+
+export function GenerationSettings({ conversation, persona, personaName, onChangeConversation, onChangePersona }: GenerationSettingsProps) {
+    const [open, setOpen] = useState(false);
+    const [scope, setScope] = useState<Scope>("chat");
+
+    const own = (scope === "chat" ? conversation : persona) || {};
+    // what applies if this scope doesn't override a field
+    const inherited = scope === "chat"
+        ? resolveGenerationOptions(DEFAULT_GENERATION_OPTIONS, persona)
+        : DEFAULT_GENERATION_OPTIONS;
+    const onChange = scope === "chat" ? onChangeConversation : onChangePersona;
+    const hasOverrides = !!(conversation && Object.keys(conversation).length > 0);
+
+    const setField = (key: keyof GenerationOptions, value: GenerationOptions[keyof GenerationOptions]) => {
+        onChange(compact({ ...own, [key]: value }));
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                title="generation settings"
+                className={cn("p-1 rounded transition-all", hasOverrides ? "text-phosphor" : "text-txt-tertiary hover:text-txt-secondary")}
+            >
+                <SlidersHorizontal className="w-3.5 h-3.5" />
+            </button>
+
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+                    <div className="absolute top-full left-0 mt-2 w-72 bg-crt-surface border border-crt-border rounded z-50 overflow-hidden font-mono">
+                        <div className="flex items-center border-b border-crt-border text-[10px] uppercase tracking-wider">
+                            {(["chat", "persona"] as Scope[]).map(s => (
+                                <button
+                                    key={s}
+                                    onClick={() => setScope(s)}
+                                    className={cn(
+                                        "flex-1 px-3 py-2 transition-all truncate",
+                                        scope === s ? "text-phosphor bg-phosphor-faint" : "text-txt-tertiary hover:text-txt-secondary"
+                                    )}
+                                >
+                                    {s === "chat" ? "this chat" : personaName || "persona"}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="p-3 space-y-2.5">
+                            {FIELDS.map(f => {
+                                const set = own[f.key] !== undefined;
+                                const value = set ? own[f.key] : inherited[f.key];
+                                return (
+                                    <div key={f.key} className="space-y-1">
+                                        <div className="flex items-center justify-between text-[10px]">
+                                            <span className={set ? "text-phosphor" : "text-txt-tertiary"}>{f.label}</span>
+                                            {f.slider ? (
+                                                <span className="text-txt-secondary">{value ?? "—"}</span>
+                                            ) : (
+                                                <input
+                                                    type="number"
+                                                    min={f.min} max={f.max} step={f.step}
+                                                    value={set ? String(own[f.key]) : ""}
+                                                    placeholder={value !== undefined ? String(value) : "random"}
+                                                    onChange={e => setField(f.key, e.target.value === "" ? undefined : Number(e.target.value))}
+                                                    className="w-24 bg-crt-black border border-crt-border rounded px-2 py-0.5 text-[10px] text-right text-txt-primary placeholder:text-txt-tertiary outline-none focus:border-phosphor-dim"
+                                                />
+                                            )}
+                                        </div>
+                                        {f.slider && (
+                                            <input
+                                                type="range"
+                                                min={f.min} max={f.max} step={f.step}
+                                                value={Number(value ?? 0)}
+                                                onChange={e => setField(f.key, Number(e.target.value))}
+                                                className="w-full accent-phosphor h-1"
+                                            />
+                                        )}
+                                    </div>
+                                );
+                            })}
+
+                            <div className="space-y-1">
+                                <span className={cn("text-[10px]", own.stop ? "text-phosphor" : "text-txt-tertiary")}>stop sequences</span>
+                                <input
+                                    type="text"
+                                    value={(own.stop || []).join(", ")}
+                                    placeholder={(inherited.stop || []).join(", ") || "comma separated"}
+                                    onChange={e => setField("stop", e.target.value.split(",").map(x => x.trim()).filter(Boolean))}
+                                    className="w-full bg-crt-black border border-crt-border rounded px-2 py-1 text-[10px] text-txt-primary placeholder:text-txt-tertiary outline-none focus:border-phosphor-dim"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="border-t border-crt-border p-2">
+                            <button
+                                onClick={() => onChange(undefined)}
+                                className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded text-[11px] border border-crt-border text-txt-secondary hover:text-phosphor hover:border-phosphor-dim transition-all"
+                            >
+                                <RotateCcw className="w-3 h-3" />
+                                {scope === "chat" ? "use persona defaults" : "reset persona defaults"}
+                            </button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
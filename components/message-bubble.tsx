@@ -4,13 +4,25 @@ import React, { useState, useRef } from "react";
 import ReactMarkdown from "react-markdown";
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
-import { Copy, Check, Play, Loader2, Eye, EyeOff, ZoomIn, Download, Bot, Terminal, Brain, ChevronDown, ChevronRight } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { Copy, Check, Play, Loader2, Eye, EyeOff, ZoomIn, Download, Bot, Terminal, Brain, ChevronDown, ChevronRight, ChevronLeft, Route, Activity, Pencil, RefreshCw, Globe, FileText } from "lucide-react";
+import { cn, splitThinking } from "@/lib/utils";
+import { TASK_LABELS, type RouteDecision } from "@/lib/useModelRouter";
+import { findModel } from "@/lib/useWebLLM";
+import type { MessageTelemetry, BranchInfo } from "@/lib/useChatStore";
+import { linkCitations, type Citation } from "@/lib/citations";
 
 interface MessageBubbleProps {
     role: "user" | "assistant";
     content: string;
     image?: string;
+    images?: string[];          // user attachments
+    route?: RouteDecision;
+    telemetry?: MessageTelemetry;
+    citations?: Citation[];                     // assistant replies: sources numbered [1] [2] … in the prompt
+    branch?: BranchInfo | null;                 // siblings from edits/regenerations
+    onSelectBranch?: (messageId: string) => void;
+    onEdit?: (content: string) => void;         // user messages: re-send as a new branch
+    onRegenerate?: () => void;                  // assistant replies: answer again as a new branch
     onRunCode?: (code: string) => Promise<{ output: string; error: string | null; duration: number }>;
 }
 
@@ -208,22 +220,124 @@ const CodeBlock = ({ children, className, onRunCode, codeResults, runningCode, h
     );
 };
 
-export const MessageBubble = React.memo(function MessageBubble({ role, content, image, onRunCode }: MessageBubbleProps) {
+// "< 2/3 >" — step through the alternatives that share this message's parent
+function BranchNav({ branch, onSelect }: { branch: BranchInfo; onSelect: (messageId: string) => void }) {
+    const { index, count, siblingIds } = branch;
+    return (
+        <div className="flex items-center gap-1 font-mono text-[10px] text-zinc-500 select-none">
+            <button onClick={() => onSelect(siblingIds[index - 1])} disabled={index === 0} className="p-0.5 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500 transition-colors" title="previous branch">
+                <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span>{index + 1}/{count}</span>
+            <button onClick={() => onSelect(siblingIds[index + 1])} disabled={index === count - 1} className="p-0.5 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500 transition-colors" title="next branch">
+                <ChevronRight className="w-3 h-3" />
+            </button>
+        </div>
+    );
+}
+
+// Generation details under an assistant reply: one-line summary, click for the rest
+function TelemetryDetail({ telemetry }: { telemetry: MessageTelemetry }) {
+    const [open, setOpen] = useState(false);
+    const rows: [string, string][] = [
+        ["model", findModel(telemetry.modelId)?.label ?? telemetry.modelId ?? "unknown"],
+        ["persona", telemetry.personaId],
+        ["first token", telemetry.ttftMs !== undefined ? `${telemetry.ttftMs}ms` : "—"],
+        ["prefill", telemetry.prefillTps !== undefined ? `${telemetry.prefillTps} tok/s` : "—"],
+        ["decode", telemetry.decodeTps !== undefined ? `${telemetry.decodeTps} tok/s` : "—"],
+        ["tokens", `${telemetry.promptTokens} prompt · ${telemetry.completionTokens} reply`],
+        ["context", telemetry.sources.length ? telemetry.sources.join(", ") : "none"],
+    ];
+    if (telemetry.calls > 1) rows.push(["llm calls", String(telemetry.calls)]);
+
+    return (
+        <div className="font-mono text-[10px] text-zinc-600">
+            <button onClick={() => setOpen(!open)} className="flex items-center gap-1.5 hover:text-zinc-400 transition-colors">
+                <Activity className="w-3 h-3" />
+                {telemetry.decodeTps !== undefined && <span>{telemetry.decodeTps} t/s</span>}
+                {telemetry.ttftMs !== undefined && <span>· {telemetry.ttftMs}ms ttft</span>}
+                <span>· {telemetry.completionTokens} tok</span>
+                {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+            {open && (
+                <div className="mt-1.5 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 border-l-2 border-zinc-800 pl-3">
+                    {rows.map(([k, v]) => (
+                        <React.Fragment key={k}>
+                            <span className="text-zinc-600">{k}</span>
+                            <span className="text-zinc-400">{v}</span>
+                        </React.Fragment>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+const citationTitle = (c: Citation) => c.page ? `${c.title}, p. ${c.page}` : c.title;
+
+// Hovering a source shows the text the model was given for it
+function CitationPreview({ citation, children }: { citation: Citation; children: React.ReactNode }) {
+    const [open, setOpen] = useState(false);
+    return (
+        <span className="relative" onMouseEnter={() => setOpen(true)} onMouseLeave={() => setOpen(false)}>
+            {children}
+            {open && (
+                <span className="absolute left-0 bottom-full mb-1.5 z-30 block w-80 max-w-[80vw] p-3 rounded-lg border border-zinc-800 bg-zinc-950 shadow-lg text-left">
+                    <span className="block font-mono text-[10px] text-zinc-500 truncate mb-1.5">
+                        {citation.kind === "web" ? citation.url || citation.title : citationTitle(citation)}
+                    </span>
+                    <span className="block max-h-40 overflow-hidden text-[12px] leading-relaxed text-zinc-300 whitespace-pre-wrap font-sans not-italic">
+                        {citation.snippet}
+                    </span>
+                </span>
+            )}
+        </span>
+    );
+}
+
+// An [n] marker in the answer
+function CitationRef({ n, citation }: { n: number; citation: Citation }) {
+    const label = <sup className="font-mono text-[10px] text-phosphor px-0.5">[{n}]</sup>;
+    return (
+        <CitationPreview citation={citation}>
+            {citation.url ? <a href={citation.url} target="_blank" rel="noopener noreferrer" className="no-underline">{label}</a> : label}
+        </CitationPreview>
+    );
+}
+
+// Numbered footnotes: every source that went into the prompt, cited or not
+function CitationList({ citations }: { citations: Citation[] }) {
+    return (
+        <div className="font-mono text-[10px] text-zinc-500 border-t border-zinc-800/80 pt-2 space-y-0.5">
+            {citations.map((c, i) => {
+                const Icon = c.kind === "web" ? Globe : FileText;
+                return (
+                    <div key={i} className="flex items-center gap-1.5 min-w-0">
+                        <span className="text-zinc-600 shrink-0">[{i + 1}]</span>
+                        <Icon className="w-3 h-3 shrink-0" />
+                        <CitationPreview citation={c}>
+                            {c.url ? (
+                                <a href={c.url} target="_blank" rel="noopener noreferrer" className="truncate hover:text-zinc-300 transition-colors">{citationTitle(c)}</a>
+                            ) : (
+                                <span className="truncate cursor-default hover:text-zinc-300 transition-colors">{citationTitle(c)}</span>
+                            )}
+                        </CitationPreview>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+export const MessageBubble = React.memo(function MessageBubble({ role, content, image, images, route, telemetry, citations, branch, onSelectBranch, onEdit, onRegenerate, onRunCode }: MessageBubbleProps) {
     const [runningCode, setRunningCode] = useState<string | null>(null);
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(content);
     const [codeResults, setCodeResults] = useState<Record<string, { output: string; error: string | null; duration: number }>>({});
     const [imageZoomed, setImageZoomed] = useState(false);
     const [showThinking, setShowThinking] = useState(false);
 
-    let thinking = "";
-    let finalContent = content;
-
-    if (role === "assistant") {
-        const thinkMatch = content.match(/<think>([\s\S]*?)(?:<\/think>|$)/);
-        if (thinkMatch) {
-            thinking = thinkMatch[1].trim();
-            finalContent = content.replace(/<think>[\s\S]*?(?:<\/think>|$)/, "").trim();
-        }
-    }
+    const { thinking, answer: finalContent } = role === "assistant" ? splitThinking(content) : { thinking: "", answer: content };
 
     const handleRunCode = async (code: string) => {
         if (!onRunCode || runningCode) return;
@@ -239,12 +353,57 @@ export const MessageBubble = React.memo(function MessageBubble({ role, content,
         }
     };
 
+    const showBranches = branch && branch.count > 1 && onSelectBranch;
+
     if (role === "user") {
+        const submitEdit = () => {
+            if (!draft.trim() || draft.trim() === content.trim()) return setEditing(false);
+            setEditing(false);
+            onEdit?.(draft);
+        };
+
         return (
-            <div className="flex justify-end animate-in fade-in slide-in-from-bottom-2 duration-300">
-                <div className="max-w-[75%] bg-zinc-800 text-white px-5 py-3.5 rounded-2xl rounded-tr-sm text-[15px] shadow-sm leading-relaxed">
-                    <div className="whitespace-pre-wrap">{content}</div>
+            <div className="flex flex-col items-end gap-1 animate-in fade-in slide-in-from-bottom-2 duration-300 group">
+                <div className={cn("max-w-[75%] bg-zinc-800 text-white px-5 py-3.5 rounded-2xl rounded-tr-sm text-[15px] shadow-sm leading-relaxed", editing && "w-full")}>
+                    {images && images.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-2.5">
+                            {images.map((src, i) => (
+                                <img key={i} src={src} alt={`attachment ${i + 1}`} className="max-h-48 max-w-full rounded-lg border border-zinc-700" />
+                            ))}
+                        </div>
+                    )}
+                    {editing ? (
+                        <div className="space-y-2">
+                            <textarea
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                                    if (e.key === "Escape") setEditing(false);
+                                }}
+                                autoFocus
+                                rows={Math.min(10, draft.split("\n").length + 1)}
+                                className="w-full bg-transparent resize-none outline-none"
+                            />
+                            <div className="flex justify-end gap-3 font-mono text-[11px]">
+                                <button onClick={() => setEditing(false)} className="text-zinc-400 hover:text-white">cancel</button>
+                                <button onClick={submitEdit} className="text-phosphor hover:text-white">send</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="whitespace-pre-wrap">{content}</div>
+                    )}
                 </div>
+                {!editing && (showBranches || onEdit) && (
+                    <div className="flex items-center gap-2 text-zinc-500">
+                        {showBranches && <BranchNav branch={branch} onSelect={onSelectBranch} />}
+                        {onEdit && (
+                            <button onClick={() => { setDraft(content); setEditing(true); }} className="p-0.5 opacity-0 group-hover:opacity-100 hover:text-white transition-all" title="edit and resend">
+                                <Pencil className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         );
     }
@@ -256,6 +415,15 @@ export const MessageBubble = React.memo(function MessageBubble({ role, content,
             </div>
 
             <div className="flex-1 min-w-0 max-w-4xl space-y-4 pt-1.5">
+                {route && route.modelLabel && (
+                    <div className="flex items-center gap-1.5 font-mono text-[10px] text-zinc-500" title={`classified as ${TASK_LABELS[route.task]}: ${route.reason}`}>
+                        <Route className="w-3 h-3" />
+                        <span>{TASK_LABELS[route.task]}</span>
+                        <span className="text-zinc-700">→</span>
+                        <span className="text-zinc-400">{route.modelLabel}</span>
+                        {route.action !== "kept" && <span className="text-zinc-600">({route.action === "warm" ? "warm swap" : "loaded"})</span>}
+                    </div>
+                )}
                 {image && (
                     <div className="relative inline-block">
                         <div
@@ -326,13 +494,34 @@ export const MessageBubble = React.memo(function MessageBubble({ role, content,
                                         runningCode={runningCode}
                                         handleRunCode={handleRunCode}
                                     />
-                                )
+                                ),
+                                a: ({ node, href, children, ...props }) => {
+                                    const cite = href?.match(/^#cite-(\d+)$/);
+                                    const citation = cite && citations?.[parseInt(cite[1], 10) - 1];
+                                    if (citation) return <CitationRef n={parseInt(cite[1], 10)} citation={citation} />;
+                                    return <a href={href} {...props}>{children}</a>;
+                                },
                             }}
                         >
-                            {finalContent}
+                            {citations?.length ? linkCitations(finalContent, citations.length) : finalContent}
                         </ReactMarkdown>
                     </div>
                 )}
+
+                {citations && citations.length > 0 && <CitationList citations={citations} />}
+
+                {telemetry && <TelemetryDetail telemetry={telemetry} />}
+
+                {(showBranches || onRegenerate) && (
+                    <div className="flex items-center gap-2 text-zinc-500">
+                        {showBranches && <BranchNav branch={branch} onSelect={onSelectBranch} />}
+                        {onRegenerate && (
+                            <button onClick={onRegenerate} className="p-0.5 opacity-0 group-hover:opacity-100 hover:text-white transition-all" title="regenerate">
+                                <RefreshCw className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     );
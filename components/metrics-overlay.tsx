@@ -1,9 +1,10 @@
 "use client";
 
 import React from "react";
-import { Cpu, Zap, Database, Activity, Server, Clock } from "lucide-react";
+import { Cpu, Zap, Database, Activity, Server, Clock, Gauge } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
+import type { TurnUsage } from "@/lib/useWebLLM";
 
 interface MetricsOverlayProps {
     tps: number;
@@ -11,11 +12,16 @@ interface MetricsOverlayProps {
     isLoaded: boolean;
     isLoading: boolean;
     progress: number;
+    usage: TurnUsage | null;
     isOpen: boolean;
     onToggle: () => void;
+    onBenchmark: () => void;
 }
 
-export function MetricsOverlay({ tps, modelName, isLoaded, isLoading, progress, isOpen, onToggle }: MetricsOverlayProps) {
+export function MetricsOverlay({ tps, modelName, isLoaded, isLoading, progress, usage, isOpen, onToggle, onBenchmark }: MetricsOverlayProps) {
+    const used = usage ? usage.promptTokens + usage.completionTokens : 0;
+    const remaining = usage ? Math.max(0, usage.contextWindow - used) : 0;
+
     return (
         <div className="absolute top-4 right-4 z-50">
             <AnimatePresence>
@@ -43,9 +49,14 @@ export function MetricsOverlay({ tps, modelName, isLoaded, isLoading, progress,
                                 <Activity className="w-4 h-4" />
                                 <span>Engine Telemetry</span>
                             </div>
-                            <button onClick={onToggle} className="text-zinc-500 hover:text-white transition-colors">
-                                close
-                            </button>
+                            <div className="flex items-center gap-3">
+                                <button onClick={onBenchmark} className="flex items-center gap-1 text-zinc-500 hover:text-white transition-colors" title="benchmark downloaded models">
+                                    <Gauge className="w-3.5 h-3.5" />
+                                </button>
+                                <button onClick={onToggle} className="text-zinc-500 hover:text-white transition-colors">
+                                    close
+                                </button>
+                            </div>
                         </div>
 
                         <div className="p-4 space-y-4">
@@ -118,6 +129,30 @@ export function MetricsOverlay({ tps, modelName, isLoaded, isLoading, progress,
                                 </div>
                             </div>
 
+                            {/* Context window usage for the last turn */}
+                            {usage && (
+                                <>
+                                    <div className="h-px w-full bg-zinc-800/50" />
+                                    <div className="space-y-1.5">
+                                        <div className="flex items-center justify-between text-[10px]">
+                                            <span className="text-zinc-500">Last Turn Context</span>
+                                            <span className="text-zinc-400" title={usage.exact ? "counted with the model's tokenizer" : "estimated at ~4 chars/token"}>
+                                                {usage.exact ? "" : "~"}{used} / {usage.contextWindow}
+                                            </span>
+                                        </div>
+                                        <div className="h-1 bg-zinc-900 rounded-full overflow-hidden border border-zinc-800 flex">
+                                            <div className="h-full bg-cyan-400" style={{ width: `${Math.min(100, (usage.promptTokens / usage.contextWindow) * 100)}%` }} />
+                                            <div className="h-full bg-green-400" style={{ width: `${Math.min(100, (usage.completionTokens / usage.contextWindow) * 100)}%` }} />
+                                        </div>
+                                        <div className="grid grid-cols-3 gap-2 text-[10px]">
+                                            <div><span className="text-cyan-400">■</span> <span className="text-zinc-500">prompt</span> <span className="text-zinc-300">{usage.promptTokens}</span></div>
+                                            <div><span className="text-green-400">■</span> <span className="text-zinc-500">reply</span> <span className="text-zinc-300">{usage.completionTokens}</span></div>
+                                            <div className="text-right"><span className="text-zinc-500">left</span> <span className="text-zinc-300">{remaining}</span></div>
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+
                         </div>
                     </motion.div>
                 )}
@@ -0,0 +1,270 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { HardDrive, Download, Trash2, RefreshCw, X, Loader2, Check, AlertTriangle, Plus, Unlink } from "lucide-react";
+import { useModelCache } from "@/lib/useModelCache";
+import { useModelRegistry, CustomModelInput } from "@/lib/useModelRegistry";
+import { MODEL_CATEGORIES, ModelCategory } from "@/lib/useWebLLM";
+import { cn } from "@/lib/utils";
+
+interface ModelManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    loadedModel: string | null;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${Math.round(bytes / (1024 * 1024))}MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)}GB`;
+}
+
+function timeAgo(ts: number | null): string {
+    if (!ts) return "never";
+    const mins = Math.floor((Date.now() - ts) / 60000);
+    if (mins < 1) return "just now";
+    if (mins < 60) return `${mins}m ago`;
+    const hrs = Math.floor(mins / 60);
+    if (hrs < 24) return `${hrs}h ago`;
+    return `${Math.floor(hrs / 24)}d ago`;
+}
+
+const EMPTY_FORM: CustomModelInput = {
+    id: "",
+    label: "",
+    weightsUrl: "",
+    modelLibUrl: "",
+    contextWindow: 4096,
+    category: "balanced",
+    vramMB: 2048,
+};
+
+const INPUT_CLASS = "w-full bg-crt-black border border-crt-border rounded px-2 py-1 text-[10px] text-txt-primary placeholder:text-txt-tertiary outline-none focus:border-phosphor-dim";
+
+function CustomModelForm({ onDone }: { onDone: () => void }) {
+    const registry = useModelRegistry();
+    const [form, setForm] = useState<CustomModelInput>(EMPTY_FORM);
+
+    const update = <K extends keyof CustomModelInput>(key: K, value: CustomModelInput[K]) => {
+        setForm(f => ({ ...f, [key]: value }));
+        if (registry.error) registry.clearError();
+    };
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await registry.add(form)) {
+            setForm(EMPTY_FORM);
+            onDone();
+        }
+    };
+
+    return (
+        <form onSubmit={submit} className="p-3 space-y-2 border-t border-crt-border">
+            <div className="grid grid-cols-2 gap-2">
+                <input value={form.id} onChange={e => update("id", e.target.value)} placeholder="model id" className={INPUT_CLASS} />
+                <input value={form.label} onChange={e => update("label", e.target.value)} placeholder="display name" className={INPUT_CLASS} />
+            </div>
+            <input value={form.weightsUrl} onChange={e => update("weightsUrl", e.target.value)} placeholder="weights url (https://huggingface.co/org/model-MLC)" className={INPUT_CLASS} />
+            <input value={form.modelLibUrl} onChange={e => update("modelLibUrl", e.target.value)} placeholder="model library url (.wasm)" className={INPUT_CLASS} />
+            <div className="grid grid-cols-3 gap-2 text-[9px] text-txt-tertiary">
+                <label className="space-y-0.5">
+                    <span>context</span>
+                    <input type="number" min={256} step={256} value={form.contextWindow} onChange={e => update("contextWindow", Number(e.target.value))} className={INPUT_CLASS} />
+                </label>
+                <label className="space-y-0.5">
+                    <span>vram (MB)</span>
+                    <input type="number" min={1} value={form.vramMB} onChange={e => update("vramMB", Number(e.target.value))} className={INPUT_CLASS} />
+                </label>
+                <label className="space-y-0.5">
+                    <span>category</span>
+                    <select value={form.category} onChange={e => update("category", e.target.value as ModelCategory)} className={INPUT_CLASS}>
+                        {Object.keys(MODEL_CATEGORIES).map(key => <option key={key} value={key}>{key}</option>)}
+                    </select>
+                </label>
+            </div>
+            {registry.error && (
+                <div className="text-[10px] text-red-400 flex items-start gap-1.5">
+                    <AlertTriangle className="w-3 h-3 shrink-0 mt-px" /> {registry.error}
+                </div>
+            )}
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onDone} className="px-3 py-1 rounded text-[10px] text-txt-tertiary hover:text-txt-secondary">
+                    cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={registry.isValidating}
+                    className="flex items-center gap-1.5 px-3 py-1 rounded text-[10px] border border-crt-border text-txt-secondary hover:text-phosphor hover:border-phosphor-dim disabled:opacity-40"
+                >
+                    {registry.isValidating ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                    {registry.isValidating ? "checking files..." : "add model"}
+                </button>
+            </div>
+        </form>
+    );
+}
+
+export function ModelManager({ isOpen, onClose, loadedModel }: ModelManagerProps) {
+    const cache = useModelCache();
+    const registry = useModelRegistry();
+    const [adding, setAdding] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) useModelCache.getState().scan();
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const cachedBytes = cache.models.reduce((n, m) => n + m.bytes, 0);
+    const orphanBytes = cache.orphans.reduce((n, o) => n + o.bytes, 0);
+    const usagePct = cache.quota > 0 ? Math.min(100, (cache.usage / cache.quota) * 100) : 0;
+
+    // cached first (most recently used on top), then the rest of the catalog
+    const models = [...cache.models].sort((a, b) =>
+        (b.bytes > 0 ? 1 : 0) - (a.bytes > 0 ? 1 : 0) || (b.lastUsed || 0) - (a.lastUsed || 0)
+    );
+
+    return (
+        <>
+            <div className="fixed inset-0 z-50 bg-black/50" onClick={onClose} />
+            <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[28rem] max-h-[80vh] flex flex-col bg-crt-surface border border-crt-border rounded font-mono">
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-crt-border">
+                    <div className="flex items-center gap-2 text-xs">
+                        <HardDrive className="w-3.5 h-3.5 text-phosphor" />
+                        <span className="text-phosphor">model cache</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => cache.scan()} disabled={cache.isScanning} className="text-txt-tertiary hover:text-phosphor disabled:opacity-30" title="rescan">
+                            <RefreshCw className={cn("w-3.5 h-3.5", cache.isScanning && "animate-spin")} />
+                        </button>
+                        <button onClick={onClose} className="text-txt-tertiary hover:text-txt-primary">
+                            <X className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Quota */}
+                <div className="px-4 py-3 border-b border-crt-border space-y-1.5">
+                    <div className="flex justify-between text-[10px]">
+                        <span className="text-txt-tertiary">models {formatBytes(cachedBytes)} · storage {formatBytes(cache.usage)}</span>
+                        <span className="text-txt-secondary">{cache.quota > 0 ? `${formatBytes(cache.quota)} quota` : "quota unknown"}</span>
+                    </div>
+                    <div className="h-1 bg-crt-black rounded-full overflow-hidden border border-crt-border">
+                        <div
+                            className={cn("h-full rounded-full transition-all", usagePct > 80 ? "bg-red-400" : "bg-phosphor")}
+                            style={{ width: `${usagePct}%` }}
+                        />
+                    </div>
+                </div>
+
+                {cache.error && (
+                    <div className="px-4 py-2 border-b border-crt-border text-[10px] text-red-400 flex items-center gap-1.5">
+                        <AlertTriangle className="w-3 h-3 shrink-0" /> {cache.error}
+                    </div>
+                )}
+
+                {/* Models */}
+                <div className="flex-1 overflow-y-auto no-scrollbar p-2 space-y-1">
+                    {models.length === 0 && (
+                        <div className="text-center py-6 text-txt-tertiary text-[10px]">
+                            {cache.isScanning ? "scanning cache..." : "nothing cached yet"}
+                        </div>
+                    )}
+                    {models.map(m => {
+                        const progress = cache.downloads[m.id];
+                        const isLoaded = m.id === loadedModel;
+                        const isCustom = registry.models.some(c => c.id === m.id);
+                        return (
+                            <div key={m.id} className="group flex items-center gap-2 px-2 py-1.5 rounded hover:bg-crt-hover text-xs">
+                                <div className={cn(
+                                    "w-1.5 h-1.5 rounded-full shrink-0",
+                                    m.complete ? "bg-phosphor" : m.bytes > 0 ? "bg-neon-amber" : "bg-zinc-700"
+                                )} />
+                                <div className="flex-1 min-w-0">
+                                    <div className={cn("truncate", m.bytes > 0 ? "text-txt-primary" : "text-txt-tertiary")}>
+                                        {m.label}
+                                        {isCustom && <span className="text-[9px] text-neon-cyan ml-1">custom</span>}
+                                        {isLoaded && <span className="text-[9px] text-phosphor ml-1">loaded</span>}
+                                    </div>
+                                    <div className="text-[10px] text-txt-tertiary">
+                                        {progress !== undefined
+                                            ? `downloading ${Math.round(progress * 100)}%`
+                                            : m.bytes > 0
+                                                ? `${formatBytes(m.bytes)}${m.complete ? "" : " · partial"} · used ${timeAgo(m.lastUsed)}`
+                                                : "not cached"}
+                                    </div>
+                                </div>
+                                {progress !== undefined ? (
+                                    <Loader2 className="w-3 h-3 text-phosphor animate-spin" />
+                                ) : (
+                                    <div className="flex gap-1.5 opacity-60 group-hover:opacity-100">
+                                        {!m.complete && (
+                                            <button onClick={() => cache.prefetch(m.id)} className="text-txt-tertiary hover:text-phosphor" title="download without loading">
+                                                <Download className="w-3 h-3" />
+                                            </button>
+                                        )}
+                                        {m.complete && <Check className="w-3 h-3 text-phosphor-dim" />}
+                                        {m.bytes > 0 && (
+                                            <button
+                                                onClick={() => cache.remove(m.id)}
+                                                disabled={isLoaded}
+                                                className="text-txt-tertiary hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                                title={isLoaded ? "unload before deleting" : "delete from cache"}
+                                            >
+                                                <Trash2 className="w-3 h-3" />
+                                            </button>
+                                        )}
+                                        {isCustom && (
+                                            <button
+                                                onClick={async () => { await registry.remove(m.id); cache.scan(); }}
+                                                disabled={isLoaded}
+                                                className="text-txt-tertiary hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                                                title="remove from registry"
+                                            >
+                                                <Unlink className="w-3 h-3" />
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Custom models */}
+                {adding ? (
+                    <CustomModelForm onDone={() => { setAdding(false); cache.scan(); }} />
+                ) : (
+                    <div className="border-t border-crt-border p-2">
+                        <button
+                            onClick={() => setAdding(true)}
+                            className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded text-[11px] border border-dashed border-crt-border text-txt-tertiary hover:text-phosphor hover:border-phosphor-dim transition-all"
+                        >
+                            <Plus className="w-3 h-3" /> add custom MLC model
+                        </button>
+                    </div>
+                )}
+
+                {/* Orphans */}
+                {cache.orphans.length > 0 && (
+                    <div className="border-t border-crt-border p-2 space-y-1">
+                        <div className="flex items-center justify-between px-2 text-[10px]">
+                            <span className="text-neon-amber">{cache.orphans.length} orphaned entries · {formatBytes(orphanBytes)}</span>
+                            <button onClick={() => cache.removeOrphans()} className="text-txt-tertiary hover:text-red-400 flex items-center gap-1">
+                                <Trash2 className="w-3 h-3" /> reclaim
+                            </button>
+                        </div>
+                        <div className="max-h-20 overflow-y-auto no-scrollbar px-2 space-y-0.5">
+                            {cache.orphans.map(o => (
+                                <div key={o.scope + o.url} className="text-[9px] text-txt-tertiary truncate" title={o.url}>
+                                    {o.scope.replace("webllm/", "")} · {formatBytes(o.bytes)} · {o.url.split("/").slice(-3).join("/")}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </>
+    );
+}
@@ -1,17 +1,26 @@
 "use client";
 
 import React, { useState } from "react";
-import { useSystemPrompt } from "@/lib/useSystemPrompt";
+import type { useSystemPrompt } from "@/lib/useSystemPrompt";
 import { User, Plus, Trash2, Check, Edit2, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-export function PersonaSelector({ compact }: { compact?: boolean }) {
-    const { personas, activeId, selectPersona, addPersona, deletePersona, updatePersona } = useSystemPrompt();
+interface PersonaSelectorProps {
+    // the chat's own persona state, so a pick here is what the next reply uses
+    persona: ReturnType<typeof useSystemPrompt>;
+    compact?: boolean;
+}
+
+export function PersonaSelector({ persona, compact }: PersonaSelectorProps) {
+    const { personas, activeId, selectPersona, addPersona, deletePersona, updatePersona } = persona;
     const [open, setOpen] = useState(false);
     const [creating, setCreating] = useState(false);
     const [editId, setEditId] = useState<string | null>(null);
     const [name, setName] = useState("");
     const [prompt, setPrompt] = useState("");
+    const [conflict, setConflict] = useState(false);
+    // the version the edit started from; after a conflict, whatever is current
+    const [editVersion, setEditVersion] = useState<number | null>(null);
 
     const current = personas.find(p => p.id === activeId);
     const canSave = name.trim() && prompt.trim();
@@ -19,7 +28,12 @@ export function PersonaSelector({ compact }: { compact?: boolean }) {
     const save = () => {
         if (!canSave) return;
         if (editId) {
-            updatePersona(editId, name.trim(), prompt.trim());
+            const expected = editVersion ?? personas.find(p => p.id === editId)?.version ?? 0;
+            if (!updatePersona(editId, name.trim(), prompt.trim(), expected)) {
+                setConflict(true);
+                setEditVersion(null);
+                return;
+            }
         } else {
             addPersona(name.trim(), prompt.trim());
         }
@@ -30,6 +44,7 @@ export function PersonaSelector({ compact }: { compact?: boolean }) {
         const p = personas.find(x => x.id === id);
         if (!p) return;
         setEditId(id);
+        setEditVersion(p.version ?? 0);
         setName(p.name);
         setPrompt(p.prompt);
     };
@@ -39,6 +54,8 @@ export function PersonaSelector({ compact }: { compact?: boolean }) {
         setEditId(null);
         setName("");
         setPrompt("");
+        setConflict(false);
+        setEditVersion(null);
     };
 
     if (!compact) {
@@ -146,6 +163,11 @@ export function PersonaSelector({ compact }: { compact?: boolean }) {
                             rows={4}
                             className="w-full bg-crt-black border border-crt-border rounded px-3 py-2 text-xs font-mono text-txt-primary placeholder:text-txt-tertiary outline-none focus:border-phosphor-dim resize-none"
                         />
+                        {conflict && (
+                            <div className="text-[10px] font-mono text-neon-amber">
+                                changed in another tab since you opened it — save again to replace that version
+                            </div>
+                        )}
                         <button
                             onClick={save} disabled={!canSave}
                             className="w-full px-3 py-2 rounded text-xs font-mono border border-phosphor-dim text-phosphor hover:bg-phosphor-faint transition-all disabled:opacity-30 disabled:cursor-not-allowed"
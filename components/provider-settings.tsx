@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useState } from "react";
+import { ArrowLeftRight, Loader2, RefreshCw } from "lucide-react";
+import type { ProviderKind, ProviderSelection, RemoteConfig } from "@/lib/inferenceProvider";
+import type { InferenceBackend } from "@/lib/useWebLLM";
+import { cn } from "@/lib/utils";
+
+interface ProviderSettingsProps {
+    provider: ProviderKind;
+    remote: RemoteConfig;
+    remoteModels: string[];
+    backend: InferenceBackend;
+    onSelect: (selection: ProviderSelection) => void;
+    onChangeRemote: (update: Partial<RemoteConfig>) => void;
+    onFetchModels: () => Promise<void>;
+}
+
+const INPUT_CLASS = "w-full bg-crt-black border border-crt-border rounded px-2 py-1 text-[10px] text-txt-primary placeholder:text-txt-tertiary outline-none focus:border-phosphor-dim";
+
+export function ProviderSettings({ provider, remote, remoteModels, backend, onSelect, onChangeRemote, onFetchModels }: ProviderSettingsProps) {
+    const [open, setOpen] = useState(false);
+    const [fetching, setFetching] = useState(false);
+    const [fetchError, setFetchError] = useState<string | null>(null);
+
+    const refresh = async () => {
+        setFetching(true);
+        setFetchError(null);
+        try {
+            await onFetchModels();
+        } catch (e: any) {
+            setFetchError(e.message);
+        } finally {
+            setFetching(false);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                title="inference provider"
+                className={cn(
+                    "flex items-center gap-1 p-1 rounded text-[10px] font-mono transition-all",
+                    provider === "openai" ? "text-neon-cyan" : "text-txt-tertiary hover:text-txt-secondary"
+                )}
+            >
+                <ArrowLeftRight className="w-3.5 h-3.5" />
+                {provider === "openai" && <span>server</span>}
+            </button>
+
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+                    <div className="absolute top-full left-0 mt-2 w-72 bg-crt-surface border border-crt-border rounded z-50 overflow-hidden font-mono">
+                        <div className="flex items-center border-b border-crt-border text-[10px] uppercase tracking-wider">
+                            {(["webllm", "openai"] as ProviderKind[]).map(kind => (
+                                <button
+                                    key={kind}
+                                    onClick={() => onSelect({ kind })}
+                                    className={cn(
+                                        "flex-1 px-3 py-2 transition-all",
+                                        provider === kind ? "text-phosphor bg-phosphor-faint" : "text-txt-tertiary hover:text-txt-secondary"
+                                    )}
+                                >
+                                    {kind === "webllm" ? (backend === "cpu" ? "browser cpu" : "browser gpu") : "local server"}
+                                </button>
+                            ))}
+                        </div>
+
+                        {provider === "webllm" ? (
+                            <div className="p-3 text-[10px] text-txt-tertiary leading-relaxed">
+                                {backend === "webgpu"
+                                    ? "models run in this tab on WebGPU. pick one from the model menu."
+                                    : "no WebGPU in this browser — the ⚡ fast models run on the CPU instead (slower). for bigger models, switch to a local server."}
+                            </div>
+                        ) : (
+                            <div className="p-3 space-y-2.5">
+                                <div className="space-y-1">
+                                    <span className="text-[10px] text-txt-tertiary">base url</span>
+                                    <input
+                                        value={remote.baseUrl}
+                                        onChange={e => onChangeRemote({ baseUrl: e.target.value })}
+                                        onBlur={refresh}
+                                        placeholder="http://localhost:8080"
+                                        className={INPUT_CLASS}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <span className="text-[10px] text-txt-tertiary">api key (optional)</span>
+                                    <input
+                                        type="password"
+                                        value={remote.apiKey}
+                                        onChange={e => onChangeRemote({ apiKey: e.target.value })}
+                                        className={INPUT_CLASS}
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <div className="flex items-center justify-between text-[10px] text-txt-tertiary">
+                                        <span>model</span>
+                                        <button onClick={refresh} disabled={fetching} className="hover:text-phosphor disabled:opacity-40" title="list models">
+                                            {fetching ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                                        </button>
+                                    </div>
+                                    {remoteModels.length > 0 ? (
+                                        <select
+                                            value={remote.model || ""}
+                                            onChange={e => onSelect({ kind: "openai", model: e.target.value })}
+                                            className={INPUT_CLASS}
+                                        >
+                                            {remoteModels.map(id => <option key={id} value={id}>{id}</option>)}
+                                        </select>
+                                    ) : (
+                                        <input
+                                            value={remote.model || ""}
+                                            onChange={e => onSelect({ kind: "openai", model: e.target.value })}
+                                            placeholder="model name"
+                                            className={INPUT_CLASS}
+                                        />
+                                    )}
+                                </div>
+                                <label className="flex items-center gap-2 text-[10px] text-txt-tertiary cursor-pointer" title="send the agent's tool schema as response_format json_schema">
+                                    <input
+                                        type="checkbox"
+                                        checked={remote.structuredOutput}
+                                        onChange={e => onChangeRemote({ structuredOutput: e.target.checked })}
+                                        className="accent-phosphor"
+                                    />
+                                    <span>structured output (json schema)</span>
+                                </label>
+                                {fetchError && <div className="text-[10px] text-red-400 leading-relaxed">{fetchError}</div>}
+                                <p className="text-[9px] text-txt-tertiary leading-relaxed">
+                                    llama.cpp, Ollama, LM Studio and vLLM all work. the server must allow CORS from this origin
+                                    (e.g. <code className="text-phosphor-dim">OLLAMA_ORIGINS=*</code>).
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
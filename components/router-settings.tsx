@@ -0,0 +1,85 @@
+"use client";
+
+import React, { useState } from "react";
+import { Route } from "lucide-react";
+import { MODEL_CATEGORIES, type ModelCategory } from "@/lib/useWebLLM";
+import { useModelRouter, TASK_LABELS, type RouteTarget, type RoutingPolicy } from "@/lib/useModelRouter";
+import { cn } from "@/lib/utils";
+
+const INPUT_CLASS = "bg-crt-black border border-crt-border rounded px-2 py-1 text-[10px] text-txt-primary outline-none focus:border-phosphor-dim";
+
+export function RouterSettings() {
+    const router = useModelRouter();
+    const [open, setOpen] = useState(false);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                title="model router"
+                className={cn(
+                    "flex items-center gap-1 p-1 rounded text-[10px] font-mono transition-all",
+                    router.enabled ? "text-neon-amber" : "text-txt-tertiary hover:text-txt-secondary"
+                )}
+            >
+                <Route className="w-3.5 h-3.5" />
+                {router.enabled && <span>auto</span>}
+            </button>
+
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+                    <div className="absolute top-full left-0 mt-2 w-72 bg-crt-surface border border-crt-border rounded z-50 overflow-hidden font-mono">
+                        <label className="flex items-center justify-between px-3 py-2 border-b border-crt-border text-[10px] uppercase tracking-wider text-txt-secondary cursor-pointer">
+                            <span>route by task</span>
+                            <input
+                                type="checkbox"
+                                checked={router.enabled}
+                                onChange={e => router.setEnabled(e.target.checked)}
+                                className="accent-phosphor"
+                            />
+                        </label>
+
+                        <div className={cn("p-3 space-y-2", !router.enabled && "opacity-40 pointer-events-none")}>
+                            {(Object.keys(router.policy) as (keyof RoutingPolicy)[]).map(task => (
+                                <div key={task} className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] text-txt-tertiary">{TASK_LABELS[task]}</span>
+                                    <select
+                                        value={router.policy[task]}
+                                        onChange={e => router.setTarget(task, e.target.value as RouteTarget)}
+                                        className={cn(INPUT_CLASS, "w-40")}
+                                    >
+                                        <option value="current">keep current</option>
+                                        {(Object.keys(MODEL_CATEGORIES) as ModelCategory[]).map(cat => (
+                                            <option key={cat} value={cat}>{MODEL_CATEGORIES[cat].label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+
+                            <div className="flex items-center justify-between gap-2 pt-1">
+                                <span className="text-[10px] text-txt-tertiary">vram budget (MB)</span>
+                                <input
+                                    type="number"
+                                    min={256}
+                                    step={256}
+                                    value={router.vramBudgetMB}
+                                    onChange={e => {
+                                        const mb = Number(e.target.value);
+                                        if (mb > 0) router.setVramBudget(mb);
+                                    }}
+                                    className={cn(INPUT_CLASS, "w-20 text-right")}
+                                />
+                            </div>
+
+                            <p className="text-[9px] text-txt-tertiary leading-relaxed">
+                                each message is classified (code, math, reasoning, chat, image) and sent to the tier above.
+                                models that fit in the budget stay loaded, so switching back is instant.
+                            </p>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
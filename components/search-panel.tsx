@@ -0,0 +1,148 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Search, User, Bot } from "lucide-react";
+import { findModel } from "@/lib/useWebLLM";
+import type { ConversationSearchHit } from "@/lib/useChatStore";
+import type { SearchFilters, SearchSnippet } from "@/lib/searchIndex";
+import { cn } from "@/lib/utils";
+
+interface SearchPanelProps {
+    search: (query: string, filters?: SearchFilters) => ConversationSearchHit[];
+    facets: () => { personas: string[]; models: string[] };
+    personas: { id: string; name: string }[];
+    onJump: (convId: string, messageId: string) => void;
+    onClose: () => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const DATE_RANGES = [
+    { id: "any", label: "any time", days: 0 },
+    { id: "day", label: "past day", days: 1 },
+    { id: "week", label: "past week", days: 7 },
+    { id: "month", label: "past month", days: 30 },
+    { id: "year", label: "past year", days: 365 },
+];
+
+function Highlighted({ snippet }: { snippet: SearchSnippet }) {
+    const parts: React.ReactNode[] = [];
+    let at = 0;
+    snippet.highlights.forEach(([start, end], i) => {
+        if (start > at) parts.push(snippet.text.slice(at, start));
+        parts.push(<mark key={i} className="bg-phosphor/20 text-phosphor rounded-sm px-0.5">{snippet.text.slice(start, end)}</mark>);
+        at = end;
+    });
+    parts.push(snippet.text.slice(at));
+    return <>{parts}</>;
+}
+
+export function SearchPanel({ search, facets, personas, onJump, onClose }: SearchPanelProps) {
+    const [query, setQuery] = useState("");
+    const [range, setRange] = useState("any");
+    const [personaId, setPersonaId] = useState("");
+    const [modelId, setModelId] = useState("");
+    const [selected, setSelected] = useState(0);
+
+    // read once when the panel opens
+    const options = useMemo(facets, [facets]);
+    const hits = useMemo(() => {
+        const days = DATE_RANGES.find(r => r.id === range)?.days ?? 0;
+        return search(query, {
+            from: days ? Date.now() - days * DAY : undefined,
+            personaId: personaId || undefined,
+            modelId: modelId || undefined,
+        });
+    }, [search, query, range, personaId, modelId]);
+
+    useEffect(() => setSelected(0), [hits]);
+
+    useEffect(() => {
+        const handler = (e: KeyboardEvent) => {
+            if (e.key === "Escape") onClose();
+        };
+        document.addEventListener("keydown", handler);
+        return () => document.removeEventListener("keydown", handler);
+    }, [onClose]);
+
+    const open = (hit: ConversationSearchHit) => {
+        onJump(hit.convId, hit.messageId);
+        onClose();
+    };
+
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === "ArrowDown") { e.preventDefault(); setSelected(i => Math.min(i + 1, hits.length - 1)); }
+        if (e.key === "ArrowUp") { e.preventDefault(); setSelected(i => Math.max(i - 1, 0)); }
+        if (e.key === "Enter" && hits[selected]) { e.preventDefault(); open(hits[selected]); }
+    };
+
+    const personaName = (id: string) => personas.find(p => p.id === id)?.name ?? id;
+    const selectClass = "bg-transparent border border-crt-border rounded px-1.5 py-0.5 text-[10px] text-txt-secondary outline-none";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center pt-[12vh]">
+            <div className="absolute inset-0 bg-black/80" onClick={onClose} />
+
+            <div className="relative w-full max-w-2xl bg-crt-surface border border-crt-border rounded overflow-hidden font-mono text-sm">
+                <div className="flex items-center gap-2 px-3 py-2.5 border-b border-crt-border">
+                    <Search className="w-3.5 h-3.5 text-phosphor" />
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={onKeyDown}
+                        placeholder='search all conversations — "quotes" for exact phrases'
+                        className="flex-1 bg-transparent text-txt-primary text-xs outline-none placeholder:text-txt-tertiary font-mono"
+                    />
+                    <kbd className="text-[9px] text-txt-tertiary border border-crt-border px-1.5 py-0.5 rounded">esc</kbd>
+                </div>
+
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-crt-border">
+                    <select value={range} onChange={(e) => setRange(e.target.value)} className={selectClass}>
+                        {DATE_RANGES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                    </select>
+                    <select value={personaId} onChange={(e) => setPersonaId(e.target.value)} className={selectClass}>
+                        <option value="">any persona</option>
+                        {options.personas.map(id => <option key={id} value={id}>{personaName(id)}</option>)}
+                    </select>
+                    <select value={modelId} onChange={(e) => setModelId(e.target.value)} className={cn(selectClass, "max-w-[200px]")}>
+                        <option value="">any model</option>
+                        {options.models.map(id => <option key={id} value={id}>{findModel(id)?.label ?? id}</option>)}
+                    </select>
+                    {query.trim() && <span className="ml-auto text-[10px] text-txt-tertiary">{hits.length} result{hits.length === 1 ? "" : "s"}</span>}
+                </div>
+
+                <div className="max-h-[55vh] overflow-y-auto no-scrollbar p-1.5">
+                    {query.trim() && hits.length === 0 && (
+                        <div className="py-4 text-center text-txt-tertiary text-xs">no matches</div>
+                    )}
+                    {hits.map((hit, i) => (
+                        <button
+                            key={`${hit.convId}:${hit.messageId}`}
+                            onClick={() => open(hit)}
+                            onMouseEnter={() => setSelected(i)}
+                            className={cn(
+                                "w-full text-left px-2 py-2 rounded flex flex-col gap-1 transition-colors",
+                                i === selected ? "bg-crt-hover" : "hover:bg-crt-hover",
+                            )}
+                        >
+                            <div className="flex items-center gap-2 text-[10px] text-txt-tertiary">
+                                {hit.role === "user" ? <User className="w-3 h-3" /> : <Bot className="w-3 h-3" />}
+                                <span className="truncate text-txt-secondary">{hit.title}</span>
+                                <span className="ml-auto shrink-0">{new Date(hit.timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}</span>
+                            </div>
+                            <div className="text-xs text-txt-primary leading-relaxed break-words">
+                                <Highlighted snippet={hit.snippet} />
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="px-3 py-1.5 border-t border-crt-border text-[9px] text-txt-tertiary flex gap-3">
+                    <span>↑↓ navigate</span>
+                    <span>↵ open</span>
+                    <span>esc close</span>
+                </div>
+            </div>
+        </div>
+    );
+}
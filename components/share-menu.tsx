@@ -1,13 +1,18 @@
 "use client";
 
 import React, { useState, useCallback, useRef } from "react";
-import { Share2, X, Copy, Check, ExternalLink, Camera, Download } from "lucide-react";
+import { Share2, X, Copy, Check, ExternalLink, Camera, Download, Upload } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { downloadConversations, parseConversationExport, type ExportFormat } from "@/lib/chatExport";
+import type { Conversation } from "@/lib/useChatStore";
 
 interface ShareMenuProps {
     messages?: Array<{ role: string; content: string }>;
     modelName?: string;
     appUrl?: string;
+    conversation?: Conversation | null;     // the open chat, for "this chat" exports
+    conversations?: Conversation[];
+    onImport?: (records: unknown[]) => Promise<{ imported: number; skipped: number; invalid: number }>;
 }
 
 const REPO = "https://github.com/ixchio/n0x";
@@ -147,8 +152,11 @@ async function renderCard(
     return new Promise(resolve => canvas.toBlob(resolve, "image/png"));
 }
 
-export function ShareMenu({ messages = [], modelName, appUrl = REPO }: ShareMenuProps) {
+export function ShareMenu({ messages = [], modelName, appUrl = REPO, conversation, conversations = [], onImport }: ShareMenuProps) {
     const [open, setOpen] = useState(false);
+    const [includeThinking, setIncludeThinking] = useState(false);
+    const [transferStatus, setTransferStatus] = useState<string | null>(null);
+    const importRef = useRef<HTMLInputElement>(null);
     const [copied, setCopied] = useState(false);
     const [cardStatus, setCardStatus] = useState<"idle" | "generating" | "done">("idle");
     const cardRef = useRef<Blob | null>(null);
@@ -239,6 +247,32 @@ export function ShareMenu({ messages = [], modelName, appUrl = REPO }: ShareMenu
         try { await navigator.share(shareData); } catch { /* cancelled */ }
     }, [texts.x, appUrl]);
 
+    const exportChats = useCallback((format: ExportFormat, all: boolean) => {
+        downloadConversations(all ? conversations : conversation ? [conversation] : [], format, { includeThinking });
+    }, [conversation, conversations, includeThinking]);
+
+    const importChats = useCallback(async (file: File) => {
+        if (!onImport) return;
+        try {
+            const { imported, skipped, invalid } = await onImport(parseConversationExport(await file.text()));
+            setTransferStatus(`imported ${imported} chat${imported === 1 ? "" : "s"}${skipped ? `, ${skipped} already here` : ""}${invalid ? `, ${invalid} unreadable` : ""}`);
+        } catch (e: any) {
+            setTransferStatus(`import failed: ${e.message}`);
+        }
+    }, [onImport]);
+
+    const exportRow = (label: string, all: boolean) => (
+        <div className="flex items-center gap-3 px-3 py-1.5 text-xs font-mono text-txt-secondary">
+            <Download className="w-3.5 h-3.5 ml-0.5 opacity-60" />
+            <span className="flex-1">{label}</span>
+            {(["md", "json", "html"] as ExportFormat[]).map(f => (
+                <button key={f} onClick={() => exportChats(f, all)} className="text-[10px] text-txt-tertiary hover:text-phosphor transition-colors">
+                    {f}
+                </button>
+            ))}
+        </div>
+    );
+
     return (
         <div className="relative">
             <button
@@ -318,6 +352,42 @@ export function ShareMenu({ messages = [], modelName, appUrl = REPO }: ShareMenu
                                 <span>{copied ? "copied!" : "copy share text"}</span>
                             </button>
                         </div>
+
+                        <div className="px-3 py-2 border-y border-crt-border flex items-center justify-between">
+                            <span className="text-[10px] text-txt-tertiary font-mono uppercase tracking-wider">export</span>
+                            <label className="flex items-center gap-1.5 text-[10px] text-txt-tertiary font-mono cursor-pointer" title="keep <think> reasoning in markdown and html">
+                                <input type="checkbox" checked={includeThinking} onChange={(e) => setIncludeThinking(e.target.checked)} className="accent-current" />
+                                reasoning
+                            </label>
+                        </div>
+
+                        <div className="p-1">
+                            {conversation && exportRow("this chat", false)}
+                            {conversations.length > 0 && exportRow(`all chats (${conversations.length})`, true)}
+                            {onImport && (
+                                <>
+                                    <button
+                                        onClick={() => importRef.current?.click()}
+                                        className="w-full flex items-center gap-3 px-3 py-2 rounded text-xs font-mono text-txt-secondary hover:bg-crt-hover hover:text-phosphor transition-all"
+                                    >
+                                        <Upload className="w-3.5 h-3.5 ml-0.5" />
+                                        <span>import json export</span>
+                                    </button>
+                                    <input
+                                        ref={importRef}
+                                        type="file"
+                                        accept="application/json,.json"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            if (file) importChats(file);
+                                            e.target.value = "";
+                                        }}
+                                    />
+                                </>
+                            )}
+                            {transferStatus && <div className="px-3 py-1.5 text-[10px] font-mono text-txt-tertiary">{transferStatus}</div>}
+                        </div>
                     </div>
                 </>
             )}
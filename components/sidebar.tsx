@@ -1,13 +1,14 @@
 "use client";
 
-import React from "react";
-import { Plus, Trash2, MessageSquare, Box } from "lucide-react";
-import { WEBLLM_MODELS } from "@/lib/useWebLLM";
+import React, { useState } from "react";
+import { Plus, Trash2, MessageSquare, Box, Search, Pencil, Sparkles } from "lucide-react";
+import { findModel } from "@/lib/useWebLLM";
 import { cn } from "@/lib/utils";
 
 interface Conversation {
     id: string;
     title: string;
+    titleSource?: string;
     createdAt: number;
     updatedAt: number;
 }
@@ -20,6 +21,9 @@ interface SidebarProps {
     activeId?: string | null;
     onSwitch?: (id: string) => void;
     onDelete?: (id: string) => void;
+    onSearch?: () => void;
+    onRename?: (id: string, title: string) => void;
+    onRetitle?: (id: string) => void;
 }
 
 function timeAgo(ts: number): string {
@@ -34,9 +38,22 @@ function timeAgo(ts: number): string {
     return new Date(ts).toLocaleDateString("en-US", { month: "short", day: "numeric" });
 }
 
-export function Sidebar({ isOpen, currentModel, onNewChat, conversations = [], activeId, onSwitch, onDelete }: SidebarProps) {
+export function Sidebar({ isOpen, currentModel, onNewChat, conversations = [], activeId, onSwitch, onDelete, onSearch, onRename, onRetitle }: SidebarProps) {
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState("");
+
     if (!isOpen) return null;
 
+    const startRename = (conv: Conversation) => {
+        setRenamingId(conv.id);
+        setDraft(conv.title);
+    };
+
+    const commitRename = () => {
+        if (renamingId && draft.trim()) onRename?.(renamingId, draft);
+        setRenamingId(null);
+    };
+
     return (
         <aside className="w-64 h-full bg-[#0a0a0a] border-r border-zinc-900 flex flex-col shrink-0 font-sans">
             {/* Header */}
@@ -54,6 +71,15 @@ export function Sidebar({ isOpen, currentModel, onNewChat, conversations = [], a
                     <Plus className="w-3.5 h-3.5" />
                     New Session
                 </button>
+                {onSearch && (
+                    <button
+                        onClick={onSearch}
+                        className="w-full mt-2 flex items-center gap-2 px-3 py-2 text-xs text-zinc-500 rounded-lg hover:bg-zinc-900/50 hover:text-zinc-200 transition-all"
+                    >
+                        <Search className="w-3.5 h-3.5" />
+                        Search chats
+                    </button>
+                )}
             </div>
 
             {/* Conversation history */}
@@ -77,9 +103,43 @@ export function Sidebar({ isOpen, currentModel, onNewChat, conversations = [], a
                     >
                         <MessageSquare className="w-3.5 h-3.5 shrink-0 opacity-60" />
                         <div className="flex-1 min-w-0">
-                            <div className="truncate">{conv.title}</div>
+                            {renamingId === conv.id ? (
+                                <input
+                                    autoFocus
+                                    value={draft}
+                                    onChange={(e) => setDraft(e.target.value)}
+                                    onClick={(e) => e.stopPropagation()}
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") commitRename();
+                                        if (e.key === "Escape") setRenamingId(null);
+                                    }}
+                                    onBlur={commitRename}
+                                    className="w-full bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+                                />
+                            ) : (
+                                <div className="truncate">{conv.title}</div>
+                            )}
                             <div className="text-[10px] text-zinc-500 mt-0.5">{timeAgo(conv.updatedAt)}</div>
                         </div>
+                        {/* a title the user typed is theirs — only the model's guesses can be redone */}
+                        {onRetitle && conv.titleSource !== "user" && renamingId !== conv.id && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onRetitle(conv.id); }}
+                                title="retitle"
+                                className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-white transition-all shrink-0 p-1 rounded-md hover:bg-zinc-800"
+                            >
+                                <Sparkles className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                        {onRename && renamingId !== conv.id && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); startRename(conv); }}
+                                title="rename"
+                                className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-white transition-all shrink-0 p-1 rounded-md hover:bg-zinc-800"
+                            >
+                                <Pencil className="w-3.5 h-3.5" />
+                            </button>
+                        )}
                         {onDelete && (
                             <button
                                 onClick={(e) => { e.stopPropagation(); onDelete(conv.id); }}
@@ -109,7 +169,7 @@ export function Sidebar({ isOpen, currentModel, onNewChat, conversations = [], a
                         )} />
                         <span className="text-zinc-300 font-mono truncate">
                             {currentModel
-                                ? WEBLLM_MODELS.find(m => m.id === currentModel)?.label || "Loaded"
+                                ? findModel(currentModel)?.label || "Loaded"
                                 : "None selected"
                             }
                         </span>
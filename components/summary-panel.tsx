@@ -0,0 +1,69 @@
+"use client";
+
+import React, { useState } from "react";
+import { Layers, ChevronDown, ChevronRight, Pencil, Trash2 } from "lucide-react";
+import type { ConversationSummary } from "@/lib/compaction";
+
+interface SummaryPanelProps {
+    summary: ConversationSummary;
+    onSave: (summary: ConversationSummary) => void;
+    onClear: () => void;
+}
+
+// Divider under the last compacted message: what the model now sees instead of
+// everything above it. Editable, since a bad summary quietly steers every reply.
+export function SummaryPanel({ summary, onSave, onClear }: SummaryPanelProps) {
+    const [open, setOpen] = useState(false);
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(summary.text);
+
+    const save = () => {
+        if (draft.trim() && draft.trim() !== summary.text) {
+            onSave({ ...summary, text: draft.trim(), edited: true, updatedAt: Date.now() });
+        }
+        setEditing(false);
+    };
+
+    return (
+        <div className="font-mono text-[11px] border border-dashed border-zinc-800 rounded-xl bg-zinc-950/60">
+            <div className="flex items-center gap-2 px-4 py-2 text-zinc-500">
+                <button onClick={() => setOpen(!open)} className="flex items-center gap-2 hover:text-zinc-300 transition-colors">
+                    <Layers className="w-3.5 h-3.5" />
+                    <span>{summary.messageCount} earlier messages summarized for the model{summary.edited ? " · edited" : ""}</span>
+                    {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </button>
+                {open && !editing && (
+                    <div className="ml-auto flex items-center gap-2">
+                        <button onClick={() => { setDraft(summary.text); setEditing(true); }} className="p-0.5 hover:text-white" title="edit summary">
+                            <Pencil className="w-3 h-3" />
+                        </button>
+                        <button onClick={onClear} className="p-0.5 hover:text-red-400" title="discard — rebuilt on the next overflow">
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    </div>
+                )}
+            </div>
+            {open && (
+                <div className="px-4 pb-3 border-t border-zinc-800/60 pt-2">
+                    {editing ? (
+                        <div className="space-y-2">
+                            <textarea
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                rows={Math.min(14, draft.split("\n").length + 1)}
+                                autoFocus
+                                className="w-full bg-transparent text-zinc-300 resize-none outline-none leading-relaxed"
+                            />
+                            <div className="flex justify-end gap-3">
+                                <button onClick={() => setEditing(false)} className="text-zinc-500 hover:text-white">cancel</button>
+                                <button onClick={save} className="text-phosphor hover:text-white">save</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="text-zinc-400 whitespace-pre-wrap leading-relaxed">{summary.text}</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { EXPORT_FORMAT, EXPORT_VERSION, parseConversationExport } from "@/lib/chatExport";
+
+describe("parseConversationExport", () => {
+    it("returns every record, valid or not, for the store to check", () => {
+        const records = [{ id: "c1", title: "t", nodes: [] }, null];
+        expect(parseConversationExport(JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, conversations: records })))
+            .toEqual(records);
+    });
+
+    it("rejects files that aren't chat exports", () => {
+        expect(() => parseConversationExport("{not json")).toThrow("not valid JSON");
+        expect(() => parseConversationExport(JSON.stringify({ format: "other", conversations: [] }))).toThrow("not an n0x chat export");
+        expect(() => parseConversationExport(JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION + 1, conversations: [] })))
+            .toThrow("newer");
+    });
+});
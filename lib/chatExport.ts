@@ -0,0 +1,216 @@
+"use client";
+
+import { activeBranch, type ChatMessage, type Conversation } from "@/lib/useChatStore";
+import { splitThinking } from "@/lib/utils";
+
+// ─── Conversation export / import ───────────────────────────────────
+// Markdown and HTML are for reading: they follow the branch on screen and
+// optionally keep the model's <think> reasoning. JSON is the lossless format —
+// every branch, telemetry and attachment — and the only one that imports back.
+
+export const EXPORT_FORMAT = "n0x-chat";
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = "md" | "json" | "html";
+
+export interface ExportOptions {
+    includeThinking?: boolean;
+}
+
+const EXPORT_TYPES: Record<ExportFormat, string> = {
+    md: "text/markdown",
+    json: "application/json",
+    html: "text/html",
+};
+
+interface ChatExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    conversations: Conversation[];
+}
+
+const dateOf = (ts: number) => new Date(ts).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+// ── Markdown ──
+
+function messageToMarkdown(m: ChatMessage, opts: ExportOptions): string {
+    const out = [`### ${m.role === "user" ? "You" : "Assistant"}`, ""];
+    if (m.images?.length) out.push(`_[${m.images.length} image${m.images.length > 1 ? "s" : ""} attached]_`, "");
+
+    const { thinking, answer } = m.role === "assistant" ? splitThinking(m.content) : { thinking: "", answer: m.content };
+    if (thinking && opts.includeThinking) {
+        out.push("<details>", "<summary>Reasoning</summary>", "", thinking, "", "</details>", "");
+    }
+    out.push(answer);
+    if (m.image) out.push("", `![generated image](${m.image})`);
+    if (m.citations?.length) {
+        out.push("", "**Sources**", "", ...m.citations.map((c, i) => {
+            const title = c.page ? `${c.title}, p. ${c.page}` : c.title;
+            return `${i + 1}. ${c.url ? `[${title}](${c.url})` : title}`;
+        }));
+    }
+    return out.join("\n");
+}
+
+export function conversationsToMarkdown(conversations: Conversation[], opts: ExportOptions = {}): string {
+    return conversations.map(conv => [
+        `# ${conv.title}`,
+        "",
+        `_exported from n0x · started ${dateOf(conv.createdAt)}_`,
+        "",
+        ...activeBranch(conv).map(m => messageToMarkdown(m, opts) + "\n"),
+    ].join("\n")).join("\n---\n\n");
+}
+
+// ── JSON ──
+
+export function conversationsToJSON(conversations: Conversation[]): string {
+    const data: ChatExport = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        conversations,
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+// Raw conversation records from a JSON export; useChatStore migrates and de-duplicates them
+export function parseConversationExport(text: string): unknown[] {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("file is not valid JSON");
+    }
+    if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.conversations)) {
+        throw new Error("not an n0x chat export");
+    }
+    if (data.version > EXPORT_VERSION) {
+        throw new Error(`export version ${data.version} is newer than this app supports`);
+    }
+    // records are checked one by one on import, so one bad entry doesn't sink the file
+    return data.conversations;
+}
+
+// ── HTML ──
+
+const escapeHtml = (s: string) => s
+    .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const safeUrl = (url: string) => /^(https?:|data:image\/)/i.test(url) ? url : "#";
+
+function renderInline(text: string): string {
+    // pull code spans out first so their contents aren't formatted
+    const spans: string[] = [];
+    let s = text.replace(/`([^`]+)`/g, (_, code: string) => {
+        spans.push(`<code>${escapeHtml(code)}</code>`);
+        return `\u0000${spans.length - 1}\u0000`;
+    });
+    s = escapeHtml(s)
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt, url) => `<img alt="${alt}" src="${safeUrl(url)}">`)
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, url) => `<a href="${safeUrl(url)}">${label}</a>`)
+        .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+        .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, "$1<em>$2</em>");
+    return s.replace(/\u0000(\d+)\u0000/g, (_, i) => spans[Number(i)]);
+}
+
+function renderBlock(block: string): string {
+    const lines = block.split("\n");
+    const heading = block.match(/^(#{1,6})\s+(.*)$/);
+    if (heading && lines.length === 1) return `<h${heading[1].length + 2}>${renderInline(heading[2])}</h${heading[1].length + 2}>`;
+    if (lines.every(l => /^\s*[-*+]\s+/.test(l))) {
+        return `<ul>${lines.map(l => `<li>${renderInline(l.replace(/^\s*[-*+]\s+/, ""))}</li>`).join("")}</ul>`;
+    }
+    if (lines.every(l => /^\s*\d+[.)]\s+/.test(l))) {
+        return `<ol>${lines.map(l => `<li>${renderInline(l.replace(/^\s*\d+[.)]\s+/, ""))}</li>`).join("")}</ol>`;
+    }
+    if (lines.every(l => l.startsWith(">"))) {
+        return `<blockquote>${renderMarkdown(lines.map(l => l.replace(/^>\s?/, "")).join("\n"))}</blockquote>`;
+    }
+    return `<p>${lines.map(renderInline).join("<br>")}</p>`;
+}
+
+// Just enough Markdown for chat replies: fenced code, headings, lists, quotes, inline marks
+function renderMarkdown(md: string): string {
+    const parts = md.split(/^```([^\n]*)\n([\s\S]*?)(?:^```\s*$|(?![\s\S]))/m);
+    let html = "";
+    for (let i = 0; i < parts.length; i += 3) {
+        html += parts[i].split(/\n\s*\n/).map(b => b.trim()).filter(Boolean).map(renderBlock).join("\n");
+        if (i + 2 < parts.length) {
+            const lang = parts[i + 1].trim();
+            html += `<pre><code${lang ? ` class="language-${escapeHtml(lang)}"` : ""}>${escapeHtml(parts[i + 2].replace(/\n$/, ""))}</code></pre>`;
+        }
+    }
+    return html;
+}
+
+function messageToHTML(m: ChatMessage, opts: ExportOptions): string {
+    const { thinking, answer } = m.role === "assistant" ? splitThinking(m.content) : { thinking: "", answer: m.content };
+    const images = (m.images ?? []).map(src => `<img class="attachment" src="${safeUrl(src)}" alt="attachment">`).join("");
+    const body = m.role === "user" ? `<p>${escapeHtml(answer).replace(/\n/g, "<br>")}</p>` : renderMarkdown(answer);
+    const sources = m.citations?.length
+        ? `<ol class="sources">${m.citations.map(c => {
+            const title = escapeHtml(c.page ? `${c.title}, p. ${c.page}` : c.title);
+            return `<li title="${escapeHtml(c.snippet)}">${c.url ? `<a href="${safeUrl(c.url)}">${title}</a>` : title}</li>`;
+        }).join("")}</ol>`
+        : "";
+    return `<div class="msg ${m.role}">
+<div class="role">${m.role === "user" ? "you" : "assistant"}</div>
+${images}${thinking && opts.includeThinking ? `<details><summary>reasoning</summary>${renderMarkdown(thinking)}</details>` : ""}${body}${m.image ? `<img src="${safeUrl(m.image)}" alt="generated image">` : ""}${sources}
+</div>`;
+}
+
+const HTML_STYLE = `
+body { background:#0a0a0a; color:#e4e4e7; font:15px/1.6 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif; margin:0; padding:40px 16px; }
+main { max-width:760px; margin:0 auto; }
+h1 { font-size:22px; margin:0 0 4px; } .meta { color:#71717a; font:12px "JetBrains Mono",monospace; margin-bottom:28px; }
+hr { border:0; border-top:1px solid #27272a; margin:48px 0; }
+.msg { margin:0 0 20px; } .role { color:#71717a; font:11px "JetBrains Mono",monospace; text-transform:uppercase; letter-spacing:.08em; margin-bottom:4px; }
+.user { background:#27272a; border-radius:14px; padding:12px 18px; margin-left:15%; }
+pre { background:#111; border:1px solid #27272a; border-radius:10px; padding:14px; overflow-x:auto; }
+code { font:13px "JetBrains Mono",monospace; } p code, li code { background:#27272a; padding:1px 5px; border-radius:4px; }
+blockquote { border-left:2px solid #3f3f46; margin:0; padding-left:14px; color:#a1a1aa; }
+details { border:1px solid #27272a; border-radius:10px; padding:8px 14px; color:#a1a1aa; font-style:italic; margin-bottom:10px; }
+summary { cursor:pointer; font:11px "JetBrains Mono",monospace; font-style:normal; text-transform:uppercase; }
+img { max-width:100%; border-radius:10px; } img.attachment { max-height:240px; display:block; margin-bottom:8px; }
+a { color:#93c5fd; }
+.sources { color:#71717a; font:11px "JetBrains Mono",monospace; border-top:1px solid #27272a; padding-top:8px; margin:12px 0 0; }`;
+
+export function conversationsToHTML(conversations: Conversation[], opts: ExportOptions = {}): string {
+    const title = conversations.length === 1 ? conversations[0].title : `${conversations.length} conversations`;
+    const sections = conversations.map(conv => `<section>
+<h1>${escapeHtml(conv.title)}</h1>
+<div class="meta">exported from n0x · started ${escapeHtml(dateOf(conv.createdAt))}</div>
+${activeBranch(conv).map(m => messageToHTML(m, opts)).join("\n")}
+</section>`).join("\n<hr>\n");
+
+    return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${escapeHtml(title)} — n0x</title>
+<style>${HTML_STYLE}</style>
+</head><body><main>
+${sections}
+</main></body></html>`;
+}
+
+// ── Download ──
+
+const slug = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "chat";
+
+// Save as a file: one conversation is named after its title, several after the date
+export function downloadConversations(conversations: Conversation[], format: ExportFormat, opts: ExportOptions = {}) {
+    if (conversations.length === 0) return;
+    const content = format === "md" ? conversationsToMarkdown(conversations, opts)
+        : format === "html" ? conversationsToHTML(conversations, opts)
+            : conversationsToJSON(conversations);
+    const name = conversations.length > 1 ? `n0x-chats-${new Date().toISOString().slice(0, 10)}` : `n0x-${slug(conversations[0].title)}`;
+
+    const url = URL.createObjectURL(new Blob([content], { type: EXPORT_TYPES[format] }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${name}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+}
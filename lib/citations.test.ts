@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { cited, citationLabel, linkCitations, numberSources, webSources } from "@/lib/citations";
+
+describe("linkCitations", () => {
+    it("links markers for known sources", () => {
+        expect(linkCitations("Fast [1] and cheap [2].", 2)).toBe("Fast [1](#cite-1) and cheap [2](#cite-2).");
+    });
+
+    it("splits grouped markers", () => {
+        expect(linkCitations("See [1, 3].", 3)).toBe("See [1](#cite-1)[3](#cite-3).");
+    });
+
+    it("leaves unknown numbers, links and footnote definitions alone", () => {
+        expect(linkCitations("Only [4].", 3)).toBe("Only [4].");
+        expect(linkCitations("A [1](https://x.dev) link and [1]: def", 3)).toBe("A [1](https://x.dev) link and [1]: def");
+    });
+
+    it("skips code spans and fences", () => {
+        const md = "Index `arr[1]` here [1]\n```\nxs[2]\n```";
+        expect(linkCitations(md, 2)).toBe("Index `arr[1]` here [1](#cite-1)\n```\nxs[2]\n```");
+    });
+
+    it("does nothing without sources", () => {
+        expect(linkCitations("[1]", 0)).toBe("[1]");
+    });
+});
+
+describe("webSources", () => {
+    const long = "WebGPU exposes modern GPU features to the web platform for compute and graphics.";
+
+    it("drops the engine's title header and short passages, and keeps at most three", () => {
+        const passages = [
+            { title: "A", url: "https://a.dev", text: `[A]\n${long}` },
+            { title: "B", url: "https://b.dev", text: "too short" },
+            { title: "C", url: "", text: long },
+            { title: "D", url: "https://d.dev", text: long },
+            { title: "E", url: "https://e.dev", text: long },
+        ];
+        const sources = webSources(passages);
+        expect(sources.map(s => s.citation.title)).toEqual(["A", "C", "D"]);
+        expect(sources[0].text).toBe(long);
+        expect(sources[1].citation.url).toBeUndefined();
+    });
+});
+
+describe("numberSources", () => {
+    it("numbers entries from the given start with their labels", () => {
+        const doc = cited({ kind: "doc", title: "notes.pdf", page: 3 }, " page text ");
+        const web = cited({ kind: "web", title: "Spec", url: "https://w3.org" }, "spec text");
+        expect(citationLabel(doc.citation)).toBe("notes.pdf, p. 3");
+        expect(numberSources([doc, web], 2)).toBe("[2] notes.pdf, p. 3\npage text\n\n[3] Spec — https://w3.org\nspec text");
+    });
+
+    it("clips stored snippets at a word boundary", () => {
+        const { citation } = cited({ kind: "doc", title: "big.txt" }, "word ".repeat(300));
+        expect(citation.snippet.length).toBeLessThanOrEqual(601);
+        expect(citation.snippet.endsWith("word…")).toBe(true);
+    });
+});
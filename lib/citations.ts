@@ -0,0 +1,72 @@
+"use client";
+
+import type { SearchPassage } from "@/lib/useDeepSearch";
+
+// ─── Citations ──────────────────────────────────────────────────────
+// Web results and document excerpts go into the prompt as numbered blocks,
+// [1] [2] …, and the same list is stored on the reply. MessageBubble turns
+// the model's [n] markers into footnotes whose preview is the text the model
+// was given (clipped), not a fresh fetch of the page.
+
+export interface Citation {
+    kind: "web" | "doc";
+    title: string;              // page title or file name
+    url?: string;               // web results
+    chunkId?: string;           // document excerpts from the vector index; absent when the whole file went in
+    page?: number;              // PDFs: page the excerpt starts on
+    snippet: string;
+}
+
+// A source as injected: the full text the model saw, and what gets stored
+export interface CitedText {
+    citation: Citation;
+    text: string;
+}
+
+const SNIPPET_CHARS = 600;
+const WEB_PASSAGES = 3;
+const WEB_PASSAGE_CHARS = 1200;
+
+function clip(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max).replace(/\s+\S*$/, "") + "…" : text;
+}
+
+export function cited(citation: Omit<Citation, "snippet">, text: string): CitedText {
+    return { citation: { ...citation, snippet: clip(text.trim(), SNIPPET_CHARS) }, text };
+}
+
+export function citationLabel(c: Citation): string {
+    if (c.kind === "web") return c.url ? `${c.title} — ${c.url}` : c.title;
+    return c.page ? `${c.title}, p. ${c.page}` : c.title;
+}
+
+// The context block: one numbered entry per source, starting at `first`
+export function numberSources(sources: CitedText[], first = 1): string {
+    return sources.map((s, i) => `[${first + i}] ${citationLabel(s.citation)}\n${s.text.trim()}`).join("\n\n");
+}
+
+// Search passages worth quoting: the engine's "[title]" header line goes
+// (the label carries the title) and each passage is capped
+export function webSources(passages: SearchPassage[]): CitedText[] {
+    return passages
+        .map(p => ({ ...p, text: p.text.replace(/^\[[^\]\n]+\]\n?/, "").trim() }))
+        .filter(p => p.text.length > 40)
+        .slice(0, WEB_PASSAGES)
+        .map(p => cited({ kind: "web", title: p.title || p.url || "web result", url: p.url || undefined }, clip(p.text, WEB_PASSAGE_CHARS)));
+}
+
+export const CITE_INSTRUCTION = "Cite the sources you use inline with their numbers, like [1] or [2][3].";
+
+// [n] and [n, m] markers for known sources become #cite-n links for the
+// bubble to render; code spans and fenced blocks are left alone
+export function linkCitations(markdown: string, count: number): string {
+    if (count === 0) return markdown;
+    return markdown
+        .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+        .map((part, i) => i % 2 === 1 ? part : part.replace(/\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?![(:])/g, (marker, list: string) => {
+            const numbers = list.split(",").map(n => parseInt(n, 10));
+            if (numbers.some(n => n < 1 || n > count)) return marker;
+            return numbers.map(n => `[${n}](#cite-${n})`).join("");
+        }))
+        .join("");
+}
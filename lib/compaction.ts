@@ -0,0 +1,111 @@
+"use client";
+
+import { countMessageTokens, countTokens, promptBudget, truncateToTokens } from "@/lib/tokenCounter";
+import { stripThinking } from "@/lib/utils";
+
+// ─── History compaction ─────────────────────────────────────────────
+// When a conversation outgrows the context window, the oldest turns are folded
+// into a running summary by the model instead of being dropped. A summary names
+// the last message it covers, so it only applies on branches that contain that
+// message — after an edit or regenerate further up, the new branch gets its own
+// summary the next time it overflows, and switching back reuses the old one.
+
+export interface ConversationSummary {
+    text: string;
+    throughId: string;          // last message folded into the summary
+    messageCount: number;       // messages it covers, counted from the root
+    edited?: boolean;           // hand-edited; later compactions build on the edit
+    updatedAt: number;
+}
+
+interface Turn {
+    id: string;
+    role: string;
+    content: string;
+}
+
+export const SUMMARY_HEADER = "[Summary of the earlier conversation]";
+export const SUMMARY_MAX_TOKENS = 400;
+// after compacting, keep this share of the history budget verbatim so the
+// next few turns fit without compacting again
+const RECENT_SHARE = 0.5;
+const MAX_STORED_SUMMARIES = 8;
+
+const SUMMARIZE_PROMPT = "You maintain a running summary of a conversation between a user and an assistant. " +
+    "Merge the new messages into the existing summary. Keep facts, decisions, names, numbers, code identifiers and open questions; " +
+    "drop greetings and filler. Write terse bullet points, under 250 words in total. Reply with the summary only.";
+
+// The summary that applies to `path`: the one reaching furthest along it
+export function pickSummary(path: { id: string }[], summaries: ConversationSummary[] = []): ConversationSummary | undefined {
+    const position = new Map(path.map((m, i) => [m.id, i]));
+    let best: ConversationSummary | undefined;
+    for (const s of summaries) {
+        const at = position.get(s.throughId);
+        if (at !== undefined && (!best || at > position.get(best.throughId)!)) best = s;
+    }
+    return best;
+}
+
+// Add or replace (by covered message) a summary, keeping the newest few. Older
+// summaries on the same branch stay: another branch may fork after them.
+export function storeSummary(summaries: ConversationSummary[] = [], summary: ConversationSummary): ConversationSummary[] {
+    return [...summaries.filter(s => s.throughId !== summary.throughId), summary].slice(-MAX_STORED_SUMMARIES);
+}
+
+export function summaryBlock(summary: ConversationSummary): string {
+    return `${SUMMARY_HEADER}\n${summary.text}`;
+}
+
+// Index of the first turn to keep verbatim when `history` doesn't fit in
+// `budget` tokens; 0 when it fits
+export function planCompaction(history: Turn[], budget: number): number {
+    if (countMessageTokens(history) <= budget) return 0;
+    let kept = 0;
+    let start = history.length;
+    while (start > 0) {
+        const tokens = countMessageTokens([history[start - 1]]);
+        if (kept + tokens > budget * RECENT_SHARE) break;
+        kept += tokens;
+        start--;
+    }
+    // resume on a user turn so the kept history reads naturally
+    while (start < history.length && history[start].role !== "user") start++;
+    return start;
+}
+
+// Fold `turns` into `previous`, in as many passes as the context window needs
+export async function summarizeTurns(
+    previous: string,
+    turns: Turn[],
+    generate: (messages: { role: string; content: string }[]) => Promise<string>,
+): Promise<string> {
+    let summary = previous;
+    const window = promptBudget(SUMMARY_MAX_TOKENS) - countTokens(SUMMARIZE_PROMPT) - 64;
+    const lines = turns
+        .map(t => `${t.role === "user" ? "User" : "Assistant"}: ${t.role === "assistant" ? stripThinking(t.content) : t.content}`)
+        .filter(l => l.trim());
+
+    let chunk: string[] = [];
+    let chunkTokens = 0;
+    const fold = async () => {
+        if (chunk.length === 0) return;
+        const reply = await generate([
+            { role: "system", content: SUMMARIZE_PROMPT },
+            { role: "user", content: `Existing summary:\n${summary || "(none yet)"}\n\nNew messages:\n${chunk.join("\n\n")}` },
+        ]);
+        summary = stripThinking(reply) || summary;
+        chunk = [];
+        chunkTokens = 0;
+    };
+
+    for (const line of lines) {
+        const tokens = countTokens(line);
+        if (chunk.length > 0 && chunkTokens + tokens > window - countTokens(summary)) await fold();
+        // a single turn too long for one pass is cut down to what fits
+        const piece = truncateToTokens(line, window - countTokens(summary));
+        chunk.push(piece);
+        chunkTokens += piece === line ? tokens : countTokens(piece);
+    }
+    await fold();
+    return summary;
+}
@@ -0,0 +1,56 @@
+"use client";
+
+// ─── Per-conversation settings ──────────────────────────────────────
+// Each conversation remembers how it was being run — model, persona, agent
+// mode, which tools were on and which knowledge-base files were in scope — and
+// switching back to it restores all of that. Sampling params already live on
+// the conversation (Conversation.generation). New chats start from a default
+// the user can overwrite with the current setup.
+
+export interface ConversationTools {
+    search: boolean;
+    memory: boolean;
+    python: boolean;
+}
+
+export interface ConversationSettings {
+    modelId: string | null;
+    personaId: string;
+    agent: boolean;
+    tools: ConversationTools;
+    // knowledge-base files (by name) this chat draws on; null = every loaded file.
+    // Names, not ids, because uploaded documents are re-added each session.
+    knowledge: string[] | null;
+}
+
+const DEFAULTS_KEY = "n0x_default_settings";
+
+export const BUILTIN_DEFAULTS: ConversationSettings = {
+    modelId: null,              // keep whatever is loaded
+    personaId: "default",
+    agent: false,
+    tools: { search: false, memory: false, python: false },
+    knowledge: null,
+};
+
+export function loadDefaultSettings(): ConversationSettings {
+    try {
+        const raw = localStorage.getItem(DEFAULTS_KEY);
+        if (!raw) return BUILTIN_DEFAULTS;
+        const saved = JSON.parse(raw);
+        return { ...BUILTIN_DEFAULTS, ...saved, tools: { ...BUILTIN_DEFAULTS.tools, ...saved.tools } };
+    } catch {
+        return BUILTIN_DEFAULTS;
+    }
+}
+
+export function saveDefaultSettings(settings: ConversationSettings | null) {
+    try {
+        if (settings) localStorage.setItem(DEFAULTS_KEY, JSON.stringify(settings));
+        else localStorage.removeItem(DEFAULTS_KEY);
+    } catch { }
+}
+
+export function sameSettings(a: ConversationSettings | undefined, b: ConversationSettings | undefined): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { truncateToTokens } from "@/lib/tokenCounter";
+import type { GenerationOptions } from "@/lib/useWebLLM";
+import { stripThinking } from "@/lib/utils";
+
+// ─── Generated titles ───────────────────────────────────────────────
+// Once a chat has its first reply, the model names it from the opening turns,
+// at background priority so it never holds up the next message. The sidebar
+// can ask again later; a title the user typed is never replaced.
+
+export const TITLE_OPTIONS: GenerationOptions = { temperature: 0.3, max_tokens: 24 };
+
+const TITLE_PROMPT = "Write a short, specific title for this conversation: 2 to 6 words, in the conversation's language. " +
+    "Reply with the title only — no quotes, no trailing punctuation.";
+const TITLE_TURNS = 4;              // opening messages the title is based on
+const TURN_TOKENS = 200;
+const MAX_TITLE_CHARS = 60;
+
+export function titleMessages(turns: { role: string; content: string }[]): { role: string; content: string }[] {
+    const excerpt = turns
+        .filter(t => t.role === "user" || t.role === "assistant")
+        .slice(0, TITLE_TURNS)
+        .map(t => `${t.role === "user" ? "User" : "Assistant"}: ${truncateToTokens(stripThinking(t.content), TURN_TOKENS)}`)
+        .join("\n\n");
+    return [
+        { role: "system", content: TITLE_PROMPT },
+        { role: "user", content: excerpt },
+    ];
+}
+
+// Small models wrap the answer in quotes, prefixes and markdown; keep just the title
+export function cleanTitle(reply: string): string {
+    const line = stripThinking(reply).split("\n").map(l => l.trim()).find(Boolean) ?? "";
+    const title = line
+        .replace(/^[#*_"'`“”‘’\s]+|[*_"'`“”‘’\s]+$/g, "")
+        .replace(/^title\s*:\s*/i, "")
+        .replace(/^["'“‘]+|["'”’]+$/g, "")
+        .replace(/[.!:;,]+$/, "")
+        .trim();
+    return title.length > MAX_TITLE_CHARS ? title.slice(0, MAX_TITLE_CHARS).replace(/\s+\S*$/, "") + "…" : title;
+}
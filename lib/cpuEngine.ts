@@ -0,0 +1,104 @@
+"use client";
+
+import type { Wllama } from "@wllama/wllama/esm/index.js";
+import type { InferenceProvider } from "@/lib/inferenceProvider";
+
+// ─── CPU fallback (llama.cpp → WASM via wllama) ─────────────────────
+// Used when the browser has no WebGPU (Firefox, Linux without drivers, VDI).
+// Only small GGUF models are practical here, so just the "fast" tier carries a
+// GGUF source. wllama runs inference in its own worker; without COOP/COEP
+// headers it falls back to a single thread, which is still usable for <1B models.
+
+export interface GGUFSource {
+    repo: string;   // Hugging Face repo id
+    file: string;   // .gguf file inside the repo
+}
+
+export const CPU_CONTEXT_TOKENS = 4096;
+
+let wllama: Wllama | null = null;
+let loadedSource: string | null = null;
+
+function keyOf(source: GGUFSource) {
+    return `${source.repo}/${source.file}`;
+}
+
+export function isCpuModelLoaded(): boolean {
+    return !!wllama && loadedSource !== null;
+}
+
+export async function loadCpuModel(source: GGUFSource, onProgress?: (progress: number) => void): Promise<void> {
+    if (loadedSource === keyOf(source)) return;
+
+    // loaded lazily — the WASM runtime is dead weight on WebGPU machines.
+    // The package's "main" points at a file it doesn't ship, so import the ESM build directly.
+    const { Wllama } = await import("@wllama/wllama/esm/index.js");
+    if (!wllama) {
+        wllama = new Wllama(
+            { default: new URL("@wllama/wllama/esm/wasm/wllama.wasm", import.meta.url).toString() },
+            { suppressNativeLog: true },
+        );
+    }
+
+    await unloadCpuModel();
+    await wllama.loadModelFromHF(source, {
+        n_ctx: CPU_CONTEXT_TOKENS,
+        progressCallback: ({ loaded, total }) => onProgress?.(total > 0 ? loaded / total : 0),
+    });
+    loadedSource = keyOf(source);
+}
+
+export async function unloadCpuModel(): Promise<void> {
+    if (!wllama || !loadedSource) return;
+    loadedSource = null;
+    try {
+        await wllama.exit();
+    } catch (e) {
+        console.warn("CPU engine unload failed:", e);
+    }
+    // exit() tears down the worker; a fresh instance is needed for the next load
+    wllama = null;
+}
+
+export const cpuProvider: InferenceProvider = {
+    async *stream(messages, options, signal) {
+        if (!wllama || !loadedSource) throw new Error("Model not loaded");
+
+        const stream = await wllama.createChatCompletion({
+            messages: messages as any,
+            stream: true,
+            abortSignal: signal,
+            temperature: options.temperature,
+            top_p: options.top_p,
+            max_tokens: options.max_tokens,
+            seed: options.seed,
+            penalty_present: options.presence_penalty,
+            penalty_freq: options.frequency_penalty,
+            response_format: options.json_schema
+                ? { type: "json_schema", json_schema: { name: "response", schema: JSON.parse(options.json_schema) } }
+                : undefined,
+        });
+
+        // wllama's chat API has no stop sequences — enforce them on the text,
+        // holding back just enough characters to catch a stop split across tokens
+        const stops = (options.stop || []).filter(Boolean);
+        const holdBack = stops.reduce((n, st) => Math.max(n, st.length - 1), 0);
+        let text = "";
+        let emitted = 0;
+        for await (const chunk of stream) {
+            text += chunk.choices[0]?.delta?.content || "";
+            const hits = stops.map(st => text.indexOf(st, emitted)).filter(i => i >= 0);
+            if (hits.length > 0) {
+                const cut = Math.min(...hits);
+                if (cut > emitted) yield text.slice(emitted, cut);
+                return;
+            }
+            const safe = text.length - holdBack;
+            if (safe > emitted) {
+                yield text.slice(emitted, safe);
+                emitted = safe;
+            }
+        }
+        if (text.length > emitted) yield text.slice(emitted);
+    },
+};
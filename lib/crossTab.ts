@@ -0,0 +1,50 @@
+"use client";
+
+// ─── Cross-tab sync ─────────────────────────────────────────────────
+// With n0x open in several tabs, each store announces its writes on one
+// BroadcastChannel and the other tabs re-read what changed. A message only
+// says *what* changed (topic, record id, version); IndexedDB / localStorage
+// stay the source of truth, so a tab that misses one just catches up on the
+// next. Stale writes are handled where they happen, by per-record versions.
+
+export type SyncTopic = "chat" | "memory" | "persona" | "rag";
+
+export interface SyncMessage {
+    topic: SyncTopic;
+    kind: "put" | "delete" | "clear";
+    id?: string;
+    version?: number;
+    payload?: unknown;          // structured-cloned, so Files can ride along
+}
+
+const CHANNEL_NAME = "n0x_sync";
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<(msg: SyncMessage) => void>();
+
+function getChannel(): BroadcastChannel | null {
+    if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") return null;
+    if (!channel) {
+        channel = new BroadcastChannel(CHANNEL_NAME);
+        // a channel never receives its own posts, so these are always other tabs
+        channel.onmessage = (e: MessageEvent<SyncMessage>) => listeners.forEach(l => l(e.data));
+    }
+    return channel;
+}
+
+export function broadcast(msg: SyncMessage) {
+    try {
+        getChannel()?.postMessage(msg);
+    } catch (e) {
+        console.warn("Cross-tab broadcast failed:", e);
+    }
+}
+
+export function subscribe(topic: SyncTopic, handler: (msg: SyncMessage) => void): () => void {
+    const listener = (msg: SyncMessage) => {
+        if (msg?.topic === topic) handler(msg);
+    };
+    getChannel();
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
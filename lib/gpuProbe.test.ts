@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import type { ModelRecord } from "@mlc-ai/web-llm";
+import { assessFit, type GpuProfile } from "@/lib/gpuProbe";
+
+const MB = 1024 * 1024;
+
+const gpu = (over: Partial<GpuProfile> = {}): GpuProfile => ({
+    vendor: "apple", architecture: "metal-3", description: "", gpuClass: "unified", shaderF16: true,
+    maxBufferSize: 1024 * MB, maxStorageBufferBindingSize: 1024 * MB,
+    estimatedVramMB: 5734, estimateIsFloor: false, ...over,
+});
+
+const model = (over: Partial<ModelRecord> = {}) =>
+    ({ model: "", model_id: "m", model_lib: "", vram_required_MB: 2000, ...over }) as ModelRecord;
+
+describe("assessFit", () => {
+    it("grades by required VRAM against the estimate", () => {
+        expect(assessFit(model({ vram_required_MB: 2000 }), gpu()).fit).toBe("fits");
+        expect(assessFit(model({ vram_required_MB: 5500 }), gpu()).fit).toBe("risky");
+        expect(assessFit(model({ vram_required_MB: 9000 }), gpu()).fit).toBe("wont-fit");
+    });
+
+    it("only warns when the estimate is a floor from capped RAM", () => {
+        const fit = assessFit(model({ vram_required_MB: 9000 }), gpu({ estimateIsFloor: true }));
+        expect(fit.fit).toBe("risky");
+        expect(fit.reason).toMatch(/^may not fit/);
+    });
+
+    it("still blocks on hard requirements", () => {
+        expect(assessFit(model({ required_features: ["shader-f16"] }), gpu({ shaderF16: false, estimateIsFloor: true })).fit).toBe("wont-fit");
+        expect(assessFit(model({ buffer_size_required_bytes: 2048 * MB }), gpu({ estimateIsFloor: true })).fit).toBe("wont-fit");
+    });
+
+    it("calls unknown requirements risky", () => {
+        expect(assessFit(undefined, gpu()).fit).toBe("risky");
+        expect(assessFit(model({ vram_required_MB: undefined }), gpu()).fit).toBe("risky");
+    });
+});
@@ -0,0 +1,125 @@
+"use client";
+
+import type { ModelRecord } from "@mlc-ai/web-llm";
+
+// ─── GPU capability probe ───────────────────────────────────────────
+// WebGPU won't tell us how much VRAM there is, and navigator.deviceMemory is
+// capped at 8 and describes system RAM. What the adapter does expose — buffer
+// limits, shader-f16, vendor/architecture — is enough to tell an integrated
+// laptop chip from a discrete card, and to rule models in or out on hard
+// requirements. The estimate is deliberately rough; "risky" covers the gap.
+
+export type GpuClass = "discrete" | "integrated" | "unified" | "software" | "unknown";
+
+export interface GpuProfile {
+    vendor: string;
+    architecture: string;
+    description: string;
+    gpuClass: GpuClass;
+    shaderF16: boolean;
+    maxBufferSize: number;
+    maxStorageBufferBindingSize: number;
+    estimatedVramMB: number;
+    // the estimate came from deviceMemory at its cap (or absent), so the real
+    // figure may be well above it — too low a number to block anything on
+    estimateIsFloor: boolean;
+}
+
+export type ModelFit = "fits" | "risky" | "wont-fit";
+
+export interface FitAssessment {
+    fit: ModelFit;
+    reason: string;
+}
+
+export const FIT_LABELS: Record<ModelFit, string> = {
+    fits: "will fit",
+    risky: "risky",
+    "wont-fit": "won't fit",
+};
+
+const MB = 1024 * 1024;
+const DEFAULT_DEVICE_MEMORY_GB = 8;     // what deviceMemory reports on most desktops (its cap)
+const DISCRETE_VRAM_MB = 8192;
+const UNKNOWN_VRAM_MB = 4096;
+const SOFTWARE_VRAM_MB = 1024;
+// share of system RAM the browser can realistically hand to the GPU
+const UNIFIED_SHARE = 0.7;
+const INTEGRATED_SHARE = 0.5;
+// requirement / estimate ratios
+const FITS_BELOW = 0.8;
+const RISKY_BELOW = 1.15;
+
+function classify(vendor: string, architecture: string, description: string, isFallback: boolean): GpuClass {
+    const text = `${vendor} ${architecture} ${description}`.toLowerCase();
+    if (isFallback || /swiftshader|llvmpipe|software|basic render/.test(text)) return "software";
+    if (/apple/.test(text)) return "unified";
+    if (/nvidia/.test(text)) return "discrete";
+    if (/intel/.test(text)) return /\barc\b|xe-hpg/.test(text) ? "discrete" : "integrated";
+    if (/amd|ati\b|radeon/.test(text)) return /integrated|radeon\(tm\) graphics|vega \d\b|rdna-?\d?\s*igpu/.test(text) ? "integrated" : "discrete";
+    if (/qualcomm|adreno|arm|mali|powervr|imagination/.test(text)) return "integrated";
+    return "unknown";
+}
+
+// deviceMemory reports 8 for anything with 8GB or more
+function ramIsCapped(): boolean {
+    const reported = (navigator as any).deviceMemory;
+    return reported === undefined || reported >= DEFAULT_DEVICE_MEMORY_GB;
+}
+
+function estimateVramMB(gpuClass: GpuClass, maxBufferSize: number): number {
+    const ramMB = ((navigator as any).deviceMemory ?? DEFAULT_DEVICE_MEMORY_GB) * 1024;
+    const byClass = {
+        discrete: DISCRETE_VRAM_MB,
+        unified: ramMB * UNIFIED_SHARE,
+        integrated: ramMB * INTEGRATED_SHARE,
+        software: SOFTWARE_VRAM_MB,
+        unknown: UNKNOWN_VRAM_MB,
+    }[gpuClass];
+    // an adapter that allows an N-byte buffer has at least N bytes to put it in
+    return Math.round(Math.max(byClass, maxBufferSize / MB));
+}
+
+export async function probeAdapter(adapter: any): Promise<GpuProfile> {
+    // adapter.info is current; requestAdapterInfo() is what Chrome < 127 shipped
+    const info = adapter.info ?? (await adapter.requestAdapterInfo?.().catch(() => null)) ?? {};
+    const vendor = info.vendor || "";
+    const architecture = info.architecture || "";
+    const description = info.description || info.device || "";
+    const gpuClass = classify(vendor, architecture, description, !!(info.isFallbackAdapter ?? adapter.isFallbackAdapter));
+    const maxBufferSize = Number(adapter.limits?.maxBufferSize) || 0;
+
+    return {
+        vendor,
+        architecture,
+        description,
+        gpuClass,
+        shaderF16: !!adapter.features?.has("shader-f16"),
+        maxBufferSize,
+        maxStorageBufferBindingSize: Number(adapter.limits?.maxStorageBufferBindingSize) || 0,
+        estimatedVramMB: estimateVramMB(gpuClass, maxBufferSize),
+        // shared-memory GPUs are sized from RAM; a 64GB Mac reads the same as an 8GB one
+        estimateIsFloor: (gpuClass === "unified" || gpuClass === "integrated") && ramIsCapped(),
+    };
+}
+
+export function assessFit(record: ModelRecord | undefined, gpu: GpuProfile): FitAssessment {
+    if (!record) return { fit: "risky", reason: "no requirements known for this model" };
+
+    // hard requirements — the model cannot compile or bind its buffers without these
+    const missing = (record.required_features ?? []).filter(f => f !== "shader-f16" || !gpu.shaderF16);
+    if (missing.length > 0) return { fit: "wont-fit", reason: `GPU lacks ${missing.join(", ")}` };
+    if (record.buffer_size_required_bytes && gpu.maxStorageBufferBindingSize
+        && record.buffer_size_required_bytes > gpu.maxStorageBufferBindingSize) {
+        return { fit: "wont-fit", reason: `needs ${Math.round(record.buffer_size_required_bytes / MB)}MB storage buffers, GPU allows ${Math.round(gpu.maxStorageBufferBindingSize / MB)}MB` };
+    }
+
+    const need = record.vram_required_MB;
+    if (!need) return { fit: "risky", reason: "VRAM requirement unknown" };
+    const ratio = need / gpu.estimatedVramMB;
+    const summary = `needs ~${Math.round(need)}MB, ${gpu.gpuClass} GPU has ~${gpu.estimatedVramMB}MB`;
+    if (ratio < FITS_BELOW) return { fit: "fits", reason: summary };
+    if (ratio < RISKY_BELOW) return { fit: "risky", reason: summary };
+    if (gpu.estimateIsFloor) return { fit: "risky", reason: `may not fit: ${summary} or more (browsers cap reported RAM at ${DEFAULT_DEVICE_MEMORY_GB}GB)` };
+    return { fit: "wont-fit", reason: summary };
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import type { GenerationOptions } from "@/lib/useWebLLM";
+
+// ─── Inference providers ────────────────────────────────────────────
+// useWebLLM.generate() streams tokens from whichever provider is active.
+// "webllm" runs MLC in the browser on WebGPU; "openai" talks to any server
+// exposing the OpenAI chat API — llama.cpp's llama-server, Ollama, LM Studio,
+// vLLM. Agents, RAG and personas only ever see generate(), so they don't
+// care which one is answering.
+
+export type ProviderKind = "webllm" | "openai";
+
+// What a conversation remembers about where its answers came from
+export interface ProviderSelection {
+    kind: ProviderKind;
+    baseUrl?: string;
+    model?: string;
+}
+
+// Native function calling (OpenAI "tools"). Parameters are a JSON schema.
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+}
+
+export interface ProviderMessage {
+    role: string;
+    content: string;
+    tool_call_id?: string;
+    images?: string[];        // data: or http(s) URLs, user turns only
+}
+
+export interface InferenceProvider {
+    // Yields content deltas and returns any tool calls the model made
+    // (only when options.tools was honoured). Must stop promptly once `signal` aborts.
+    stream(messages: ProviderMessage[], options: GenerationOptions, signal: AbortSignal): AsyncGenerator<string, ToolCall[] | void>;
+}
+
+// OpenAI wire format: a turn with images becomes content parts — one text
+// part, then the images (WebLLM rejects more than one text part)
+export function withImageParts(messages: ProviderMessage[]) {
+    return messages.map(({ images, ...m }) => images && images.length > 0
+        ? { ...m, content: [{ type: "text", text: m.content }, ...images.map(url => ({ type: "image_url", image_url: { url } }))] }
+        : m);
+}
+
+export interface RemoteConfig {
+    baseUrl: string;
+    apiKey: string;
+    model: string | null;
+    structuredOutput: boolean;    // server honours response_format json_schema
+}
+
+export const DEFAULT_REMOTE_CONFIG: RemoteConfig = {
+    baseUrl: "http://localhost:8080",
+    apiKey: "",
+    model: null,
+    structuredOutput: true,
+};
+
+// Servers disagree on whether the base URL includes /v1 — accept both
+export function normalizeBaseUrl(url: string): string {
+    return url.trim().replace(/\/+$/, "").replace(/\/v1$/, "");
+}
+
+function headersFor(config: Pick<RemoteConfig, "apiKey">): HeadersInit {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+    return headers;
+}
+
+async function request(config: Pick<RemoteConfig, "baseUrl" | "apiKey">, path: string, init: RequestInit = {}): Promise<Response> {
+    const base = normalizeBaseUrl(config.baseUrl);
+    let res: Response;
+    try {
+        res = await fetch(`${base}/v1${path}`, { ...init, headers: headersFor(config) });
+    } catch (e: any) {
+        if (e.name === "AbortError") throw e;
+        // fetch() gives no detail for CORS rejections — they look like network errors
+        throw new Error(`Could not reach ${base}. Is the server running and allowing requests from this origin (CORS)?`);
+    }
+    if (!res.ok) {
+        const detail = await res.text().catch(() => "");
+        throw new Error(`${base} returned ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+    }
+    return res;
+}
+
+export async function listRemoteModels(config: Pick<RemoteConfig, "baseUrl" | "apiKey">): Promise<string[]> {
+    const res = await request(config, "/models");
+    const data = await res.json();
+    return ((data.data || []) as { id: string }[]).map(m => m.id).sort();
+}
+
+export function createOpenAICompatibleProvider(config: RemoteConfig): InferenceProvider {
+    return {
+        async *stream(messages, options, signal) {
+            if (!config.model) throw new Error("No model selected on the local server");
+
+            // tools are only sent to models flagged toolCalling, which are all WebLLM ones
+            const { stop, json_schema, tools: _tools, ...sampling } = options;
+            const res = await request(config, "/chat/completions", {
+                method: "POST",
+                signal,
+                body: JSON.stringify({
+                    model: config.model,
+                    messages: withImageParts(messages),
+                    stream: true,
+                    ...sampling,
+                    stop: stop && stop.length > 0 ? stop : undefined,
+                    response_format: json_schema
+                        ? { type: "json_schema", json_schema: { name: "response", schema: JSON.parse(json_schema), strict: true } }
+                        : undefined,
+                }),
+            });
+            if (!res.body) throw new Error("Server did not return a stream");
+
+            // Server-sent events: "data: {json}\n\n", terminated by "data: [DONE]"
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = "";
+            try {
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffer += decoder.decode(value, { stream: true });
+
+                    const lines = buffer.split("\n");
+                    buffer = lines.pop() || "";
+                    for (const line of lines) {
+                        const trimmed = line.trim();
+                        if (!trimmed.startsWith("data:")) continue;
+                        const payload = trimmed.slice(5).trim();
+                        if (payload === "[DONE]") return;
+
+                        let chunk: any;
+                        try {
+                            chunk = JSON.parse(payload);
+                        } catch {
+                            continue; // keep-alive or partial garbage
+                        }
+                        if (chunk.error) throw new Error(chunk.error.message || String(chunk.error));
+                        const token = chunk.choices?.[0]?.delta?.content;
+                        if (token) yield token;
+                    }
+                }
+            } finally {
+                reader.cancel().catch(() => { });
+            }
+        },
+    };
+}
@@ -44,11 +44,16 @@ async function getCachedVectors(fileId: string): Promise<{ serializedVoy: string
     } catch { return null; }
 }
 
+// resolves once committed, so other tabs told about the file can read it back
 async function saveVectorsToCache(fileId: string, serializedVoy: string, chunks: [string, string][]) {
     try {
         const db = await openDB();
-        const tx = db.transaction(STORE_NAME, "readwrite");
-        tx.objectStore(STORE_NAME).put({ id: fileId, data: { serializedVoy, chunks } });
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, "readwrite");
+            tx.objectStore(STORE_NAME).put({ id: fileId, data: { serializedVoy, chunks } });
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
     } catch (e) { console.warn("Caching failed", e); }
 }
 
@@ -77,9 +82,22 @@ async function loadDeps() {
     }
 }
 
+// Load a file's index and chunks from the cache; the chunk count, or null if it isn't cached
+async function restoreCached(fileHash: string): Promise<number | null> {
+    const cached = await getCachedVectors(fileHash);
+    if (!cached) return null;
+    if (!voy) voy = VoyClass.deserialize(cached.serializedVoy);
+    // Additive merge — don't overwrite chunks from previously loaded files
+    for (const [k, v] of cached.chunks) {
+        chunkStore.set(k, v);
+    }
+    return cached.chunks.length;
+}
+
 // ── Text extraction ──
 
-async function extractText(file: File): Promise<string> {
+// `pageStarts` (PDFs only) holds the offset in `text` where each page begins
+async function extractText(file: File): Promise<{ text: string; pageStarts?: number[] }> {
     const name = file.name.toLowerCase();
 
     // PDF
@@ -88,25 +106,27 @@ async function extractText(file: File): Promise<string> {
         const arrayBuffer = await file.arrayBuffer();
         const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
         let text = "";
+        const pageStarts: number[] = [];
         for (let i = 1; i <= pdf.numPages; i++) {
             const page = await pdf.getPage(i);
             const content = await page.getTextContent();
+            pageStarts.push(text.length);
             text += content.items.map((item: any) => item.str).join(" ") + "\n";
         }
-        return text;
+        return { text, pageStarts };
     }
 
     // DOCX (ZIP XML extraction)
     if (name.endsWith(".docx")) {
         // Can't parse DOCX natively without JSZip — return helpful message
-        return `[This is a .docx file: "${file.name}". DOCX parsing requires JSZip which is not loaded. Please convert to PDF or TXT for full text extraction.]`;
+        return { text: `[This is a .docx file: "${file.name}". DOCX parsing requires JSZip which is not loaded. Please convert to PDF or TXT for full text extraction.]` };
     }
 
     // CSV
     if (name.endsWith(".csv")) {
         const text = await file.text();
         const lines = text.split("\n").filter(l => l.trim());
-        if (lines.length === 0) return text;
+        if (lines.length === 0) return { text };
 
         const headers = lines[0].split(",").map(h => h.trim().replace(/"/g, ""));
         const rows = lines.slice(1, 51); // Cap at 50 rows for context
@@ -116,23 +136,24 @@ async function extractText(file: File): Promise<string> {
             const cells = row.split(",").map(c => c.trim().replace(/"/g, ""));
             formatted += headers.map((h, i) => `${h}: ${cells[i] || ""}`).join(" | ") + "\n";
         }
-        return formatted;
+        return { text: formatted };
     }
 
     // HTML (strip tags)
     if (name.endsWith(".html") || name.endsWith(".htm")) {
         const html = await file.text();
-        return html
+        const text = html
             .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
             .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
             .replace(/<[^>]+>/g, " ")
             .replace(/&[a-z]+;/gi, " ")
             .replace(/\s+/g, " ")
             .trim();
+        return { text };
     }
 
     // Fallback: TXT, MD, JSON
-    return await file.text();
+    return { text: await file.text() };
 }
 
 // ── Semantic Chunking ──
@@ -192,6 +213,27 @@ function chunkText(text: string): string[] {
     return finalChunks;
 }
 
+// Page each chunk starts on, found by locating its opening in the extracted
+// text (chunks are in order, but trimmed and overlapping)
+function chunkPages(text: string, chunks: string[], pageStarts: number[]): (number | undefined)[] {
+    let cursor = 0;
+    let page: number | undefined;
+    return chunks.map(chunk => {
+        const at = text.indexOf(chunk.slice(0, 80), Math.max(0, cursor - 400));
+        if (at !== -1) {
+            cursor = at;
+            page = pageStarts.filter(start => start <= at).length || undefined;
+        }
+        return page;
+    });
+}
+
+// The page rides in the index entry's url as a PDF fragment, "#page=3"
+const pageFromUrl = (url?: string) => {
+    const m = url?.match(/#page=(\d+)/);
+    return m ? parseInt(m[1], 10) : undefined;
+};
+
 // ── Message Handler ──
 
 self.addEventListener("message", async (e: MessageEvent) => {
@@ -204,7 +246,7 @@ self.addEventListener("message", async (e: MessageEvent) => {
             self.postMessage({ id, status: `Reading ${file.name}...` });
             await loadDeps();
 
-            const text = await extractText(file);
+            const { text, pageStarts } = await extractText(file);
             if (!text.trim()) throw new Error("No text found in file");
 
             const docMetadata = {
@@ -214,6 +256,7 @@ self.addEventListener("message", async (e: MessageEvent) => {
                 type: file.type || file.name.split(".").pop() || "unknown",
                 chunks: 0,
                 rawText: text,
+                cacheKey: undefined as string | undefined,
             };
 
             // Small file: skip vector indexing
@@ -224,19 +267,13 @@ self.addEventListener("message", async (e: MessageEvent) => {
             }
 
             const fileHash = `${file.name}_${file.size}_${file.lastModified}`;
+            docMetadata.cacheKey = fileHash;
 
             // Check Cache First
-            const cached = await getCachedVectors(fileHash);
-            if (cached) {
-                self.postMessage({ id, status: `Loading cached vectors for ${file.name}...` });
-
-                if (!voy) voy = VoyClass.deserialize(cached.serializedVoy);
-                // Additive merge — don't overwrite chunks from previously loaded files
-                for (const [k, v] of cached.chunks) {
-                    chunkStore.set(k, v);
-                }
-
-                docMetadata.chunks = cached.chunks.length;
+            self.postMessage({ id, status: `Checking cached vectors for ${file.name}...` });
+            const cachedChunks = await restoreCached(fileHash);
+            if (cachedChunks !== null) {
+                docMetadata.chunks = cachedChunks;
                 docMetadata.rawText = ""; // memory optimization
 
                 self.postMessage({ id, result: docMetadata, done: true });
@@ -246,6 +283,7 @@ self.addEventListener("message", async (e: MessageEvent) => {
             // Not in cache -> Large file: Chunk & Embed
             self.postMessage({ id, status: `Chunking ${file.name}...` });
             const chunks = chunkText(text);
+            const pages = pageStarts ? chunkPages(text, chunks, pageStarts) : [];
 
             self.postMessage({ id, status: `Loading Embedding Model...` });
 
@@ -266,7 +304,7 @@ self.addEventListener("message", async (e: MessageEvent) => {
                     embeddings: [{
                         id: `${fileHash}-${i}`,
                         title: file.name,
-                        url: "",
+                        url: pages[i] ? `#page=${pages[i]}` : "",
                         embeddings: embedding as any
                     }]
                 });
@@ -293,23 +331,42 @@ self.addEventListener("message", async (e: MessageEvent) => {
 
             self.postMessage({ id, result: docMetadata, done: true });
         }
+        else if (action === "LOAD_CACHED") {
+            // a file another tab indexed: its vectors are already in the shared cache
+            await loadDeps();
+            const restored = await restoreCached(payload.cacheKey);
+            self.postMessage({ id, result: restored !== null, done: true });
+        }
         else if (action === "SEARCH") {
-            const { query, limit = 3 } = payload;
+            const { query, limit = 3, titles } = payload;
 
-            if (!voy || !embedder) {
+            if (!voy) {
                 self.postMessage({ id, result: [], done: true });
                 return;
             }
+            // an index restored from cache arrives without the embedder that built it
+            if (!embedder) {
+                await loadDeps();
+                embedder = await pipelineFn("feature-extraction", RESOURCE_NAME);
+            }
 
             const output = await embedder(query, { pooling: "mean", normalize: true });
             const queryEmbedding = Array.from(output.data);
-            const results: any = voy.search(queryEmbedding as any, limit);
+            // over-fetch when restricted to some files, then filter by file name
+            const results: any = voy.search(queryEmbedding as any, titles ? limit * 4 : limit);
             const hits = results.hits || results.neighbors || results || [];
 
             // Ensure hits is an array before mapping
-            const cleanHits = Array.isArray(hits) ? hits : [];
-
-            const chunks = cleanHits.map((hit: any) => chunkStore.get(hit.id) || "");
+            const cleanHits = (Array.isArray(hits) ? hits : [])
+                .filter((hit: any) => !titles || titles.includes(hit.title))
+                .slice(0, limit);
+
+            const chunks = cleanHits.map((hit: any) => ({
+                id: hit.id,
+                file: hit.title,
+                page: pageFromUrl(hit.url),
+                text: chunkStore.get(hit.id) || "",
+            }));
             self.postMessage({ id, result: chunks, done: true });
         }
         else if (action === "CLEAR") {
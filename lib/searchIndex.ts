@@ -0,0 +1,271 @@
+"use client";
+
+// ─── Full-text search over stored conversations ─────────────────────
+// An in-memory inverted index (term → message → token positions) over every
+// message in n0x_chat, on every branch. useChatStore rebuilds it when the
+// conversations load and keeps it current from addMessage/updateMessage, so a
+// query never rescans message text. Positions make "quoted phrases" exact;
+// bare words also match as prefixes so results show up while typing.
+
+export interface IndexedMessage {
+    convId: string;
+    messageId: string;
+    parentId: string | null;
+    role: "user" | "assistant";
+    content: string;
+    timestamp: number;
+    personaId?: string;
+    modelId?: string | null;
+}
+
+export interface SearchFilters {
+    from?: number;              // timestamps, inclusive
+    to?: number;
+    personaId?: string;
+    modelId?: string;
+}
+
+// Snippet text with [start, end) ranges to highlight
+export interface SearchSnippet {
+    text: string;
+    highlights: [number, number][];
+}
+
+export interface SearchHit {
+    convId: string;
+    messageId: string;
+    role: "user" | "assistant";
+    timestamp: number;
+    score: number;
+    snippet: SearchSnippet;
+}
+
+interface Token {
+    term: string;
+    start: number;
+    end: number;
+}
+
+interface Entry {
+    doc: IndexedMessage;
+    tokens: Token[];
+}
+
+interface ParsedQuery {
+    words: string[];
+    phrases: string[][];
+}
+
+const SNIPPET_RADIUS = 80;
+const MIN_PREFIX = 2;
+const DEFAULT_LIMIT = 50;
+
+// letters and digits in any script; built at runtime because the compile target predates the u flag
+const TOKEN_RE = new RegExp("[\\p{L}\\p{N}_]+", "gu");
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    for (const m of Array.from(text.matchAll(TOKEN_RE))) {
+        tokens.push({ term: m[0].toLowerCase(), start: m.index!, end: m.index! + m[0].length });
+    }
+    return tokens;
+}
+
+// `regex "named groups"` → words [regex], phrases [[named, groups]]
+export function parseQuery(query: string): ParsedQuery {
+    const phrases: string[][] = [];
+    const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+        const terms = tokenize(phrase).map(t => t.term);
+        if (terms.length === 1) return ` ${terms[0]} `;
+        if (terms.length > 1) phrases.push(terms);
+        return " ";
+    });
+    return { words: tokenize(rest).map(t => t.term), phrases };
+}
+
+const keyOf = (convId: string, messageId: string) => `${convId}\u0000${messageId}`;
+
+export function createSearchIndex() {
+    const entries = new Map<string, Entry>();
+    // term → entry key → positions in entry.tokens
+    const postings = new Map<string, Map<string, number[]>>();
+
+    const unpost = (key: string, entry: Entry) => {
+        for (const { term } of entry.tokens) {
+            const list = postings.get(term);
+            if (!list) continue;
+            list.delete(key);
+            if (list.size === 0) postings.delete(term);
+        }
+    };
+
+    const remove = (convId: string, messageId: string) => {
+        const key = keyOf(convId, messageId);
+        const entry = entries.get(key);
+        if (!entry) return;
+        unpost(key, entry);
+        entries.delete(key);
+    };
+
+    // Add or replace one message
+    const upsert = (doc: IndexedMessage) => {
+        const key = keyOf(doc.convId, doc.messageId);
+        const previous = entries.get(key);
+        if (previous) unpost(key, previous);
+
+        const entry: Entry = { doc: { ...doc }, tokens: tokenize(doc.content) };
+        // a user message is filtered by whoever answered it
+        if (doc.role === "user" && previous) {
+            entry.doc.personaId ??= previous.doc.personaId;
+            entry.doc.modelId ??= previous.doc.modelId;
+        }
+        entries.set(key, entry);
+        entry.tokens.forEach(({ term }, i) => {
+            let list = postings.get(term);
+            if (!list) postings.set(term, list = new Map());
+            const positions = list.get(key);
+            if (positions) positions.push(i);
+            else list.set(key, [i]);
+        });
+
+        if (doc.role === "assistant" && doc.parentId) {
+            const parent = entries.get(keyOf(doc.convId, doc.parentId));
+            if (parent && parent.doc.role === "user") {
+                parent.doc.personaId ??= doc.personaId;
+                parent.doc.modelId ??= doc.modelId;
+            }
+        }
+    };
+
+    const removeConversation = (convId: string) => {
+        for (const [key, entry] of Array.from(entries)) {
+            if (entry.doc.convId === convId) {
+                unpost(key, entry);
+                entries.delete(key);
+            }
+        }
+    };
+
+    const clear = () => {
+        entries.clear();
+        postings.clear();
+    };
+
+    // Entry key → positions of every term matching `word` (exactly, or as a prefix)
+    const matchWord = (word: string): Map<string, number[]> => {
+        const exact = postings.get(word);
+        if (word.length < MIN_PREFIX) return exact ?? new Map();
+        const merged = new Map<string, number[]>();
+        for (const [term, list] of Array.from(postings)) {
+            if (!term.startsWith(word)) continue;
+            for (const [key, positions] of Array.from(list)) {
+                merged.set(key, [...(merged.get(key) ?? []), ...positions]);
+            }
+        }
+        return merged;
+    };
+
+    // Start positions of `phrase` in each entry containing it
+    const matchPhrase = (phrase: string[]): Map<string, number[]> => {
+        const lists = phrase.map(term => postings.get(term));
+        const result = new Map<string, number[]>();
+        if (lists.some(l => !l)) return result;
+        const [first, ...others] = lists as Map<string, number[]>[];
+        for (const [key, starts] of Array.from(first)) {
+            const hits = starts.filter(start => others.every((list, i) => list.get(key)?.includes(start + i + 1)));
+            if (hits.length > 0) {
+                // mark every token of the phrase for highlighting
+                result.set(key, hits.flatMap(start => phrase.map((_, i) => start + i)));
+            }
+        }
+        return result;
+    };
+
+    const passes = (doc: IndexedMessage, filters: SearchFilters) =>
+        (filters.from === undefined || doc.timestamp >= filters.from)
+        && (filters.to === undefined || doc.timestamp <= filters.to)
+        && (!filters.personaId || doc.personaId === filters.personaId)
+        && (!filters.modelId || doc.modelId === filters.modelId);
+
+    const snippetOf = (entry: Entry, positions: number[]): SearchSnippet => {
+        const { content } = entry.doc;
+        const sorted = Array.from(new Set(positions)).sort((a, b) => a - b);
+        const anchor = entry.tokens[sorted[0]];
+        let start = Math.max(0, anchor.start - SNIPPET_RADIUS);
+        let end = Math.min(content.length, anchor.end + SNIPPET_RADIUS);
+        // don't cut words in half
+        if (start > 0) {
+            const space = content.indexOf(" ", start);
+            if (space !== -1 && space < anchor.start) start = space + 1;
+        }
+        if (end < content.length) {
+            const space = content.lastIndexOf(" ", end);
+            if (space > anchor.end) end = space;
+        }
+
+        const prefix = start > 0 ? "…" : "";
+        const text = prefix + content.slice(start, end).replace(/\s+/g, " ") + (end < content.length ? "…" : "");
+        // whitespace collapsing shifts offsets, so locate highlights in the final text
+        const highlights: [number, number][] = [];
+        let from = 0;
+        for (const p of sorted) {
+            const token = entry.tokens[p];
+            if (token.start < start || token.end > end) continue;
+            const word = content.slice(token.start, token.end);
+            const at = text.indexOf(word, from);
+            if (at === -1) continue;
+            highlights.push([at, at + word.length]);
+            from = at + word.length;
+        }
+        return { text, highlights };
+    };
+
+    const search = (query: string, filters: SearchFilters = {}, limit = DEFAULT_LIMIT): SearchHit[] => {
+        const { words, phrases } = parseQuery(query);
+        if (words.length === 0 && phrases.length === 0) return [];
+
+        // every word and phrase must match (AND); idf weights rare terms higher
+        const clauses = [...words.map(matchWord), ...phrases.map(matchPhrase)];
+        const [smallest] = [...clauses].sort((a, b) => a.size - b.size);
+        const total = entries.size || 1;
+
+        const hits: SearchHit[] = [];
+        for (const key of Array.from(smallest.keys())) {
+            if (!clauses.every(c => c.has(key))) continue;
+            const entry = entries.get(key)!;
+            if (!passes(entry.doc, filters)) continue;
+
+            let score = 0;
+            const positions: number[] = [];
+            for (const clause of clauses) {
+                const matched = clause.get(key)!;
+                score += (1 + Math.log(matched.length)) * Math.log(1 + total / clause.size);
+                positions.push(...matched);
+            }
+            hits.push({
+                convId: entry.doc.convId,
+                messageId: entry.doc.messageId,
+                role: entry.doc.role,
+                timestamp: entry.doc.timestamp,
+                score: score / Math.sqrt(1 + entry.tokens.length / 100),
+                snippet: snippetOf(entry, positions),
+            });
+        }
+        return hits.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp).slice(0, limit);
+    };
+
+    // Values present in the index, for the filter dropdowns
+    const facets = () => {
+        const personas = new Set<string>();
+        const models = new Set<string>();
+        for (const { doc } of Array.from(entries.values())) {
+            if (doc.personaId) personas.add(doc.personaId);
+            if (doc.modelId) models.add(doc.modelId);
+        }
+        return { personas: Array.from(personas), models: Array.from(models) };
+    };
+
+    return { upsert, remove, removeConversation, clear, search, facets, size: () => entries.size };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
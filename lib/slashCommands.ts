@@ -0,0 +1,234 @@
+"use client";
+
+import type { ExportFormat } from "@/lib/chatExport";
+
+// ─── Slash commands ─────────────────────────────────────────────────
+// `/name args` at the start of a message runs a command instead of sending it.
+// Each command declares its arguments (with completions), help text and a
+// handler; useChat.handleSend dispatches, ChatInput autocompletes and
+// CommandMenu lists them. Anything that isn't a registered name is sent as an
+// ordinary message, so pasted paths like "/usr/bin" still reach the model.
+
+export type SlashTool = "search" | "memory" | "python" | "agent";
+
+// What handlers can see and do; built by useChat on every render
+export interface SlashContext {
+    documents: string[];
+    personas: { id: string; name: string }[];
+    models: { id: string; label: string }[];
+    memories: { id: string; content: string }[];
+    tools: Record<SlashTool, boolean>;
+    setTool: (tool: SlashTool, on: boolean) => void;
+    setKnowledge: (names: string[] | null) => void;
+    selectPersona: (id: string) => void;
+    loadModel: (id: string) => Promise<void>;
+    remember: (text: string) => Promise<unknown>;
+    forget: (id: string) => Promise<void>;
+    runPython: (code: string) => Promise<void>;
+    generateImage: (prompt: string) => Promise<void>;
+    exportChat: (format: ExportFormat) => boolean;
+    summarize: () => Promise<number>;       // messages now covered by the summary
+}
+
+export interface SlashArg {
+    name: string;
+    optional?: boolean;
+    complete?: (ctx: SlashContext) => string[];
+}
+
+// A handler either finishes on its own (optionally leaving a notice under the
+// input) or hands a message back to be sent with one-off overrides
+export interface SlashOutcome {
+    notice?: string;
+    send?: string;
+    search?: boolean;           // web search for this message only
+    knowledge?: string[];       // knowledge scope for this message
+}
+
+export interface SlashCommand {
+    name: string;
+    args: SlashArg[];
+    help: string;
+    run: (arg: string, ctx: SlashContext) => Promise<SlashOutcome | void> | SlashOutcome | void;
+}
+
+export interface SlashSuggestion {
+    value: string;      // input text after accepting
+    label: string;
+    help: string;
+}
+
+const TOOL_LABELS: Record<SlashTool, string> = { search: "web search", memory: "memory", python: "python", agent: "agent mode" };
+
+function toggle(ctx: SlashContext, tool: SlashTool, value?: string): SlashOutcome {
+    const on = value === "on" ? true : value === "off" ? false : !ctx.tools[tool];
+    ctx.setTool(tool, on);
+    return { notice: `${TOOL_LABELS[tool]} ${on ? "on" : "off"}` };
+}
+
+// Case-insensitive lookup by exact value, then by prefix
+function pick<T>(items: T[], keys: (item: T) => string[], query: string): T | undefined {
+    const q = query.toLowerCase();
+    return items.find(i => keys(i).some(k => k.toLowerCase() === q))
+        ?? items.find(i => keys(i).some(k => k.toLowerCase().startsWith(q)));
+}
+
+const stripFence = (code: string) => code.replace(/^```(?:python|py)?\s*\n?/i, "").replace(/\n?```\s*$/, "");
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+    {
+        name: "image",
+        args: [{ name: "prompt" }],
+        help: "generate an image",
+        run: async (arg, ctx) => {
+            if (!arg) return { notice: "usage: /image <prompt>" };
+            await ctx.generateImage(arg);
+        },
+    },
+    {
+        name: "search",
+        args: [{ name: "query", optional: true }],
+        help: "answer with a web search; alone, toggles web search",
+        run: (arg, ctx) => arg ? { send: arg, search: true } : toggle(ctx, "search"),
+    },
+    {
+        name: "py",
+        args: [{ name: "code", optional: true }],
+        help: "run Python in the browser; alone, toggles the Python tool",
+        run: async (arg, ctx) => {
+            if (!arg) return toggle(ctx, "python");
+            await ctx.runPython(stripFence(arg));
+        },
+    },
+    {
+        name: "remember",
+        args: [{ name: "fact" }],
+        help: "save a fact to long-term memory",
+        run: async (arg, ctx) => {
+            if (!arg) return { notice: "usage: /remember <fact>" };
+            await ctx.remember(arg);
+            return { notice: `remembered — "${arg}"` };
+        },
+    },
+    {
+        name: "forget",
+        args: [{ name: "text", complete: ctx => ctx.memories.map(m => m.content) }],
+        help: "delete memories containing this text",
+        run: async (arg, ctx) => {
+            if (!arg) return { notice: "usage: /forget <text>" };
+            const matches = ctx.memories.filter(m => m.content.toLowerCase().includes(arg.toLowerCase()));
+            if (matches.length === 0) return { notice: `no memory mentions "${arg}"` };
+            for (const m of matches) await ctx.forget(m.id);
+            return { notice: `forgot ${matches.length} memor${matches.length === 1 ? "y" : "ies"}` };
+        },
+    },
+    {
+        name: "doc",
+        args: [{ name: "file", complete: ctx => ["all", ...ctx.documents] }, { name: "question", optional: true }],
+        help: "limit this chat's knowledge to one file (or all), then ask about it",
+        run: (arg, ctx) => {
+            if (!arg) return { notice: "usage: /doc <file> [question]" };
+            if (arg.toLowerCase() === "all") {
+                ctx.setKnowledge(null);
+                return { notice: "knowledge: every loaded file" };
+            }
+            // file names can contain spaces: take the longest one the argument starts with
+            const name = ctx.documents
+                .filter(d => arg.toLowerCase().startsWith(d.toLowerCase()))
+                .sort((a, b) => b.length - a.length)[0];
+            if (!name) {
+                return { notice: ctx.documents.length ? `no file "${arg}" — loaded: ${ctx.documents.join(", ")}` : "no files in the knowledge base" };
+            }
+            ctx.setKnowledge([name]);
+            const question = arg.slice(name.length).trim();
+            return question ? { send: question, knowledge: [name] } : { notice: `knowledge: ${name}` };
+        },
+    },
+    {
+        name: "model",
+        args: [{ name: "id", complete: ctx => ctx.models.map(m => m.id) }],
+        help: "load a model by id or name",
+        run: async (arg, ctx) => {
+            if (!arg) return { notice: "usage: /model <id>" };
+            const model = pick(ctx.models, m => [m.id, m.label], arg);
+            if (!model) return { notice: `unknown model "${arg}"` };
+            await ctx.loadModel(model.id);
+            return { notice: `model: ${model.label}` };
+        },
+    },
+    {
+        name: "persona",
+        args: [{ name: "name", complete: ctx => ctx.personas.map(p => p.name) }],
+        help: "switch persona",
+        run: (arg, ctx) => {
+            if (!arg) return { notice: `personas: ${ctx.personas.map(p => p.name).join(", ")}` };
+            const persona = pick(ctx.personas, p => [p.name, p.id], arg);
+            if (!persona) return { notice: `unknown persona "${arg}"` };
+            ctx.selectPersona(persona.id);
+            return { notice: `persona: ${persona.name}` };
+        },
+    },
+    {
+        name: "agent",
+        args: [{ name: "on|off", optional: true, complete: () => ["on", "off"] }],
+        help: "toggle agent mode",
+        run: (arg, ctx) => toggle(ctx, "agent", arg.toLowerCase()),
+    },
+    {
+        name: "export",
+        args: [{ name: "md|json|html", optional: true, complete: () => ["md", "json", "html"] }],
+        help: "download this chat (Markdown by default)",
+        run: (arg, ctx) => {
+            const format = (arg.toLowerCase() || "md") as ExportFormat;
+            if (!["md", "json", "html"].includes(format)) return { notice: "usage: /export [md|json|html]" };
+            return ctx.exportChat(format) ? { notice: `exported as .${format}` } : { notice: "nothing to export yet" };
+        },
+    },
+    {
+        name: "summarize",
+        args: [],
+        help: "fold the chat so far into its running summary now",
+        run: async (_, ctx) => {
+            const count = await ctx.summarize();
+            return { notice: count > 0 ? `${count} messages summarized` : "nothing new to summarize" };
+        },
+    },
+];
+
+export function slashUsage(command: SlashCommand): string {
+    return [`/${command.name}`, ...command.args.map(a => a.optional ? `[${a.name}]` : `<${a.name}>`)].join(" ");
+}
+
+export function parseSlash(text: string): { command: SlashCommand; arg: string } | null {
+    const match = text.match(/^\/([a-z]+)(?:\s+([\s\S]*))?$/i);
+    if (!match) return null;
+    const command = SLASH_COMMANDS.find(c => c.name === match[1].toLowerCase());
+    return command ? { command, arg: (match[2] ?? "").trim() } : null;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Completions for what's typed so far: command names, then the first argument
+export function suggestSlash(input: string, ctx: SlashContext): SlashSuggestion[] {
+    if (!input.startsWith("/") || input.includes("\n")) return [];
+
+    const nameOnly = input.match(/^\/([a-z]*)$/i);
+    if (nameOnly) {
+        const typed = nameOnly[1].toLowerCase();
+        return SLASH_COMMANDS
+            .filter(c => c.name.startsWith(typed) && c.name !== typed)
+            .map(c => ({ value: `/${c.name}${c.args.length ? " " : ""}`, label: slashUsage(c), help: c.help }));
+    }
+
+    const withArg = input.match(/^\/([a-z]+)\s+(.*)$/i);
+    const command = withArg && SLASH_COMMANDS.find(c => c.name === withArg[1].toLowerCase());
+    const first = command?.args[0];
+    if (!command || !first?.complete) return [];
+
+    const typed = withArg![2].toLowerCase();
+    const more = command.args.length > 1 ? " " : "";
+    return first.complete(ctx)
+        .filter(option => option.toLowerCase().includes(typed) && option.toLowerCase() !== typed)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(option => ({ value: `/${command.name} ${option}${more}`, label: option, help: command.help }));
+}
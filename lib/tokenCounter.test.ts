@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { countMessageTokens, countTokens, getContextWindow, IMAGE_TOKENS, promptBudget, setTokenizer, truncateToTokens } from "@/lib/tokenCounter";
+
+// No tokenizer URL, so counts are the ~4 chars/token estimate
+beforeEach(async () => {
+    await setTokenizer(null, 8192);
+});
+
+describe("promptBudget", () => {
+    it("sets an eighth of the window aside for the reply by default", () => {
+        expect(getContextWindow()).toBe(8192);
+        expect(promptBudget()).toBe(8192 - 1024);
+    });
+
+    it("reserves only max_tokens when that's smaller", () => {
+        expect(promptBudget(256)).toBe(8192 - 256);
+    });
+
+    it("never reserves more than the default share", () => {
+        expect(promptBudget(100_000)).toBe(8192 - 1024);
+    });
+});
+
+describe("estimated counts", () => {
+    it("rounds characters up to whole tokens", () => {
+        expect(countTokens("")).toBe(0);
+        expect(countTokens("abcde")).toBe(2);
+    });
+
+    it("adds per-message overhead and a fixed block per image", () => {
+        const one = countMessageTokens([{ content: "abcd" }]);
+        expect(countMessageTokens([{ content: "abcd", images: ["data:image/png;base64,"] }])).toBe(one + IMAGE_TOKENS);
+    });
+
+    it("truncates to a prefix that fits", () => {
+        const text = "x".repeat(400);
+        const cut = truncateToTokens(text, 10);
+        expect(countTokens(cut)).toBeLessThanOrEqual(10);
+        expect(text.startsWith(cut)).toBe(true);
+        expect(truncateToTokens(text, 0)).toBe("");
+        expect(truncateToTokens("short", 10)).toBe("short");
+    });
+});
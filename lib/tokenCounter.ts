@@ -0,0 +1,95 @@
+"use client";
+
+// ─── Token accounting ───────────────────────────────────────────────
+// Counts tokens with the loaded model's own tokenizer so history trimming and
+// agent budgeting match what the engine will actually see. tokenizer.json comes
+// from the model's MLC weights repo — already in web-llm's cache once the model
+// has been downloaded. Until it's ready, or for local-server models whose
+// tokenizer we can't see, counts fall back to ~4 characters per token.
+
+export const DEFAULT_CONTEXT_TOKENS = 4096;
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;      // role header + separators added by chat templates
+const COMPLETION_RESERVE_FRACTION = 1 / 8;
+// Phi-3.5-vision embeds every image as a fixed 1921-token block
+export const IMAGE_TOKENS = 1921;
+const WEBLLM_CACHE = "webllm/model";
+
+let encode: ((text: string) => number) | null = null;
+let tokenizerUrl: string | null = null;
+let contextWindow = DEFAULT_CONTEXT_TOKENS;
+
+async function fetchJSON(url: string): Promise<any> {
+    // prefer web-llm's copy so an offline, already-downloaded model still counts exactly
+    if (typeof caches !== "undefined") {
+        const cached = await (await caches.open(WEBLLM_CACHE)).match(url);
+        if (cached) return cached.json();
+    }
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+    return res.json();
+}
+
+// Point the counter at a model. `baseUrl` is the weights directory holding
+// tokenizer.json (see modelBaseUrl), or null to estimate.
+export async function setTokenizer(baseUrl: string | null, windowTokens: number): Promise<void> {
+    contextWindow = windowTokens;
+    if (baseUrl === tokenizerUrl) return;
+    tokenizerUrl = baseUrl;
+    encode = null;
+    if (!baseUrl) return;
+
+    try {
+        const [json, config] = await Promise.all([
+            fetchJSON(new URL("tokenizer.json", baseUrl).href),
+            fetchJSON(new URL("tokenizer_config.json", baseUrl).href).catch(() => ({})),
+        ]);
+        // transformers.js is already a dependency (RAG embeddings); only its tokenizer is used here
+        const { PreTrainedTokenizer } = await import("@xenova/transformers");
+        if (tokenizerUrl !== baseUrl) return; // another model was selected meanwhile
+        const tokenizer = new PreTrainedTokenizer(json, config);
+        encode = (text) => tokenizer.encode(text, null, { add_special_tokens: false }).length;
+    } catch (e) {
+        console.warn("Tokenizer unavailable, estimating token counts:", e);
+    }
+}
+
+export function isExactCount(): boolean {
+    return encode !== null;
+}
+
+export function getContextWindow(): number {
+    return contextWindow;
+}
+
+export function countTokens(text: string): number {
+    if (!text) return 0;
+    return encode ? encode(text) : Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function countMessageTokens(messages: { content: string; images?: string[] }[]): number {
+    return messages.reduce((n, m) => n + countTokens(m.content) + (m.images?.length ?? 0) * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+// Tokens left for the prompt once room for the reply is set aside
+export function promptBudget(maxTokens?: number): number {
+    const reserve = Math.min(maxTokens ?? Infinity, Math.floor(contextWindow * COMPLETION_RESERVE_FRACTION));
+    return contextWindow - reserve;
+}
+
+// Longest prefix of `text` that fits in `maxTokens`
+export function truncateToTokens(text: string, maxTokens: number): string {
+    if (maxTokens <= 0) return "";
+    let total = countTokens(text);
+    if (total <= maxTokens) return text;
+
+    // scale by the observed chars/token ratio, then shave until it fits
+    let cut = Math.floor(text.length * (maxTokens / total));
+    while (cut > 0) {
+        total = countTokens(text.slice(0, cut));
+        if (total <= maxTokens) break;
+        cut = Math.floor(cut * Math.min(0.95, maxTokens / total));
+    }
+    return text.slice(0, cut);
+}
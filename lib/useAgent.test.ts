@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseStructuredTurn, parseTurn } from "@/lib/useAgent";
+
+describe("parseStructuredTurn", () => {
+    it("reads a schema-constrained tool call", () => {
+        expect(parseStructuredTurn('{"thought": " look it up ", "tool": "webSearch", "args": {"query": "webgpu"}}'))
+            .toEqual({ kind: "tool", thought: "look it up", tool: "webSearch", args: { query: "webgpu" } });
+    });
+
+    it("reads a final answer", () => {
+        expect(parseStructuredTurn('{"thought": "done", "final": " 42 "}'))
+            .toEqual({ kind: "final", thought: "done", content: "42" });
+    });
+
+    it("defaults missing args to an empty object", () => {
+        expect(parseStructuredTurn('{"tool": "listFiles"}')).toMatchObject({ kind: "tool", args: {} });
+    });
+
+    it("rejects text that isn't a turn object", () => {
+        expect(parseStructuredTurn("Sure! Here's the answer.")).toBeNull();
+        expect(parseStructuredTurn("null")).toBeNull();
+        expect(parseStructuredTurn('{"thought": "no tool, no final"}')).toBeNull();
+    });
+});
+
+describe("parseTurn", () => {
+    it("falls back to the lenient parser for a call buried in prose", () => {
+        const turn = parseTurn('I should search.\n{"tool": "webSearch", "args": {"query": "mlc"}}');
+        expect(turn).toEqual({ kind: "tool", thought: "I should search.", tool: "webSearch", args: { query: "mlc" } });
+    });
+
+    it("accepts single-quoted JSON inside a code fence", () => {
+        const turn = parseTurn("```json\n{'tool': 'calculate', 'args': {'expression': '2+2'}}\n```");
+        expect(turn).toMatchObject({ kind: "tool", tool: "calculate", args: { expression: "2+2" } });
+    });
+
+    it("treats anything without a tool call as the final answer", () => {
+        expect(parseTurn("The capital of France is Paris.")).toEqual({ kind: "final", thought: "", content: "The capital of France is Paris." });
+    });
+});
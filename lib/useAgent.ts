@@ -1,6 +1,9 @@
 "use client";
 
 import { create } from "zustand";
+import type { GenerationOptions, ToolTurn } from "@/lib/useWebLLM";
+import type { ToolCall, ToolDefinition } from "@/lib/inferenceProvider";
+import { countMessageTokens, promptBudget } from "@/lib/tokenCounter";
 
 // ─── ReAct Agent Loop v2 ──────────────────────────────────────────────
 // The first fully in-browser autonomous agent.
@@ -10,8 +13,10 @@ import { create } from "zustand";
 // Engineering:
 // • AbortController-based cancellation (stop button kills everything)
 // • Per-tool execution timeouts (no hung searches blocking forever)
-// • Context window budgeting (prevents OOM from growing msg context)
+// • Context window budgeting in real tokens (prevents OOM from growing msg context)
 // • Loop detection (catches LLM calling same tool 3x in a row)
+// • Native function calling on tool-capable models (Hermes)
+// • Grammar-constrained tool turns when the engine supports a JSON schema
 // • Multi-strategy JSON parsing (handles LLM format mistakes)
 // • Elapsed time tracking per step for profiling
 
@@ -41,11 +46,25 @@ interface AgentState {
     runLoop: (
         query: string,
         tools: AgentToolkit,
-        generate: (msgs: { role: string; content: string }[], onToken?: (t: string) => void) => Promise<string>,
+        generate: (msgs: { role: string; content: string }[], onToken?: (t: string) => void, options?: GenerationOptions) => Promise<string>,
         systemPrompt: string,
+        options?: GenerationOptions,
+        capabilities?: AgentCapabilities,
     ) => Promise<string>;
 }
 
+type AgentMessage = { role: string; content: string; tool_call_id?: string };
+
+const ANSWER_PROMPT = "Using what you found above, write your final answer to my question now. " +
+    "Reply in plain prose for the user — no JSON, no tool calls.";
+
+// What the active model/provider can do beyond plain text generation
+export interface AgentCapabilities {
+    structuredOutput?: boolean;   // honours GenerationOptions.json_schema
+    // present when the loaded model does native function calling
+    generateWithTools?: (msgs: AgentMessage[], tools: ToolDefinition[], options?: GenerationOptions) => Promise<ToolTurn>;
+}
+
 // ─── Tool types ─────────────────────────────────────────────────────
 
 export interface AgentToolkit {
@@ -56,47 +75,121 @@ export interface AgentToolkit {
     memoryRecall?: (query: string) => string;
 }
 
+type ToolName = keyof AgentToolkit;
+
+// Each tool takes a single string argument. Drives the prompt's tool reference
+// and the JSON schema for constrained tool turns.
+const TOOL_SPECS: Record<ToolName, { description: string; arg: string; example: string }> = {
+    webSearch: { description: "search the live web", arg: "query", example: "search terms" },
+    ragSearch: { description: "search user's uploaded documents", arg: "query", example: "search terms" },
+    python: { description: "execute Python code", arg: "code", example: "python code here" },
+    memorySave: { description: "persist information", arg: "content", example: "text to save" },
+    memoryRecall: { description: "recall saved info", arg: "query", example: "search terms" },
+};
+
+// How tool calls travel: the engine's function-calling API, free text
+// constrained to buildTurnSchema(), or free text parsed by parseToolCall()
+type TurnFormat = "native" | "schema" | "text";
+
+// Native calls are grammar-forced, so the model needs a tool to finish with
+const FINAL_ANSWER_TOOL = "final_answer";
+
+function buildToolDefinitions(availableTools: ToolName[]): ToolDefinition[] {
+    return [
+        ...availableTools.map(name => ({
+            name,
+            description: TOOL_SPECS[name].description,
+            parameters: {
+                type: "object",
+                properties: { [TOOL_SPECS[name].arg]: { type: "string", description: TOOL_SPECS[name].example } },
+                required: [TOOL_SPECS[name].arg],
+            },
+        })),
+        {
+            name: FINAL_ANSWER_TOOL,
+            description: "give the final answer to the user and stop",
+            parameters: {
+                type: "object",
+                properties: { answer: { type: "string", description: "complete answer in plain text or markdown" } },
+                required: ["answer"],
+            },
+        },
+    ];
+}
+
 // ─── Config ─────────────────────────────────────────────────────────
 
 const MAX_ITERATIONS = 8;
 const TOOL_TIMEOUT_MS = 30_000;       // 30s max per tool execution
 const MAX_LOOP_REPEATS = 3;           // same tool+args 3x = force stop
 
+// Tool-call turns need valid JSON, not creativity — sample near-greedy with a
+// fixed seed so the same query produces the same plan. Overrides the user's params
+// for those turns only: the answer itself is written with the user's settings.
+const TOOL_TURN_OPTIONS: GenerationOptions = {
+    temperature: 0.1,
+    top_p: 0.9,
+    seed: 42,
+    presence_penalty: 0,
+    frequency_penalty: 0,
+};
+
 // ─── System prompt for agent mode ────────────────────────────────────
 
-function buildAgentPrompt(base: string, availableTools: string[]): string {
+function buildAgentPrompt(base: string, availableTools: ToolName[], format: TurnFormat): string {
     const toolList = availableTools.length > 0
         ? availableTools.join(", ")
         : "none (answer from your own knowledge)";
 
+    const toolReference = (Object.keys(TOOL_SPECS) as ToolName[])
+        .map(name => `• ${name} — ${TOOL_SPECS[name].description}. Args: {"${TOOL_SPECS[name].arg}": "${TOOL_SPECS[name].example}"}`)
+        .join("\n");
+
+    const instructions = format === "native"
+        ? `Call tools through the function-calling interface. When you have enough information, call ${FINAL_ANSWER_TOOL} with your complete answer.`
+        : format === "schema"
+        ? `EVERY reply is exactly ONE JSON object. To use a tool:
+{"thought": "why you need it", "tool": "TOOL_NAME", "args": {"key": "value"}}
+To give your final answer:
+{"thought": "why you can answer now", "final": "your answer for the user"}`
+        : `TO USE A TOOL, you must output EXACTLY this JSON format on its own line:
+{"tool": "TOOL_NAME", "args": {"key": "value"}}`;
+
+    const examples = format === "native"
+        ? ""
+        : format === "schema"
+        ? `EXAMPLE 1 — User asks "what is the population of France?"
+{"thought": "I need to search for the current population of France.", "tool": "webSearch", "args": {"query": "population of France 2025"}}
+
+EXAMPLE 2 — User asks "calculate 17 * 23 + 5"
+{"thought": "Let me use Python to compute this accurately.", "tool": "python", "args": {"code": "result = 17 * 23 + 5\\nprint(result)"}}`
+        : `EXAMPLE 1 — User asks "what is the population of France?"
+I need to search for the current population of France.
+{"tool": "webSearch", "args": {"query": "population of France 2025"}}
+
+EXAMPLE 2 — User asks "calculate 17 * 23 + 5"
+Let me use Python to compute this accurately.
+{"tool": "python", "args": {"code": "result = 17 * 23 + 5\\nprint(result)"}}`;
+
     return `${base}
 
 You are an autonomous AI agent. You MUST solve problems step-by-step by using tools.
 
 AVAILABLE TOOLS: ${toolList}
 
-TO USE A TOOL, you must output EXACTLY this JSON format on its own line:
-{"tool": "TOOL_NAME", "args": {"key": "value"}}
+${instructions}
 
 Tool reference:
-• webSearch — search the live web. Args: {"query": "search terms"}
-• ragSearch — search user's uploaded documents. Args: {"query": "search terms"}
-• python — execute Python code. Args: {"code": "python code here"}
-• memorySave — persist information. Args: {"content": "text to save"}
-• memoryRecall — recall saved info. Args: {"query": "search terms"}
-
-EXAMPLE 1 — User asks "what is the population of France?"
-I need to search for the current population of France.
-{"tool": "webSearch", "args": {"query": "population of France 2025"}}
-
-EXAMPLE 2 — User asks "calculate 17 * 23 + 5"
-Let me use Python to compute this accurately.
-{"tool": "python", "args": {"code": "result = 17 * 23 + 5\\nprint(result)"}}
-
+${toolReference}
+${examples ? `\n${examples}\n` : ""}
 CRITICAL RULES:
 1. You MUST think first, then call exactly ONE tool per turn
 2. After receiving a tool result, either call another tool OR give your FINAL answer
-3. Your FINAL answer must contain NO JSON tool calls — just plain text
+3. ${{
+        native: `Deliver your FINAL answer by calling ${FINAL_ANSWER_TOOL} — never as a plain reply`,
+        schema: `Your FINAL answer goes in the "final" field as plain text — no tool calls inside it`,
+        text: "Your FINAL answer must contain NO JSON tool calls — just plain text",
+    }[format]}
 4. Do NOT skip tools — if a tool is available and relevant, USE IT
 5. If a tool errors, try a different approach — do NOT retry the same call
 6. For math or calculations, ALWAYS use the python tool
@@ -104,6 +197,40 @@ CRITICAL RULES:
 8. CRITICAL: Python runs in a Pyodide WASM sandbox. Traditional sockets (\`requests\`, \`urllib\`) are disabled. To make HTTP requests in python, you MUST use \`import pyodide.http\` and \`await pyodide.http.pyfetch(url)\` instead.`;
 }
 
+// ─── Turn schema (constrained decoding) ─────────────────────────────
+// One branch per available tool with its argument pinned, plus a final-answer
+// branch. With the engine decoding against this, a tool turn can't be
+// malformed JSON or name a tool that isn't there.
+
+function buildTurnSchema(availableTools: ToolName[]): object {
+    const thought = { type: "string" };
+    return {
+        anyOf: [
+            ...availableTools.map(name => ({
+                type: "object",
+                properties: {
+                    thought,
+                    tool: { type: "string", enum: [name] },
+                    args: {
+                        type: "object",
+                        properties: { [TOOL_SPECS[name].arg]: { type: "string" } },
+                        required: [TOOL_SPECS[name].arg],
+                        additionalProperties: false,
+                    },
+                },
+                required: ["thought", "tool", "args"],
+                additionalProperties: false,
+            })),
+            {
+                type: "object",
+                properties: { thought, final: { type: "string" } },
+                required: ["thought", "final"],
+                additionalProperties: false,
+            },
+        ],
+    };
+}
+
 // ─── JSON Parser (multi-strategy) ───────────────────────────────────
 // Small LLMs produce messy JSON. We handle:
 // 1. Perfect JSON on its own line
@@ -116,6 +243,40 @@ interface ParsedToolCall {
     thought: string;
     tool: string;
     args: Record<string, any>;
+    id?: string;             // native calls: answered by a "tool" message with this id
+}
+
+type ParsedTurn =
+    | ({ kind: "tool" } & ParsedToolCall)
+    | { kind: "final"; thought: string; content: string };
+
+// Output decoded against buildTurnSchema() — a single JSON object
+export function parseStructuredTurn(text: string): ParsedTurn | null {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (!parsed || typeof parsed !== "object") return null;
+    const thought = typeof parsed.thought === "string" ? parsed.thought.trim() : "";
+    if (typeof parsed.tool === "string") {
+        return { kind: "tool", thought, tool: parsed.tool, args: parsed.args || {} };
+    }
+    if (typeof parsed.final === "string") {
+        return { kind: "final", thought, content: parsed.final.trim() };
+    }
+    return null;
+}
+
+// Structured first; the regex parser covers unconstrained output (and models
+// that ignore the schema). Anything without a tool call is the final answer.
+export function parseTurn(text: string): ParsedTurn {
+    const structured = parseStructuredTurn(text);
+    if (structured) return structured;
+    const toolCall = parseToolCall(text);
+    if (toolCall) return { kind: "tool", ...toolCall };
+    return { kind: "final", thought: "", content: text };
 }
 
 function parseToolCall(text: string): ParsedToolCall | null {
@@ -259,11 +420,8 @@ async function executeTool(
 // If we shove all observations in verbatim, we OOM the window.
 // Strategy: summarize old observations, keep recent ones full.
 
-function budgetContext(msgs: { role: string; content: string }[], maxContextChars: number): { role: string; content: string }[] {
-    let totalChars = 0;
-    for (const m of msgs) totalChars += m.content.length;
-
-    if (totalChars <= maxContextChars) return msgs;
+function budgetContext(msgs: AgentMessage[], maxContextTokens: number): AgentMessage[] {
+    if (countMessageTokens(msgs) <= maxContextTokens) return msgs;
 
     // Keep system prompt and original user query intact
     const result = [msgs[0], msgs[1]]; // system + user
@@ -332,7 +490,7 @@ export const useAgent = create<AgentState>((set, get) => ({
         set({ status: "done" });
     },
 
-    runLoop: async (query, tools, generate, systemPrompt) => {
+    runLoop: async (query, tools, generate, systemPrompt, options, capabilities = {}) => {
         // Cancel any existing run
         if (activeAbort) activeAbort.abort();
         activeAbort = new AbortController();
@@ -342,16 +500,22 @@ export const useAgent = create<AgentState>((set, get) => ({
         set({ steps: [], status: "thinking", currentIteration: 0, elapsedMs: 0 });
 
         // Build available tool list (only show tools that actually exist)
-        const availableTools: string[] = [];
+        const availableTools: ToolName[] = [];
         if (tools.webSearch) availableTools.push("webSearch");
         if (tools.ragSearch) availableTools.push("ragSearch");
         if (tools.python) availableTools.push("python");
         if (tools.memorySave) availableTools.push("memorySave");
         if (tools.memoryRecall) availableTools.push("memoryRecall");
 
-        const agentPrompt = buildAgentPrompt(systemPrompt, availableTools);
+        // Strongest format the model supports. Without tools there's nothing to
+        // choose between — leave decoding free.
+        const fallbackFormat: TurnFormat = capabilities.structuredOutput && availableTools.length > 0 ? "schema" : "text";
+        let format: TurnFormat = capabilities.generateWithTools && availableTools.length > 0 ? "native" : fallbackFormat;
+        const turnSchema = JSON.stringify(buildTurnSchema(availableTools));
+        const toolDefinitions = buildToolDefinitions(availableTools);
+        const agentPrompt = buildAgentPrompt(systemPrompt, availableTools, format);
 
-        const msgs: { role: string; content: string }[] = [
+        const msgs: AgentMessage[] = [
             { role: "system", content: agentPrompt },
             { role: "user", content: query },
         ];
@@ -374,22 +538,69 @@ export const useAgent = create<AgentState>((set, get) => ({
             set({ elapsedMs: Math.round(performance.now() - loopStart) });
         };
 
+        // With tools on offer every turn might be a tool call, so turns are
+        // sampled pinned. Once the model decides it's done, the answer is written
+        // again with the caller's settings, from the same history under the
+        // plain system prompt; the pinned draft stands in if that call fails.
+        const pinned = availableTools.length > 0;
+        const turnOptions = pinned ? { ...options, ...TOOL_TURN_OPTIONS } : options;
+        const writeAnswer = async (draft: string): Promise<string> => {
+            if (!pinned) return draft;
+            const history: AgentMessage[] = [
+                { role: "system", content: systemPrompt },
+                ...msgs.slice(1).map(m => m.role === "tool" ? { role: "user", content: m.content } : m),
+                { role: "user", content: ANSWER_PROMPT },
+            ];
+            try {
+                const answer = (await generate(budgetContext(history, promptBudget(options?.max_tokens)), undefined, options))
+                    .replace(/<think>[\s\S]*?<\/think>/g, "")
+                    .trim();
+                return answer || draft;
+            } catch (e) {
+                if (!signal.aborted) console.warn("Agent answer generation failed, keeping the draft:", e);
+                return draft;
+            }
+        };
+
+        // Step down to the next format for the rest of the run
+        const downgrade = (reason: string) => {
+            const next: TurnFormat = format === "native" ? fallbackFormat : "text";
+            addStep({ type: "error", content: `${reason}. Falling back to ${next === "schema" ? "schema-constrained" : "free-form"} tool calls.` });
+            format = next;
+            msgs[0] = { role: "system", content: buildAgentPrompt(systemPrompt, availableTools, format) };
+        };
+
         for (let i = 0; i < MAX_ITERATIONS; i++) {
             if (signal.aborted) break;
 
             set({ currentIteration: i + 1, status: "thinking" });
             updateElapsed();
 
-            // Budget context before each LLM call (85% of standard 4K window if undefined, otherwise dynamic based on webllm injected logic elsewhere)
-            const webLLMState = (window as any)._n0x_context_chars || 12000;
-            const budgeted = budgetContext(msgs, webLLMState);
+            // Budget context before each LLM call against the loaded model's window
+            const budgeted = budgetContext(msgs, promptBudget(options?.max_tokens));
 
             // Generate LLM response
             let llmOutput = "";
+            let nativeCall: ToolCall | undefined;
             try {
-                llmOutput = await generate(budgeted, undefined);
+                if (format === "native") {
+                    const result = await capabilities.generateWithTools!(budgeted, toolDefinitions, turnOptions);
+                    llmOutput = result.content;
+                    nativeCall = result.toolCalls[0];
+                } else {
+                    llmOutput = await generate(budgeted, undefined, {
+                        ...turnOptions,
+                        json_schema: format === "schema" ? turnSchema : undefined,
+                    });
+                }
             } catch (e: any) {
                 if (signal.aborted) break;
+                if (format !== "text") {
+                    // Engine/server rejected tools or the schema — retry this turn with the next format
+                    downgrade(`${format === "native" ? "Native tool calling" : "Structured output"} unavailable (${e.message})`);
+                    i--;
+                    continue;
+                }
                 addStep({ type: "error", content: `LLM generation failed: ${e.message}` });
                 set({ status: "error" });
                 return `Agent error: ${e.message}`;
@@ -402,17 +613,39 @@ export const useAgent = create<AgentState>((set, get) => ({
                 .replace(/<think>[\s\S]*?<\/think>/g, "")
                 .trim();
 
-            // Try to parse a tool call
-            const toolCall = parseToolCall(llmOutput);
+            if (format === "native" && !nativeCall && parseTurn(llmOutput).kind !== "tool") {
+                // answered with an empty call list — let it speak free-form instead.
+                // (A call whose arguments weren't valid JSON arrives as text, and
+                // is run below if the text parser can recover it.)
+                downgrade("Model made no function call");
+                i--;
+                continue;
+            }
 
-            if (!toolCall) {
-                // No tool call → final answer
-                addStep({ type: "final", content: llmOutput });
-                finalAnswer = llmOutput;
+            const turn: ParsedTurn = !nativeCall
+                ? parseTurn(llmOutput)
+                : nativeCall.name === FINAL_ANSWER_TOOL
+                    ? { kind: "final", thought: "", content: String(nativeCall.arguments.answer ?? "").trim() }
+                    : { kind: "tool", thought: "", tool: nativeCall.name, args: nativeCall.arguments, id: nativeCall.id };
+
+            if (turn.kind === "final") {
+                if (turn.thought) addStep({ type: "thought", content: turn.thought });
+                const answer = await writeAnswer(turn.content);
+                if (signal.aborted) break;
+                addStep({ type: "final", content: answer });
+                finalAnswer = answer;
                 set({ status: "done" });
                 updateElapsed();
                 break;
             }
+            const toolCall = turn;
+            // Native turns go back into history as just the call we ran, answered by a "tool" message
+            const assistantContent = toolCall.id
+                ? JSON.stringify([{ name: toolCall.tool, arguments: toolCall.args }])
+                : llmOutput;
+            const resultMessage = (content: string): AgentMessage => toolCall.id
+                ? { role: "tool", content, tool_call_id: toolCall.id }
+                : { role: "user", content };
 
             // Check for loop detection BEFORE executing
             const pendingSteps = get().steps;
@@ -423,7 +656,7 @@ export const useAgent = create<AgentState>((set, get) => ({
             if (detectLoop(testSteps)) {
                 addStep({ type: "error", content: `Loop detected: calling ${toolCall.tool} with same args ${MAX_LOOP_REPEATS}x. Breaking to give answer.` });
                 // Force the LLM to answer by removing tools
-                msgs.push({ role: "assistant", content: llmOutput });
+                msgs.push({ role: "assistant", content: assistantContent });
                 msgs.push({ role: "user", content: "You're repeating the same tool call. Please give your FINAL ANSWER now based on what you already know." });
                 continue;
             }
@@ -475,18 +708,16 @@ export const useAgent = create<AgentState>((set, get) => ({
             });
 
             // Append to LLM context for next iteration
-            msgs.push({ role: "assistant", content: llmOutput });
+            msgs.push({ role: "assistant", content: assistantContent });
 
             if (consecutiveErrors >= 3) {
-                msgs.push({
-                    role: "user",
-                    content: `Tool result (${toolCall.tool}, ${toolDuration}ms):\n${obsContent}\n\nSystem Intervention: You are repeatedly failing. Change your execution strategy entirely or provide your final answer now.`,
-                });
+                msgs.push(resultMessage(
+                    `Tool result (${toolCall.tool}, ${toolDuration}ms):\n${obsContent}\n\nSystem Intervention: You are repeatedly failing. Change your execution strategy entirely or provide your final answer now.`,
+                ));
             } else {
-                msgs.push({
-                    role: "user",
-                    content: `Tool result (${toolCall.tool}, ${toolDuration}ms):\n${obsContent}\n\nUse this information to either call another tool or provide your final answer.`,
-                });
+                msgs.push(resultMessage(
+                    `Tool result (${toolCall.tool}, ${toolDuration}ms):\n${obsContent}\n\nUse this information to either call another tool or provide your final answer.`,
+                ));
             }
         }
 
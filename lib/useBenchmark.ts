@@ -0,0 +1,313 @@
+"use client";
+
+import { create } from "zustand";
+import { useWebLLM, findModel, findModelRecord, type GenerationOptions, type TurnUsage } from "@/lib/useWebLLM";
+import { useModelCache } from "@/lib/useModelCache";
+
+// ─── Benchmark suite ────────────────────────────────────────────────
+// Runs a fixed prompt set against every fully cached model and records what
+// the hardware actually does: cold load time, time to first token, prefill and
+// decode throughput, and peak JS heap. Timings come from generate()'s own usage
+// report, so they're measured the same way on the GPU engine and CPU fallback.
+// Results persist in IndexedDB and export as JSON/CSV for comparing machines.
+
+export interface BenchmarkResult {
+    id: string;
+    runId: string;
+    modelId: string;
+    modelLabel: string;
+    backend: string;
+    device: string;             // GPU description, or the user agent on CPU
+    loadMs: number;
+    ttftMs: number;             // averages over BENCHMARK_PROMPTS
+    prefillTps: number;
+    decodeTps: number;
+    promptTokens: number;
+    completionTokens: number;
+    peakMemoryMB: number | null;   // JS heap high-water mark (Chromium only); GPU memory isn't observable
+    vramRequiredMB: number | null; // the model's declared requirement, for reference
+    error?: string;
+    skipped?: string;           // not run: why the probe says it won't fit
+    createdAt: number;
+}
+
+export interface BenchmarkProgress {
+    modelId: string;
+    step: "loading" | "generating";
+    modelIndex: number;
+    modelCount: number;
+    prompt?: string;
+}
+
+export const BENCHMARK_PROMPTS = [
+    { id: "short", prompt: "Write one sentence about the ocean." },
+    { id: "code", prompt: "Write a Python function that checks whether a string is a palindrome. Include a docstring." },
+    {
+        id: "long-prefill",
+        prompt: "Read the following passage and summarize it in three bullet points.\n\n" +
+            "The printing press, developed by Johannes Gutenberg around 1440, combined movable metal type, oil-based ink and a screw press adapted from wine making. " +
+            "Before it, books were copied by hand, which made them scarce and expensive. Within fifty years presses were running in more than two hundred European cities, " +
+            "and millions of volumes had been printed. Cheaper books spread literacy beyond clergy and nobility, standardized spelling and grammar in vernacular languages, " +
+            "and let scientists share precise diagrams and tables. Pamphlets carried religious and political arguments faster than authorities could suppress them, " +
+            "which historians link to the Reformation. The press also created new trades — typefounders, editors, booksellers — and the first copyright disputes.",
+    },
+];
+
+// Deterministic and short enough to keep a full run tolerable
+const BENCHMARK_OPTIONS: GenerationOptions = { temperature: 0, top_p: 1, max_tokens: 128, seed: 42 };
+const MEMORY_SAMPLE_MS = 250;
+const MB = 1024 * 1024;
+
+const DB_NAME = "n0x_benchmarks";
+const DB_VER = 1;
+const STORE = "results";
+
+function openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VER);
+        req.onerror = () => reject(req.error);
+        req.onsuccess = () => resolve(req.result);
+        req.onupgradeneeded = (e) => {
+            const db = (e.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(STORE)) {
+                db.createObjectStore(STORE, { keyPath: "id" });
+            }
+        };
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDB();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+// Polls performance.memory while a model loads and generates
+function memorySampler() {
+    const read = () => (performance as any).memory?.usedJSHeapSize as number | undefined;
+    let peak = read() ?? null;
+    const timer = setInterval(() => {
+        const now = read();
+        if (now !== undefined) peak = Math.max(peak ?? 0, now);
+    }, MEMORY_SAMPLE_MS);
+    return {
+        stop: (): number | null => {
+            clearInterval(timer);
+            return peak === null ? null : Math.round(peak / MB);
+        },
+    };
+}
+
+const round = (n: number, digits = 1) => Number.isFinite(n) ? Math.round(n * 10 ** digits) / 10 ** digits : 0;
+const mean = (xs: number[]) => xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+
+const CSV_COLUMNS: (keyof BenchmarkResult)[] = [
+    "runId", "modelId", "backend", "device", "loadMs", "ttftMs", "prefillTps", "decodeTps",
+    "promptTokens", "completionTokens", "peakMemoryMB", "vramRequiredMB", "error", "skipped", "createdAt",
+];
+
+export function benchmarkToCSV(results: BenchmarkResult[]): string {
+    const cell = (v: unknown) => {
+        const s = v === undefined || v === null ? "" : String(v);
+        return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+    return [CSV_COLUMNS.join(","), ...results.map(r => CSV_COLUMNS.map(c => cell(r[c])).join(","))].join("\n");
+}
+
+export function benchmarkToJSON(results: BenchmarkResult[]): string {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), userAgent: navigator.userAgent, results }, null, 2);
+}
+
+interface BenchmarkState {
+    results: BenchmarkResult[];
+    isLoaded: boolean;
+    progress: BenchmarkProgress | null;
+    error: string | null;
+
+    // Actions
+    init: () => Promise<void>;
+    // Defaults to every fully cached model (or the loaded one on CPU)
+    run: (modelIds?: string[]) => Promise<void>;
+    cancel: () => void;
+    clear: () => Promise<void>;
+}
+
+let cancelController: AbortController | null = null;
+
+// Anything running or waiting on the engine — unloading would fail it
+function busy(): boolean {
+    const { status, activeRequest, queued } = useWebLLM.getState();
+    return status === "generating" || !!activeRequest || queued.length > 0;
+}
+
+export const useBenchmark = create<BenchmarkState>((set, get) => {
+    // One model: cold load, then each prompt in turn
+    const benchModel = async (modelId: string, runId: string, signal: AbortSignal, report: (p: Partial<BenchmarkProgress>) => void): Promise<BenchmarkResult> => {
+        const webllm = useWebLLM.getState();
+        const base = {
+            id: `${runId}_${modelId}`,
+            runId,
+            modelId,
+            modelLabel: findModel(modelId)?.label ?? modelId,
+            backend: webllm.provider === "openai" ? "server" : webllm.backend,
+            device: webllm.gpu?.description || [webllm.gpu?.vendor, webllm.gpu?.architecture].filter(Boolean).join(" ") || navigator.userAgent,
+            vramRequiredMB: findModelRecord(modelId)?.vram_required_MB ?? null,
+            createdAt: Date.now(),
+        };
+        const empty = { loadMs: 0, ttftMs: 0, prefillTps: 0, decodeTps: 0, promptTokens: 0, completionTokens: 0 };
+
+        // the same check a normal load makes — a benchmark shouldn't crash the tab either
+        const fit = webllm.assessModelFit(modelId);
+        if (fit?.fit === "wont-fit") return { ...base, ...empty, peakMemoryMB: null, skipped: fit.reason };
+        const memory = memorySampler();
+
+        try {
+            report({ step: "loading" });
+            await webllm.unload(); // measure a load from cache, not a warm swap
+            const loadStart = performance.now();
+            await useWebLLM.getState().loadModel(modelId);
+            const loadMs = performance.now() - loadStart;
+            const loaded = useWebLLM.getState();
+            if (loaded.status !== "ready" || loaded.loadedModel !== modelId) {
+                throw new Error(loaded.error || "model failed to load");
+            }
+
+            const samples: { ttft: number; prefill: number; decode: number; prompt: number; completion: number }[] = [];
+            for (const { id, prompt } of BENCHMARK_PROMPTS) {
+                if (signal.aborted) break;
+                report({ step: "generating", prompt: id });
+
+                let usage: TurnUsage | null = null;
+                await useWebLLM.getState().generate(
+                    [{ role: "user", content: prompt }],
+                    undefined,
+                    BENCHMARK_OPTIONS,
+                    { label: "benchmark", signal, onUsage: (u) => { usage = u; } },
+                );
+                const u = usage as TurnUsage | null;
+                if (!u?.ttftMs) continue;
+
+                samples.push({
+                    ttft: u.ttftMs,
+                    prefill: u.prefillTps ?? 0,
+                    decode: u.decodeTps ?? 0,
+                    prompt: u.promptTokens,
+                    completion: u.completionTokens,
+                });
+            }
+            if (samples.length === 0) throw new Error(signal.aborted ? "cancelled" : "no tokens generated");
+
+            return {
+                ...base,
+                loadMs: Math.round(loadMs),
+                ttftMs: Math.round(mean(samples.map(s => s.ttft))),
+                prefillTps: round(mean(samples.map(s => s.prefill))),
+                decodeTps: round(mean(samples.map(s => s.decode))),
+                promptTokens: Math.round(mean(samples.map(s => s.prompt))),
+                completionTokens: Math.round(mean(samples.map(s => s.completion))),
+                peakMemoryMB: memory.stop(),
+            };
+        } catch (e: any) {
+            return { ...base, ...empty, peakMemoryMB: memory.stop(), error: e.message || String(e) };
+        }
+    };
+
+    return {
+        results: [],
+        isLoaded: false,
+        progress: null,
+        error: null,
+
+        init: async () => {
+            if (typeof indexedDB === "undefined" || get().isLoaded) return;
+            try {
+                const all = await withStore<BenchmarkResult[]>("readonly", s => s.getAll());
+                set({ results: (all || []).sort((a, b) => a.createdAt - b.createdAt), isLoaded: true });
+            } catch (e) {
+                console.error("Failed to load benchmark results:", e);
+                set({ isLoaded: true });
+            }
+        },
+
+        run: async (modelIds?: string[]) => {
+            if (get().progress) return;
+            const webllm = useWebLLM.getState();
+            if (webllm.provider !== "webllm") {
+                set({ error: "Benchmarks measure in-browser models — switch the provider back to the browser." });
+                return;
+            }
+            if (webllm.status === "loading" || busy()) {
+                set({ error: "Wait for the current load or reply to finish." });
+                return;
+            }
+
+            let targets = modelIds;
+            if (!targets) {
+                if (webllm.backend === "cpu") {
+                    targets = webllm.loadedModel ? [webllm.loadedModel] : [];
+                } else {
+                    await useModelCache.getState().scan();
+                    targets = useModelCache.getState().models.filter(m => m.complete).map(m => m.id);
+                }
+            }
+            if (targets.length === 0) {
+                set({ error: "No downloaded models to benchmark. Download some from the model manager first." });
+                return;
+            }
+
+            const restore = webllm.loadedModel;
+            const runId = `bench_${Date.now()}`;
+            cancelController = new AbortController();
+            const signal = cancelController.signal;
+            set({ error: null });
+
+            try {
+                for (let i = 0; i < targets.length && !signal.aborted; i++) {
+                    // switching models would fail whatever the user sent meanwhile
+                    if (busy()) {
+                        set({ error: "Stopped: a reply is waiting for the model. Run the benchmark again when it's done." });
+                        break;
+                    }
+                    const modelId = targets[i];
+                    const report = (p: Partial<BenchmarkProgress>) =>
+                        set({ progress: { step: "loading", ...p, modelId, modelIndex: i, modelCount: targets!.length } });
+                    const result = await benchModel(modelId, runId, signal, report);
+                    try {
+                        await withStore("readwrite", s => s.put(result));
+                    } catch (e) {
+                        console.error("Failed to save benchmark result:", e);
+                    }
+                    set(s => ({ results: [...s.results, result] }));
+                }
+            } finally {
+                cancelController = null;
+                set({ progress: null });
+                // put back whatever the user had loaded
+                const now = useWebLLM.getState();
+                if (restore && now.loadedModel !== restore && now.status !== "loading") {
+                    await now.loadModel(restore, true);
+                }
+            }
+        },
+
+        cancel: () => {
+            cancelController?.abort();
+        },
+
+        clear: async () => {
+            try {
+                await withStore("readwrite", s => s.clear());
+            } catch (e) {
+                console.error("Failed to clear benchmark results:", e);
+            }
+            set({ results: [] });
+        },
+    };
+});
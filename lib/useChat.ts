@@ -1,42 +1,98 @@
 "use client";
 
-import { useCallback, useState } from "react";
-import { useWebLLM } from "@/lib/useWebLLM";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useWebLLM, resolveGenerationOptions, selectionOf, sameSelection, type GenerationOptions, type GenerationRequest, type TurnUsage } from "@/lib/useWebLLM";
+import type { ProviderSelection } from "@/lib/inferenceProvider";
 import { useDeepSearch } from "@/lib/useDeepSearch";
 import { useMemory } from "@/lib/useMemory";
 import { usePyodide } from "@/lib/usePyodide";
 import { useTTS } from "@/lib/useTTS";
-import { useRAG } from "@/lib/useRAG";
-import { useChatStore } from "@/lib/useChatStore";
+import { useRAG, hitSource } from "@/lib/useRAG";
+import { numberSources, webSources, CITE_INSTRUCTION, type CitedText } from "@/lib/citations";
+import { useChatStore, activeBranch, summarizeTelemetry, type ContextSource } from "@/lib/useChatStore";
 import { useSystemPrompt } from "@/lib/useSystemPrompt";
 import { tick as keySoundTick } from "@/lib/useKeySound";
 import { useAgent, AgentToolkit } from "@/lib/useAgent";
+import { countMessageTokens, countTokens, promptBudget, truncateToTokens } from "@/lib/tokenCounter";
+import { useModelRouter, isImageRequest, type RouteDecision } from "@/lib/useModelRouter";
+import { downloadConversations } from "@/lib/chatExport";
+import { cleanTitle, titleMessages, TITLE_OPTIONS } from "@/lib/conversationTitle";
+import { parseSlash, suggestSlash, type SlashContext, type SlashOutcome } from "@/lib/slashCommands";
+import { useModelCatalog } from "@/lib/useModelRegistry";
+import { loadDefaultSettings, sameSettings, type ConversationSettings } from "@/lib/conversationSettings";
+import { pickSummary, planCompaction, summarizeTurns, summaryBlock, SUMMARY_MAX_TOKENS, type ConversationSummary } from "@/lib/compaction";
+
+export interface AttachedImage {
+    id: string;
+    url: string;        // data URL, downscaled
+    name: string;
+}
+
+// Phi-3.5-vision tiles images into 336px crops; anything bigger only costs storage
+const MAX_IMAGE_DIM = 1344;
+// each image costs IMAGE_TOKENS of a 4k window in the browser; servers get more room
+const MAX_IMAGES_LOCAL = 1;
+const MAX_IMAGES_REMOTE = 4;
+
+// Decode, downscale and re-encode so attachments stay small in IndexedDB
+async function readImage(file: File): Promise<string> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_DIM / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL("image/jpeg", 0.9);
+}
 
-// Very simple heuristic to estimate LLM tokens (1 token ≈ 4 characters)
-function estimateTokens(text: string): number {
-    if (!text) return 0;
-    return Math.ceil(text.length / 4);
+// A direct reply cut short by a lost GPU device, kept so it can be resumed
+// once the engine is rebuilt
+interface InterruptedReply {
+    messageId: string;
+    msgs: { role: string; content: string; images?: string[] }[];
+    partial: string;
 }
 
+const INTERRUPTED_NOTE = "\n\n*[interrupted: GPU device lost]*";
+const STOPPED_NOTE = "\n\n*[generation stopped]*";
+const CONTINUE_PROMPT = "Your previous reply was cut off. Continue it exactly where it stopped, without repeating anything already written.";
+
+// Where a send lands in the conversation tree when it isn't a plain follow-up:
+// an edited user message goes in as a sibling under `parentId`; a regenerated
+// reply answers the existing user message `replyTo` again
+interface SendBranch {
+    parentId: string | null;
+    images?: string[];
+    replyTo?: string;
+}
+
+interface HistoryTurn {
+    id: string;
+    role: string;
+    content: string;
+}
+
+const COMPACT_OPTIONS: GenerationOptions = { temperature: 0.2, max_tokens: SUMMARY_MAX_TOKENS };
+
 interface ImageGenProgress {
     active: boolean;
     provider?: string;
     phase?: string;
 }
 
-const IMG_PATTERNS = [
-    /^(generate|create|make|draw|paint|render)\s+(an?\s+)?(image|picture|photo|art|illustration)/i,
-    /^image:\s*/i,
-    /^\/image\s+/i,
-];
-
 export function useChat() {
     const [input, setInput] = useState("");
     const [streamingContent, setStreamingContent] = useState("");
     const [deepSearchEnabled, setDeepSearchEnabled] = useState(false);
     const [memoryEnabled, setMemoryEnabled] = useState(false);
+    const [pyEnabled, setPyEnabled] = useState(false);
+    const [knowledge, setKnowledge] = useState<string[] | null>(null);
     const [generatingImage, setGeneratingImage] = useState(false);
     const [imageProgress, setImageProgress] = useState<ImageGenProgress>({ active: false });
+    const [pendingImages, setPendingImages] = useState<AttachedImage[]>([]);
+    const [interrupted, setInterrupted] = useState<InterruptedReply | null>(null);
+    const [commandNotice, setCommandNotice] = useState<string | null>(null);
 
     const webllm = useWebLLM();
     const deepSearch = useDeepSearch();
@@ -47,17 +103,100 @@ export function useChat() {
     const chatStore = useChatStore();
     const persona = useSystemPrompt();
     const agent = useAgent();
+    const router = useModelRouter();
+    const catalog = useModelCatalog();
+
+    // Effective sampling params: persona defaults, then per-conversation overrides
+    const generation = resolveGenerationOptions(persona.generation, chatStore.generation);
+
+    // Provider choice is per conversation. A new chat records whatever is live
+    // when its first message goes out; switching chats restores theirs.
+    const { activeId, isLoaded, setProvider, setSettings } = chatStore;
+    const selection = selectionOf(webllm);
+    const selectionKey = `${selection.kind}|${selection.baseUrl || ""}|${selection.model || ""}`;
+    useEffect(() => {
+        if (!activeId) setProvider(selectionOf(useWebLLM.getState()));
+    }, [activeId, selectionKey, setProvider]);
+
+    // What the open chat has saved, read by the effects that restore it when
+    // the chat changes (and only then)
+    const savedRef = useRef({ provider: chatStore.provider, settings: chatStore.settings });
+    savedRef.current = { provider: chatStore.provider, settings: chatStore.settings };
+
+    useEffect(() => {
+        const saved = savedRef.current.provider;
+        const engine = useWebLLM.getState();
+        if (saved && !sameSelection(saved, selectionOf(engine))) {
+            engine.selectProvider(saved);
+        }
+    }, [activeId]);
+
+    const selectProvider = useCallback((next: ProviderSelection) => {
+        webllm.selectProvider(next);
+        chatStore.setProvider(selectionOf(useWebLLM.getState()));
+    }, [webllm, chatStore]);
+
+    // Model, persona, agent mode, tools and knowledge scope are per conversation
+    // too: the live setup is recorded as it changes, and opening a chat restores
+    // its own. A fresh chat starts from the saved default.
+    const liveModelId = webllm.provider === "webllm" && webllm.status !== "loading" ? webllm.loadedModel : null;
+    const savedModelId = chatStore.settings?.modelId ?? null;
+    const liveSettings = useMemo<ConversationSettings>(() => ({
+        // mid-load (or on a remote provider) keep the model the chat already had
+        modelId: liveModelId ?? savedModelId,
+        personaId: persona.activeId,
+        agent: agent.enabled,
+        tools: { search: deepSearchEnabled, memory: memoryEnabled, python: pyEnabled },
+        knowledge,
+    }), [liveModelId, savedModelId, persona.activeId, agent.enabled, deepSearchEnabled, memoryEnabled, pyEnabled, knowledge]);
+
+    const { selectPersona } = persona;
+    const personaRef = useRef(persona);
+    personaRef.current = persona;
+    const restoringRef = useRef(false);
+    useEffect(() => {
+        if (!isLoaded || !persona.isLoaded) return;
+        restoringRef.current = true;
+        // chats from before settings existed keep whatever is live
+        const target = activeId ? savedRef.current.settings : loadDefaultSettings();
+        if (!target) return;
+
+        const { activeId: personaId, personas } = personaRef.current;
+        if (target.personaId !== personaId && personas.some(p => p.id === target.personaId)) {
+            selectPersona(target.personaId);
+        }
+        if (useAgent.getState().enabled !== target.agent) useAgent.setState({ enabled: target.agent });
+        setDeepSearchEnabled(target.tools.search);
+        setMemoryEnabled(target.tools.memory);
+        setPyEnabled(target.tools.python);
+        setKnowledge(target.knowledge);
+
+        const engine = useWebLLM.getState();
+        if (target.modelId && engine.provider === "webllm" && engine.status !== "loading" && engine.loadedModel !== target.modelId) {
+            engine.loadModel(target.modelId).catch(() => { });
+        }
+    }, [activeId, isLoaded, persona.isLoaded, selectPersona]);
+
+    useEffect(() => {
+        // in the commit that restored, the live values are still the previous chat's
+        if (!isLoaded || !persona.isLoaded || restoringRef.current) return;
+        if (!sameSettings(liveSettings, savedRef.current.settings)) setSettings(liveSettings);
+    }, [liveSettings, isLoaded, persona.isLoaded, setSettings]);
+
+    useEffect(() => { restoringRef.current = false; });
 
-    const isStreaming = webllm.status === "generating" || deepSearch.isActive || generatingImage || agent.status === "thinking" || agent.status === "acting";
+    // background jobs (titles, memory) share the engine but don't block the input
+    const foregroundBusy = webllm.activeRequest?.priority === "interactive" || webllm.queued.some(r => r.priority === "interactive");
+    const isStreaming = foregroundBusy || deepSearch.isActive || generatingImage || agent.status === "thinking" || agent.status === "acting";
     let tokenCounter = 0;
 
-    const handleImageGen = useCallback(async (prompt: string) => {
+    const handleImageGen = useCallback(async (prompt: string, branch?: SendBranch) => {
         setGeneratingImage(true);
         setImageProgress({ active: true, phase: "submitting..." });
 
-        chatStore.addMessage({ id: Date.now().toString(), role: "user", content: prompt });
+        const userId = branch?.replyTo ?? chatStore.addMessage({ id: Date.now().toString(), role: "user", content: prompt }, branch?.parentId).id;
         const msgId = (Date.now() + 1).toString();
-        chatStore.addMessage({ id: msgId, role: "assistant", content: "generating image..." });
+        chatStore.addMessage({ id: msgId, role: "assistant", content: "generating image..." }, userId);
 
         try {
             setImageProgress({ active: true, phase: "waiting for provider..." });
@@ -84,46 +223,252 @@ export function useChat() {
         }
     }, [chatStore]);
 
-    const handleSend = useCallback(async (autoMessage?: string) => {
+    const visionSupported = webllm.supportsVision();
+    const maxImages = webllm.provider === "openai" ? MAX_IMAGES_REMOTE : MAX_IMAGES_LOCAL;
+
+    const attachImage = useCallback(async (file: File) => {
+        if (!file.type.startsWith("image/")) return;
+        try {
+            const url = await readImage(file);
+            const image = { id: `img_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`, url, name: file.name || "pasted image" };
+            // newest wins when over the limit
+            setPendingImages(prev => [...prev, image].slice(-maxImages));
+        } catch (e) {
+            console.error("Failed to read image:", e);
+        }
+    }, [maxImages]);
+
+    const removeImage = useCallback((id: string) => {
+        setPendingImages(prev => prev.filter(i => i.id !== id));
+    }, []);
+
+    // Fold the oldest turns of `history` into the branch's running summary when
+    // they don't fit in `budget` tokens — or all of them when `force` is set
+    const compactHistory = useCallback(async (history: HistoryTurn[], budget: number, force = false): Promise<{ summary?: ConversationSummary; recent: HistoryTurn[] }> => {
+        const summary = pickSummary(history, chatStore.activeConversation?.summaries);
+        const recent = summary ? history.slice(history.findIndex(m => m.id === summary.throughId) + 1) : history;
+        const summaryTokens = summary ? countTokens(summaryBlock(summary)) : 0;
+        if (!force && countMessageTokens(recent) + summaryTokens <= budget) return { summary, recent };
+
+        const start = force ? recent.length : planCompaction(recent, budget - SUMMARY_MAX_TOKENS);
+        if (start === 0) return { summary, recent };
+        try {
+            setStreamingContent("> summarizing earlier messages to fit the context window...");
+            const text = await summarizeTurns(summary?.text ?? "", recent.slice(0, start), (msgs) =>
+                webllm.generate(msgs, undefined, COMPACT_OPTIONS, {
+                    label: "compact",
+                    onQueued: (position) => setStreamingContent(`> waiting for the engine (#${position} in queue)...`),
+                }));
+            const through = recent[start - 1];
+            const next: ConversationSummary = { text, throughId: through.id, messageCount: history.indexOf(through) + 1, updatedAt: Date.now() };
+            chatStore.saveSummary(next);
+            return { summary: next, recent: recent.slice(start) };
+        } catch (err) {
+            // oldest turns get dropped instead, as before compaction existed
+            console.warn("History compaction failed:", err);
+            return { summary, recent };
+        } finally {
+            setStreamingContent("");
+        }
+    }, [chatStore, webllm]);
+
+    // Name a conversation with the model. Background priority: it waits behind
+    // anything the user is waiting on.
+    const titlingRef = useRef(new Set<string>());
+    const retitle = useCallback(async (convId: string) => {
+        const conv = chatStore.conversations.find(c => c.id === convId);
+        if (!conv || conv.titleSource === "user" || titlingRef.current.has(convId)) return;
+        const status = useWebLLM.getState().status;
+        if (status !== "ready" && status !== "generating") return;
+
+        titlingRef.current.add(convId);
+        try {
+            const reply = await webllm.generate(titleMessages(activeBranch(conv)), undefined, TITLE_OPTIONS, { priority: "background", label: "title" });
+            const title = cleanTitle(reply);
+            if (title) chatStore.setGeneratedTitle(convId, title);
+        } catch (err) {
+            console.warn("Title generation failed:", err);
+        } finally {
+            titlingRef.current.delete(convId);
+        }
+    }, [chatStore, webllm]);
+
+    // a new chat is titled once its first reply is in
+    const retitleRef = useRef(retitle);
+    retitleRef.current = retitle;
+    const activeTitleSource = chatStore.activeConversation?.titleSource;
+    const hasReply = chatStore.messages.some(m => m.role === "assistant");
+    useEffect(() => {
+        if (activeId && activeTitleSource === "prompt" && hasReply && !isStreaming) retitleRef.current(activeId);
+    }, [activeId, activeTitleSource, hasReply, isStreaming]);
+
+    // What slash commands can reach (see lib/slashCommands.ts)
+    const slashContext: SlashContext = {
+        documents: rag.documents.map(d => d.name),
+        personas: persona.personas.map(p => ({ id: p.id, name: p.name })),
+        models: catalog.map(m => ({ id: m.id, label: m.label })),
+        memories: memory.memories,
+        tools: { search: deepSearchEnabled, memory: memoryEnabled, python: pyEnabled, agent: agent.enabled },
+        setTool: (tool, on) => {
+            if (tool === "search") setDeepSearchEnabled(on);
+            if (tool === "memory") setMemoryEnabled(on);
+            if (tool === "python") setPyEnabled(on);
+            if (tool === "agent") useAgent.setState({ enabled: on });
+        },
+        setKnowledge,
+        selectPersona: persona.selectPersona,
+        loadModel: async (id) => {
+            if (webllm.provider !== "webllm") throw new Error("models load into the in-browser engine — switch provider first");
+            await webllm.loadModel(id);
+        },
+        remember: (text) => memory.saveMemory(text, ["manual"]),
+        forget: memory.deleteMemory,
+        // the run is recorded as a turn so its output stays visible and in context
+        runPython: async (code) => {
+            if (!pyodide.isReady) await pyodide.load();
+            const res = await pyodide.run(code);
+            const userId = chatStore.addMessage({ id: Date.now().toString(), role: "user", content: "```python\n" + code + "\n```" }).id;
+            chatStore.addMessage({
+                id: (Date.now() + 1).toString(),
+                role: "assistant",
+                content: "```text\n" + (res.error || res.output || "(no output)") + "\n```",
+            }, userId);
+        },
+        // keeps the prefix on the stored message so regenerating it makes an image again
+        generateImage: (prompt) => handleImageGen(`/image ${prompt}`),
+        exportChat: (format) => {
+            const conv = chatStore.activeConversation;
+            if (!conv) return false;
+            downloadConversations([conv], format);
+            return true;
+        },
+        summarize: async () => {
+            const history = chatStore.messages.map(m => ({ id: m.id, role: m.role, content: m.content }));
+            if (history.length === 0) return 0;
+            const { summary } = await compactHistory(history, promptBudget(generation.max_tokens), true);
+            return summary?.messageCount ?? 0;
+        },
+    };
+
+    // The user message the current send is answering, and whether stop was pressed
+    const inFlightRef = useRef<{ userId: string; stopped: boolean } | null>(null);
+
+    const handleSend = useCallback(async (autoMessage?: string, branch?: SendBranch) => {
         if (isStreaming) return;
-        const message = typeof autoMessage === "string" ? autoMessage : input.trim();
-        if (!message) return;
+        const typed = typeof autoMessage !== "string";
+        // images ride along with what the user typed (or the message being
+        // edited/regenerated), not self-healing retries
+        const images = branch ? branch.images ?? [] : typed ? pendingImages.map(i => i.url) : [];
+        let message = typed ? input.trim() : autoMessage;
+        if (!message && images.length === 0) return;
+        // the input refuses to send these; this guards programmatic sends
+        if (images.length > 0 && !webllm.supportsVision()) return;
+        if (!message) message = "Describe this image.";
+
+        if (typed) {
+            setInput("");
+            setCommandNotice(null);
+        }
 
-        if (typeof autoMessage !== "string") setInput("");
+        // ── Slash commands: a registered `/name` runs instead of being sent ──
+        let oneOff: SlashOutcome = {};
+        const slash = typed && images.length === 0 ? parseSlash(message) : null;
+        if (slash) {
+            let outcome: SlashOutcome | void;
+            try {
+                outcome = await slash.command.run(slash.arg, slashContext);
+            } catch (err: any) {
+                outcome = { notice: `/${slash.command.name}: ${err?.message || "failed"}` };
+            }
+            setCommandNotice(outcome?.notice ?? null);
+            if (!outcome?.send) return;
+            oneOff = outcome;
+            message = outcome.send;
+        }
+
+        // knowledge-base files in scope: the chat's, unless a command narrowed it for this message
+        const scope = oneOff.knowledge ?? knowledge;
+        const scopedDocuments = scope ? rag.documents.filter(d => scope.includes(d.name)) : rag.documents;
 
         // Check if they want an image
-        if (IMG_PATTERNS.some(p => p.test(message))) {
-            await handleImageGen(message);
+        if (images.length === 0 && isImageRequest(message)) {
+            await handleImageGen(message, branch);
             return;
         }
 
-        if (webllm.status !== "ready") return;
+        // nothing is recorded until the model is settled, so a typed message that
+        // can't go out yet goes back in the input rather than being lost
+        const keepTyped = () => { if (typed) setInput(input); };
+        // a device-lost recovery queues the message until the model is back
+        const engineUp = () => {
+            const { status, deviceLost } = useWebLLM.getState();
+            return status === "ready" || status === "generating" || !!deviceLost?.recovering;
+        };
+        if (!engineUp()) return keepTyped();
+
+        // ── Router: pick the model for this kind of task before anything is recorded ──
+        // (not with images attached — only the vision model can read them)
+        let route: RouteDecision | undefined;
+        if (router.enabled && webllm.provider === "webllm" && images.length === 0) {
+            route = await router.route(message);
+            if (route.action === "image") {
+                await handleImageGen(message, branch);
+                return;
+            }
+            if (!engineUp()) return keepTyped(); // load failed — error banner explains
+        }
 
-        chatStore.addMessage({ id: Date.now().toString(), role: "user", content: message });
+        // every reply below hangs off this message, even if the user flips branches mid-stream
+        const userId = branch?.replyTo
+            ?? chatStore.addMessage({ id: Date.now().toString(), role: "user", content: message, images: images.length > 0 ? images : undefined }, branch?.parentId).id;
+        if (typed && images.length > 0) setPendingImages([]);
+        // the stop button marks this; whatever came through is recorded below, under userId
+        const job = { userId, stopped: false };
+        inFlightRef.current = job;
 
         // ── AGENT MODE: Route through autonomous loop ──
         // In agent mode the LLM decides which tools to use, so we give it
         // access to everything that's physically available — not gated by
         // the user toggles (those only control single-shot mode).
-        if (agent.enabled) {
+        // The loop is text-only, so a message with images is answered directly.
+        if (agent.enabled && images.length === 0) {
             try {
                 agent.reset();
                 setStreamingContent("🤖 Agent is working…");
 
+                // telemetry: usage of every LLM call in the loop, and which tools fetched context
+                const turns: TurnUsage[] = [];
+                const sources = new Set<ContextSource>();
+                const tracked: GenerationRequest = { label: "agent", onUsage: (u) => turns.push(u) };
+                // numbered across every tool call in the loop, so [n] stays unique
+                const cites: CitedText[] = [];
+                const numberFound = (found: CitedText[]) => {
+                    const block = numberSources(found, cites.length + 1);
+                    cites.push(...found);
+                    return `${block}\n\n${CITE_INSTRUCTION}`;
+                };
+
                 const toolkit: AgentToolkit = {};
 
                 // Web search — always available (it's just an API call)
                 toolkit.webSearch = async (q: string) => {
+                    sources.add("search");
                     try {
                         const result = await deepSearch.search(q);
                         if (!result) return "Search returned no results. Try different search terms.";
                         let ctx = "";
                         if (result.summary) ctx += result.summary + "\n\n";
-                        if (result.content?.length > 0) {
-                            ctx += result.content.slice(0, 3).join("\n\n");
-                        }
-                        if (result.sources?.length > 0) {
-                            ctx += "\n\nSources:\n" + result.sources.slice(0, 5).map((s: string) => `• ${s}`).join("\n");
+                        const found = webSources(result.passages);
+                        if (found.length > 0) {
+                            ctx += numberFound(found);
+                        } else {
+                            // nothing worth citing: hand over the raw results as before
+                            if (result.content?.length > 0) {
+                                ctx += result.content.slice(0, 3).join("\n\n");
+                            }
+                            if (result.sources?.length > 0) {
+                                ctx += "\n\nSources:\n" + result.sources.slice(0, 5).map((s: string) => `• ${s}`).join("\n");
+                            }
                         }
                         deepSearch.reset();
                         return ctx.trim() || "Search completed but returned no useful content.";
@@ -134,11 +479,12 @@ export function useChat() {
                 };
 
                 // Document search — only if files have been uploaded
-                if (rag.documents.length > 0) {
+                if (scopedDocuments.length > 0) {
                     toolkit.ragSearch = async (q: string) => {
+                        sources.add("rag");
                         try {
-                            const ctx = await rag.getFileContext(q);
-                            return ctx || "No relevant content found in the uploaded documents.";
+                            const found = await rag.getFileSources(q, scope);
+                            return found.length > 0 ? numberFound(found) : "No relevant content found in the uploaded documents.";
                         } catch (e: any) {
                             return `Document search failed: ${e.message}`;
                         }
@@ -169,6 +515,7 @@ export function useChat() {
                         }
                     };
                     toolkit.memoryRecall = (q: string) => {
+                        sources.add("memory");
                         return memory.getContext(q) || "No relevant memories found.";
                     };
                 }
@@ -176,18 +523,29 @@ export function useChat() {
                 const finalAnswer = await agent.runLoop(
                     message,
                     toolkit,
-                    webllm.generate,
+                    (msgs, onToken, options) => webllm.generate(msgs, onToken, options, tracked),
                     persona.systemPrompt,
+                    generation,
+                    {
+                        structuredOutput: webllm.supportsStructuredOutput(),
+                        generateWithTools: webllm.supportsToolCalling()
+                            ? (msgs, tools, options) => webllm.generateWithTools(msgs, tools, options, tracked)
+                            : undefined,
+                    },
                 );
 
+                // a stopped run returns its partial result, already labelled as such
                 chatStore.addMessage({
                     id: (Date.now() + 1).toString(),
                     role: "assistant",
                     content: finalAnswer,
-                });
+                    route,
+                    telemetry: summarizeTelemetry(turns, persona.activeId, Array.from(sources)),
+                    citations: cites.length > 0 ? cites.map(c => c.citation) : undefined,
+                }, userId);
                 setStreamingContent("");
 
-                if (tts.isEnabled) tts.speak(finalAnswer);
+                if (tts.isEnabled && !job.stopped) tts.speak(finalAnswer);
             } catch (err: any) {
                 console.error("Agent loop error:", err);
                 setStreamingContent("");
@@ -195,7 +553,7 @@ export function useChat() {
                     id: (Date.now() + 1).toString(),
                     role: "assistant",
                     content: `Agent failed: ${err.message}`,
-                });
+                }, userId);
                 agent.reset();
             }
             return;
@@ -203,59 +561,55 @@ export function useChat() {
 
         // ── Gather context from all enabled features (parallel where possible) ──
 
+        // Documents and web results are numbered as one list, [1] [2] …, which
+        // is stored on the reply for its footnotes
         // 1. RAG — Get file context (direct text for small files, vector search for large)
-        let ragCtx = "";
-        const hasDocuments = rag.documents.length > 0;
+        let docSources: CitedText[] = [];
+        const hasDocuments = scopedDocuments.length > 0;
         if (hasDocuments) {
             setStreamingContent("⟳ reading your documents...");
             try {
-                ragCtx = await rag.getFileContext(message);
+                docSources = await rag.getFileSources(message, scope);
             } catch (e) {
                 console.error("RAG context failed:", e);
                 // Fallback: try basic search
                 try {
-                    const chunks = await rag.search(message, 4);
-                    if (chunks.length > 0) {
-                        ragCtx = chunks
-                            .filter(c => c && c.trim().length > 20)
-                            .map((c, i) => `[Doc ${i + 1}] ${c.trim()}`)
-                            .join("\n\n");
-                    }
+                    const hits = await rag.search(message, 4, scope);
+                    docSources = hits.filter(h => h.text && h.text.trim().length > 20).map(hitSource);
                 } catch {
                     // silently continue without RAG
                 }
             }
         }
+        const ragCtx = numberSources(docSources);
 
         // 2. Memory — retrieve relevant context
         const memCtx = memoryEnabled ? memory.getContext(message) : "";
 
         // 3. Deep Search — web search (with error resilience!)
         let searchCtx = "";
-        if (deepSearchEnabled) {
+        let webFound: CitedText[] = [];
+        if (deepSearchEnabled || oneOff.search) {
             setStreamingContent("⟳ searching the web...");
             try {
                 const result = await deepSearch.search(message);
                 if (result) {
                     if (result.summary) searchCtx += result.summary + "\n\n";
-                    if (result.content && result.content.length > 0) {
-                        const cleaned = result.content
-                            .map((c: string) => c.replace(/^\[Source:[^\]]+\]\n?/gm, "").replace(/^\[Instant Answer\]\n?/gm, "").trim())
-                            .filter((c: string) => c.length > 40)
-                            .slice(0, 3);
-                        const trimmed = cleaned.map((c: string) => c.length > 1200 ? c.slice(0, 1200) + "..." : c);
-                        if (trimmed.length > 0) searchCtx += trimmed.join("\n\n");
-                    }
-                    if (result.sources && result.sources.length > 0) {
-                        searchCtx += "\n\nSources: " + result.sources.slice(0, 4).join(", ");
+                    webFound = webSources(result.passages);
+                    if (webFound.length > 0) {
+                        searchCtx += numberSources(webFound, docSources.length + 1);
+                    } else if (result.sources && result.sources.length > 0) {
+                        searchCtx += "Sources: " + result.sources.slice(0, 4).join(", ");
                     }
                 }
             } catch (e) {
                 // Search failed — continue without search context, don't crash
                 console.error("Deep search error (non-fatal):", e);
                 searchCtx = "";
+                webFound = [];
             }
         }
+        const citations = [...docSources, ...webFound].map(s => s.citation);
 
         // ── Build the message list for the LLM ──
         // IMPORTANT: WebLLM only allows ONE system message and it MUST be first.
@@ -265,18 +619,22 @@ export function useChat() {
         const contextParts: string[] = [];
 
         if (ragCtx) {
-            const fileNames = rag.documents.map(d => d.name).join(", ");
+            const fileNames = scopedDocuments.map(d => d.name).join(", ");
             contextParts.push(
-                `## Attached Files: ${fileNames}\nThe user has uploaded documents. Here is the content:\n${ragCtx}\nYou MUST use this document content to answer. Reference the file names when quoting.`
+                `## Attached Files: ${fileNames}\nThe user has uploaded documents. Here is the content:\n${ragCtx}\nYou MUST use this document content to answer.`
             );
         }
 
         if (searchCtx.trim()) {
             contextParts.push(
-                `## Web Search Results\n${searchCtx.trim()}\nUse these results for an accurate, up-to-date answer. Cite sources.`
+                `## Web Search Results\n${searchCtx.trim()}\nUse these results for an accurate, up-to-date answer.`
             );
         }
 
+        if (citations.length > 0) {
+            contextParts.push(CITE_INSTRUCTION);
+        }
+
         if (memCtx) {
             contextParts.push(`## Memory\n${memCtx}`);
         }
@@ -290,27 +648,37 @@ export function useChat() {
             userContextBlock = `[CONTEXT]\n${contextParts.join("\n\n")}\n[END CONTEXT]\n\nBased on the context above, answer the following:\n`;
         }
 
-        // Conversation history (only user/assistant — exclude the message we just added)
-        const history = chatStore.messages
-            .map(m => ({ role: m.role, content: m.content }));
+        // Conversation history along the active branch (only user/assistant — exclude the
+        // message we just added); an edit or regenerate starts from the branch point instead
+        const history: HistoryTurn[] = (branch ? chatStore.pathToMessage(branch.parentId) : chatStore.messages)
+            .map(m => ({ id: m.id, role: m.role, content: m.content }));
 
-        const MAX_CONTEXT_TOKENS = 3500; // Leave ~500 for generation in a 4k window
-        const newMessageTokens = estimateTokens(message);
+        // Model's context window minus room for the reply, in real tokens
+        const maxContextTokens = promptBudget(generation.max_tokens);
+        const newMessageTokens = countMessageTokens([{ content: message, images }]);
 
         // If the context block is ALREADY too large, truncate it.
         // This prevents the search/rag from blowing up the entire prompt.
-        let baseTokens = estimateTokens(systemContent) + newMessageTokens;
+        let baseTokens = countMessageTokens([{ content: systemContent }]) + newMessageTokens;
 
         if (userContextBlock.length > 0) {
-            const contextTokensEstimate = estimateTokens(userContextBlock);
-            if (baseTokens + contextTokensEstimate > MAX_CONTEXT_TOKENS) {
-                const safeCharLimit = (MAX_CONTEXT_TOKENS - baseTokens) * 4;
-                userContextBlock = userContextBlock.slice(0, safeCharLimit) + "\n\n...[Context truncated to fit memory window]\n\nBased on the context above, answer the following:\n";
+            const contextTokens = countTokens(userContextBlock);
+            if (baseTokens + contextTokens > maxContextTokens) {
+                const suffix = "\n\n...[Context truncated to fit memory window]\n\nBased on the context above, answer the following:\n";
+                userContextBlock = truncateToTokens(userContextBlock, maxContextTokens - baseTokens - countTokens(suffix)) + suffix;
             }
-            baseTokens += estimateTokens(userContextBlock);
+            baseTokens += countTokens(userContextBlock);
+        }
+
+        // Turns that no longer fit are summarized rather than forgotten; the
+        // summary rides in the system prompt ahead of the recent turns
+        const { summary, recent } = await compactHistory(history, maxContextTokens - baseTokens);
+        if (summary) {
+            systemContent += `\n\n${summaryBlock(summary)}`;
+            baseTokens += countTokens(summaryBlock(summary));
         }
 
-        const msgs: { role: string; content: string }[] = [
+        const msgs: { role: string; content: string; images?: string[] }[] = [
             { role: "system", content: systemContent },
         ];
 
@@ -319,12 +687,12 @@ export function useChat() {
         // Traverse history starting from the newest to keep chronological context
         // and stop when we hit the memory limit.
         const trimmedHistory: { role: string; content: string }[] = [];
-        for (let i = history.length - 1; i >= 0; i--) {
-            const msgTokens = estimateTokens(history[i].content);
-            if (currentTokens + msgTokens > MAX_CONTEXT_TOKENS) {
+        for (let i = recent.length - 1; i >= 0; i--) {
+            const msgTokens = countMessageTokens([recent[i]]);
+            if (currentTokens + msgTokens > maxContextTokens) {
                 break; // Window is full, skip older messages
             }
-            trimmedHistory.unshift(history[i]);
+            trimmedHistory.unshift({ role: recent[i].role, content: recent[i].content });
             currentTokens += msgTokens;
         }
 
@@ -334,22 +702,51 @@ export function useChat() {
 
         // ALWAYS append the current user message as final message (with context if applicable)
         const finalUserContent = userContextBlock ? userContextBlock + message : message;
-        msgs.push({ role: "user", content: finalUserContent });
+        msgs.push({ role: "user", content: finalUserContent, images: images.length > 0 ? images : undefined });
+
+        // stopped while gathering context: nothing was generated to keep
+        if (job.stopped) {
+            setStreamingContent("");
+            deepSearch.reset();
+            return;
+        }
 
         // ── Generate ──
+        let full = "";
         try {
             setStreamingContent("");
-            let full = "";
             tokenCounter = 0;
+            let usage: TurnUsage | undefined;
+            const sources: ContextSource[] = [];
+            if (ragCtx) sources.push("rag");
+            if (searchCtx.trim()) sources.push("search");
+            if (memCtx) sources.push("memory");
             await webllm.generate(msgs, (tok) => {
                 full += tok;
                 setStreamingContent(full);
                 // Play key click every ~3 tokens
                 tokenCounter++;
                 if (tokenCounter % 3 === 0) keySoundTick();
+            }, generation, {
+                label: "chat",
+                onQueued: (position) => setStreamingContent(`> waiting for the engine (#${position} in queue)...`),
+                onUsage: (u) => { usage = u; },
             });
 
-            chatStore.addMessage({ id: (Date.now() + 1).toString(), role: "assistant", content: full });
+            // a stopped generate() resolves with what streamed before the stop
+            if (job.stopped && !full.trim()) {
+                setStreamingContent("");
+                deepSearch.reset();
+                return;
+            }
+            chatStore.addMessage({
+                id: (Date.now() + 1).toString(),
+                role: "assistant",
+                content: job.stopped ? full + STOPPED_NOTE : full,
+                route,
+                telemetry: summarizeTelemetry(usage ? [usage] : [], persona.activeId, sources),
+                citations: citations.length > 0 ? citations : undefined,
+            }, userId);
             setStreamingContent("");
             deepSearch.reset();
 
@@ -359,6 +756,8 @@ export function useChat() {
             }
 
             // Auto-save to memory if enabled (only for meaningful responses)
+            if (job.stopped) return;
+
             if (memoryEnabled && full.length > 50 && !full.startsWith("failed")) {
                 // Better memory format: structured with topic extraction
                 const memContent = `Topic: ${message.slice(0, 80)}\nQ: ${message}\nA: ${full.slice(0, 400)}`;
@@ -366,37 +765,85 @@ export function useChat() {
             }
 
             if (tts.isEnabled) tts.speak(full);
-        } catch (err) {
+        } catch (err: any) {
             console.error("gen error:", err);
-            chatStore.addMessage({
-                id: (Date.now() + 1).toString(),
-                role: "assistant",
-                content: "failed to generate response. try again.",
-            });
+            if (err?.name === "DeviceLostError") {
+                // keep what streamed so far; the engine reloads itself and the reply can resume
+                const messageId = (Date.now() + 1).toString();
+                chatStore.addMessage({ id: messageId, role: "assistant", content: full + INTERRUPTED_NOTE, route, citations: citations.length > 0 ? citations : undefined }, userId);
+                setInterrupted({ messageId, msgs, partial: full });
+                setStreamingContent("");
+            } else {
+                chatStore.addMessage({
+                    id: (Date.now() + 1).toString(),
+                    role: "assistant",
+                    content: "failed to generate response. try again.",
+                }, userId);
+            }
             deepSearch.reset();
         }
-    }, [input, isStreaming, webllm, chatStore, deepSearchEnabled, deepSearch, memory, memoryEnabled, handleImageGen, rag, tts, persona, agent, pyodide]);
+    }, [input, isStreaming, webllm, chatStore, deepSearchEnabled, deepSearch, memory, memoryEnabled, handleImageGen, rag, tts, persona, agent, pyodide, generation, router, pendingImages, compactHistory, knowledge, slashContext]);
+
+    // Re-send an edited user message as a new branch beside the original
+    const editMessage = useCallback((messageId: string, text: string) => {
+        const original = chatStore.messages.find(m => m.id === messageId);
+        if (!original || original.role !== "user" || !text.trim()) return;
+        handleSend(text.trim(), { parentId: original.parentId, images: original.images });
+    }, [chatStore.messages, handleSend]);
+
+    // Answer the same user message again; the old reply stays as a sibling branch
+    const regenerate = useCallback((messageId: string) => {
+        const reply = chatStore.messages.find(m => m.id === messageId);
+        const prompt = chatStore.messages.find(m => m.id === reply?.parentId);
+        if (!reply || reply.role !== "assistant" || !prompt || prompt.role !== "user") return;
+        handleSend(prompt.content, { parentId: prompt.parentId, images: prompt.images, replyTo: prompt.id });
+    }, [chatStore.messages, handleSend]);
+
+    // Continue an interrupted reply from its saved partial output (or rerun it if nothing came through)
+    const resumeInterrupted = useCallback(async () => {
+        const job = interrupted;
+        if (!job || isStreaming) return;
+        setInterrupted(null);
+
+        const continuing = job.partial.trim().length > 0;
+        const msgs = continuing
+            ? [...job.msgs, { role: "assistant", content: job.partial }, { role: "user", content: CONTINUE_PROMPT }]
+            : job.msgs;
+        let added = "";
+        try {
+            setStreamingContent(continuing ? "…" : "");
+            await webllm.generate(msgs, (tok) => {
+                added += tok;
+                setStreamingContent((continuing ? "…" : "") + added);
+            }, generation, {
+                label: "resume",
+                onQueued: (position) => setStreamingContent(`> waiting for the engine (#${position} in queue)...`),
+            });
+            chatStore.updateMessage(job.messageId, { content: job.partial + added });
+        } catch (err: any) {
+            console.error("resume error:", err);
+            if (err?.name === "DeviceLostError") {
+                chatStore.updateMessage(job.messageId, { content: job.partial + added + INTERRUPTED_NOTE });
+                setInterrupted({ ...job, partial: job.partial + added });
+            }
+        } finally {
+            setStreamingContent("");
+        }
+    }, [interrupted, isStreaming, webllm, chatStore, generation]);
 
     const handleStop = useCallback(() => {
+        // handleSend records whatever streamed so far, under the message it was answering
+        if (inFlightRef.current) inFlightRef.current.stopped = true;
         webllm.stop();
         deepSearch.stop();
         agent.reset();
-        // Save whatever was streamed so far
-        setStreamingContent(prev => {
-            if (prev && prev.trim()) {
-                chatStore.addMessage({
-                    id: (Date.now() + 1).toString(),
-                    role: "assistant",
-                    content: prev + "\n\n*[generation stopped]*",
-                });
-            }
-            return "";
-        });
+        setStreamingContent("");
         setGeneratingImage(false);
-    }, [webllm, deepSearch, chatStore, agent]);
+    }, [webllm, deepSearch, agent]);
 
     const handleNewChat = useCallback(() => {
         chatStore.newConversation();
+        setInterrupted(null);
         setStreamingContent("");
         deepSearch.reset();
     }, [chatStore, deepSearch]);
@@ -420,10 +867,17 @@ export function useChat() {
         generatingImage, imageProgress,
         deepSearchEnabled, setDeepSearchEnabled,
         memoryEnabled, setMemoryEnabled,
+        pyEnabled, setPyEnabled,
+        knowledge, setKnowledge, settings: liveSettings,
+        commandNotice, dismissCommandNotice: () => setCommandNotice(null),
+        slashSuggestions: (text: string) => suggestSlash(text, slashContext),
+        generation, selectProvider,
+        pendingImages, attachImage, removeImage, visionSupported,
+        interrupted: !!interrupted, resumeInterrupted, dismissInterrupted: () => setInterrupted(null),
 
         webllm, deepSearch, memory, pyodide, tts, rag, chatStore, persona, agent,
 
-        handleSend, handleNewChat, handleStop,
+        handleSend, handleNewChat, handleStop, editMessage, regenerate, retitle,
         handlePythonRun: runPython,
     };
 }
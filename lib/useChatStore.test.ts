@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { activeBranch, isConversationRecord, mergeConversations, migrate, type ChatMessage, type Conversation } from "@/lib/useChatStore";
+import type { ConversationSummary } from "@/lib/compaction";
+
+const msg = (id: string, parentId: string | null, role: ChatMessage["role"] = "user"): ChatMessage =>
+    ({ id, parentId, role, content: id, timestamp: 0 });
+
+const conv = (over: Partial<Conversation>): Conversation =>
+    ({ id: "c1", title: "t", nodes: [], activeLeafId: null, createdAt: 0, updatedAt: 0, ...over });
+
+const summary = (throughId: string, updatedAt: number): ConversationSummary =>
+    ({ text: `up to ${throughId}`, throughId, messageCount: 2, updatedAt });
+
+describe("migrate", () => {
+    it("chains a flat message list into a single branch", () => {
+        const { conv, changed } = migrate({
+            id: "c1", title: "old", createdAt: 1, updatedAt: 2,
+            messages: [{ id: "a", role: "user", content: "hi", timestamp: 0 }, { id: "b", role: "assistant", content: "hello", timestamp: 1 }],
+        });
+        expect(changed).toBe(true);
+        expect(conv.nodes.map(m => [m.id, m.parentId])).toEqual([["a", null], ["b", "a"]]);
+        expect(conv.activeLeafId).toBe("b");
+        expect(conv).not.toHaveProperty("messages");
+    });
+
+    it("leaves tree records alone", () => {
+        const stored = { id: "c1", title: "t", nodes: [msg("a", null)], activeLeafId: "a", createdAt: 1, updatedAt: 1 };
+        expect(migrate(stored)).toEqual({ conv: stored, changed: false });
+    });
+
+    it("gives an empty conversation no active leaf", () => {
+        expect(migrate({ id: "c1", title: "t", messages: [], createdAt: 1, updatedAt: 1 }).conv.activeLeafId).toBeNull();
+    });
+});
+
+describe("activeBranch", () => {
+    it("follows parents from the active leaf back to the root", () => {
+        const nodes = [msg("a", null), msg("b", "a", "assistant"), msg("b2", "a", "assistant"), msg("c", "b")];
+        const conv = { id: "c1", title: "t", nodes, activeLeafId: "b2", createdAt: 0, updatedAt: 0 };
+        expect(activeBranch(conv).map(m => m.id)).toEqual(["a", "b2"]);
+        expect(activeBranch({ ...conv, activeLeafId: "c" }).map(m => m.id)).toEqual(["a", "b", "c"]);
+    });
+});
+
+describe("isConversationRecord", () => {
+    it("accepts tree records and pre-branching ones", () => {
+        expect(isConversationRecord({ id: "c1", title: "t", nodes: [msg("a", null)] })).toBe(true);
+        expect(isConversationRecord({ id: "c1", title: "t", messages: [{ id: "a", role: "user", content: "hi" }] })).toBe(true);
+    });
+
+    it.each([
+        ["null", null],
+        ["a string", "conv"],
+        ["no id", { title: "t", nodes: [] }],
+        ["no title", { id: "c1", nodes: [] }],
+        ["no messages", { id: "c1", title: "t" }],
+        ["a null message", { id: "c1", title: "t", nodes: [null] }],
+        ["a message without content", { id: "c1", title: "t", nodes: [{ id: "a" }] }],
+    ])("rejects %s", (_, record) => {
+        expect(isConversationRecord(record)).toBe(false);
+    });
+});
+
+describe("mergeConversations", () => {
+    it("keeps messages either copy added, newer fields winning", () => {
+        const older = conv({ nodes: [msg("a", null), msg("b", "a")], title: "old", updatedAt: 5 });
+        const newer = conv({ nodes: [msg("a", null), msg("c", "a")], title: "new", activeLeafId: "c", updatedAt: 3 });
+        const merged = mergeConversations(older, newer);
+        expect(merged.nodes.map(m => m.id)).toEqual(["a", "c", "b"]);
+        expect(merged.title).toBe("new");
+        expect(merged.activeLeafId).toBe("c");
+        expect(merged.updatedAt).toBe(5);
+    });
+
+    it("keeps a title the user typed over a generated one", () => {
+        const merged = mergeConversations(conv({ title: "Mine", titleSource: "user" }), conv({ title: "Generated", titleSource: "model" }));
+        expect(merged).toMatchObject({ title: "Mine", titleSource: "user" });
+    });
+
+    it("doesn't bring back a summary the newer copy removed", () => {
+        const older = conv({ summaries: [summary("b", 10)] });
+        const newer = conv({ summaries: [], removed: { summaries: { b: 20 } } });
+        expect(mergeConversations(older, newer).summaries).toEqual([]);
+        // nor when the copies meet the other way round, as a write in flight lands
+        expect(mergeConversations(newer, older).summaries).toEqual([]);
+    });
+
+    it("keeps a summary saved again after its removal", () => {
+        const older = conv({ removed: { summaries: { b: 20 } } });
+        const newer = conv({ summaries: [summary("b", 30)] });
+        expect(mergeConversations(older, newer).summaries).toEqual([summary("b", 30)]);
+    });
+
+    it("drops removed messages and carries the tombstones forward", () => {
+        const older = conv({ nodes: [msg("a", null), msg("b", "a")] });
+        const newer = conv({ nodes: [msg("a", null)], removed: { nodes: ["b"] } });
+        const merged = mergeConversations(older, newer);
+        expect(merged.nodes.map(m => m.id)).toEqual(["a"]);
+        expect(merged.removed?.nodes).toEqual(["b"]);
+    });
+
+    it("keeps the later removal time when both copies removed a summary", () => {
+        const merged = mergeConversations(conv({ removed: { summaries: { b: 40 } } }), conv({ removed: { summaries: { b: 20 } } }));
+        expect(merged.removed?.summaries).toEqual({ b: 40 });
+    });
+});
@@ -1,19 +1,84 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type { GenerationOptions, TurnUsage } from "@/lib/useWebLLM";
+import type { ProviderSelection } from "@/lib/inferenceProvider";
+import type { RouteDecision } from "@/lib/useModelRouter";
+import { createSearchIndex, type SearchFilters, type SearchHit } from "@/lib/searchIndex";
+import { pickSummary, storeSummary, type ConversationSummary } from "@/lib/compaction";
+import type { ConversationSettings } from "@/lib/conversationSettings";
+import { broadcast, subscribe } from "@/lib/crossTab";
+import type { Citation } from "@/lib/citations";
 
-interface ChatMessage {
+export type ContextSource = "rag" | "search" | "memory";
+
+// How an assistant reply was produced. Agent replies sum tokens over every
+// LLM call in the loop; timings are from the first call.
+export interface MessageTelemetry {
+    modelId: string | null;
+    personaId: string;
+    ttftMs?: number;
+    prefillTps?: number;
+    decodeTps?: number;
+    promptTokens: number;
+    completionTokens: number;
+    calls: number;              // generate() calls behind this reply
+    sources: ContextSource[];   // context injected into the prompt (or fetched by agent tools)
+}
+
+export interface ChatMessage {
     id: string;
+    parentId: string | null;    // previous message on this branch; null for the first
     role: "user" | "assistant";
     content: string;
-    image?: string;
+    image?: string;             // assistant replies: a generated image
+    images?: string[];          // user messages: attached images (data URLs)
+    route?: RouteDecision;      // assistant replies: why this model answered
+    telemetry?: MessageTelemetry;
+    citations?: Citation[];     // assistant replies: the numbered sources in their prompt
     timestamp: number;
 }
 
-interface Conversation {
+// Fold the usage reports of one reply's generate() calls into its telemetry
+export function summarizeTelemetry(turns: TurnUsage[], personaId: string, sources: ContextSource[]): MessageTelemetry | undefined {
+    if (turns.length === 0) return undefined;
+    const [first] = turns;
+    const decode = turns.filter(t => t.decodeTps !== undefined);
+    return {
+        modelId: first.modelId ?? null,
+        personaId,
+        ttftMs: first.ttftMs,
+        prefillTps: first.prefillTps,
+        decodeTps: decode.length ? Math.round(decode.reduce((n, t) => n + t.decodeTps!, 0) / decode.length * 10) / 10 : undefined,
+        promptTokens: turns.reduce((n, t) => n + t.promptTokens, 0),
+        completionTokens: turns.reduce((n, t) => n + t.completionTokens, 0),
+        calls: turns.length,
+        sources,
+    };
+}
+
+// Where a title came from: the first message cut short, the model, or the
+// user. A user's rename is final — nothing generated replaces it.
+export type TitleSource = "prompt" | "model" | "user";
+
+// A conversation is a tree: editing a user message or regenerating a reply adds
+// a sibling under the same parent instead of overwriting it. `nodes` holds every
+// branch in creation order; what's on screen is the path from the root down to
+// `activeLeafId`.
+export interface Conversation {
     id: string;
     title: string;
-    messages: ChatMessage[];
+    titleSource?: TitleSource;          // unset on chats from before titles were generated
+    nodes: ChatMessage[];
+    activeLeafId: string | null;
+    summaries?: ConversationSummary[];  // compacted history, one per branch that overflowed
+    // deletions, so merging with a copy that still has them doesn't bring them back:
+    // message ids, and removed summaries by throughId → when they were removed
+    removed?: { nodes?: string[]; summaries?: Record<string, number> };
+    generation?: GenerationOptions;
+    provider?: ProviderSelection;
+    settings?: ConversationSettings;
+    version?: number;                   // bumped on every write; see persist()
     createdAt: number;
     updatedAt: number;
 }
@@ -38,6 +103,130 @@ function openDB(): Promise<IDBDatabase> {
     });
 }
 
+// Position of a message among its siblings, for "< 2/3 >" navigation
+export interface BranchInfo {
+    index: number;
+    count: number;
+    siblingIds: string[];
+}
+
+// Enough of a conversation to migrate and show: an id, a title and a list of
+// messages (`nodes`, or `messages` from before branching) that each have an id
+export function isConversationRecord(record: unknown): boolean {
+    if (!record || typeof record !== "object") return false;
+    const r = record as any;
+    const list = Array.isArray(r.nodes) ? r.nodes : r.messages;
+    return typeof r.id === "string" && typeof r.title === "string" && Array.isArray(list)
+        && list.every((m: any) => m && typeof m === "object" && typeof m.id === "string" && typeof m.content === "string");
+}
+
+// Records saved before branching kept a flat `messages` array — chain it into
+// a single branch
+export function migrate(stored: any): { conv: Conversation; changed: boolean } {
+    if (Array.isArray(stored.nodes)) return { conv: stored, changed: false };
+    const { messages = [], ...rest } = stored;
+    const nodes: ChatMessage[] = messages.map((m: ChatMessage, i: number) => ({ ...m, parentId: i > 0 ? messages[i - 1].id : null }));
+    return {
+        conv: { ...rest, nodes, activeLeafId: nodes.length ? nodes[nodes.length - 1].id : null },
+        changed: true,
+    };
+}
+
+// Fold two copies of one conversation together: `newer`'s fields win, but nothing
+// either copy added is lost — nodes and summaries are unions less what either
+// copy removed, and a title the user typed beats a generated one
+export function mergeConversations(older: Conversation, newer: Conversation): Conversation {
+    const removedNodes = new Set([...(older.removed?.nodes ?? []), ...(newer.removed?.nodes ?? [])]);
+    const removedSummaries: Record<string, number> = { ...older.removed?.summaries };
+    for (const [id, at] of Object.entries(newer.removed?.summaries ?? {})) {
+        removedSummaries[id] = Math.max(removedSummaries[id] ?? 0, at);
+    }
+
+    const newerIds = new Set(newer.nodes.map(m => m.id));
+    const olderOnly = older.nodes.filter(m => !newerIds.has(m.id));
+    const nodes = [...newer.nodes, ...olderOnly].filter(m => !removedNodes.has(m.id));
+
+    // a summary saved again after its removal (a fresh compaction) stays
+    const newerThrough = new Set((newer.summaries ?? []).map(x => x.throughId));
+    const olderSummaries = (older.summaries ?? []).filter(x => !newerThrough.has(x.throughId));
+    const summaries = [...olderSummaries, ...(newer.summaries ?? [])]
+        .filter(x => x.updatedAt > (removedSummaries[x.throughId] ?? -1));
+
+    const removed = removedNodes.size || Object.keys(removedSummaries).length
+        ? { nodes: Array.from(removedNodes), summaries: removedSummaries }
+        : undefined;
+    const keepTitle = older.titleSource === "user" && newer.titleSource !== "user";
+    return {
+        ...newer,
+        nodes,
+        summaries: summaries.length || newer.summaries ? summaries : undefined,
+        removed,
+        ...(keepTitle ? { title: older.title, titleSource: older.titleSource } : {}),
+        activeLeafId: newer.activeLeafId ?? older.activeLeafId,
+        updatedAt: Math.max(older.updatedAt, newer.updatedAt),
+    };
+}
+
+async function readConversation(id: string): Promise<Conversation | undefined> {
+    let db: IDBDatabase | null = null;
+    try {
+        db = await openDB();
+        const req = db.transaction(STORE, "readonly").objectStore(STORE).get(id);
+        return await new Promise(resolve => {
+            req.onsuccess = () => resolve(req.result ? migrate(req.result).conv : undefined);
+            req.onerror = () => resolve(undefined);
+        });
+    } catch {
+        return undefined;
+    } finally {
+        db?.close();
+    }
+}
+
+function pathTo(nodes: ChatMessage[], leafId: string | null): ChatMessage[] {
+    const byId = new Map(nodes.map(m => [m.id, m]));
+    const path: ChatMessage[] = [];
+    for (let m = leafId ? byId.get(leafId) : undefined; m; m = m.parentId ? byId.get(m.parentId) : undefined) {
+        path.push(m);
+    }
+    return path.reverse();
+}
+
+// The messages on screen: root down to the active leaf
+export function activeBranch(conv: Conversation): ChatMessage[] {
+    return pathTo(conv.nodes, conv.activeLeafId);
+}
+
+// Follow the newest child at each step — switching to a branch shows its latest continuation
+function latestLeaf(nodes: ChatMessage[], id: string): string {
+    let leaf = id;
+    for (; ;) {
+        const children = nodes.filter(m => m.parentId === leaf);
+        if (children.length === 0) return leaf;
+        leaf = children[children.length - 1].id;
+    }
+}
+
+// One index for the page, shared by every mount of the hook
+const searchIndex = createSearchIndex();
+
+function indexMessage(convId: string, m: ChatMessage) {
+    searchIndex.upsert({
+        convId,
+        messageId: m.id,
+        parentId: m.parentId,
+        role: m.role,
+        content: m.content,
+        timestamp: m.timestamp,
+        personaId: m.telemetry?.personaId,
+        modelId: m.telemetry?.modelId,
+    });
+}
+
+export interface ConversationSearchHit extends SearchHit {
+    title: string;
+}
+
 function titleFrom(text: string): string {
     const s = text.replace(/\n/g, " ").trim();
     return s.length > 40 ? s.slice(0, 40) + "..." : s;
@@ -47,6 +236,13 @@ export function useChatStore() {
     const [conversations, setConversations] = useState<Conversation[]>([]);
     const [activeId, _setActiveId] = useState<string | null>(null);
     const [isLoaded, setIsLoaded] = useState(false);
+    // generation params picked before the first message — applied when the conversation is created
+    const [pendingGeneration, setPendingGeneration] = useState<GenerationOptions | undefined>(undefined);
+    const pendingGenerationRef = useRef<GenerationOptions | undefined>(undefined);
+    // provider in use when the first message is sent — recorded on the new conversation
+    const pendingProviderRef = useRef<ProviderSelection | undefined>(undefined);
+    // same for model/persona/tools — a new chat is created with whatever was set up beforehand
+    const pendingSettingsRef = useRef<ConversationSettings | undefined>(undefined);
 
     // keep a ref so addMessage always sees the latest activeId
     // without waiting for a React re-render cycle
@@ -69,8 +265,21 @@ export function useChatStore() {
                 const tx = db.transaction(STORE, "readonly");
                 const req = tx.objectStore(STORE).getAll();
                 req.onsuccess = () => {
-                    const all = (req.result || []).sort((a: Conversation, b: Conversation) => b.updatedAt - a.updatedAt);
+                    const loaded = (req.result || []).map(migrate);
+                    const all = loaded.map(l => l.conv).sort((a, b) => b.updatedAt - a.updatedAt);
                     setConversations(all);
+                    searchIndex.clear();
+                    all.forEach(c => c.nodes.forEach(m => indexMessage(c.id, m)));
+
+                    const migrated = loaded.filter(l => l.changed);
+                    if (migrated.length > 0) {
+                        const wtx = db!.transaction(STORE, "readwrite");
+                        migrated.forEach(l => wtx.objectStore(STORE).put(l.conv));
+                        wtx.oncomplete = () => db?.close();
+                        wtx.onerror = () => db?.close();
+                    } else {
+                        db?.close();
+                    }
 
                     // restore persisted active conversation
                     let stored: string | null = null;
@@ -88,7 +297,6 @@ export function useChatStore() {
                     }
 
                     setIsLoaded(true);
-                    db?.close();
                 };
                 tx.onerror = () => { setIsLoaded(true); db?.close(); };
             } catch {
@@ -99,23 +307,86 @@ export function useChatStore() {
     }, [setActiveId]);
 
     const active = conversations.find(c => c.id === activeId) || null;
-    const messages = active?.messages || [];
+    const nodes = active?.nodes;
+    const activeLeafId = active?.activeLeafId ?? null;
+    const messages = useMemo(() => nodes ? pathTo(nodes, activeLeafId) : [], [nodes, activeLeafId]);
+    const activeSummary = useMemo(() => pickSummary(messages, active?.summaries), [messages, active?.summaries]);
+    const generation = active ? active.generation : pendingGeneration;
+    const provider = active?.provider;
+    const settings = active?.settings;
 
+    // Drop a conversation that no longer exists (deleted here or in another tab)
+    const forget = useCallback((id: string) => {
+        setConversations(prev => prev.filter(c => c.id !== id));
+        searchIndex.removeConversation(id);
+        if (activeRef.current === id) setActiveId(null);
+    }, [setActiveId]);
+
+    // Every write is checked against the stored record: `version` must still be
+    // the one this copy was based on. If another tab has written since, the two
+    // copies are merged and the merge is written; if another tab deleted the
+    // conversation, the write is refused rather than bringing it back.
+    // Resolves once the transaction is over and the result is in state.
     const persist = useCallback(async (conv: Conversation) => {
         let db: IDBDatabase | null = null;
         try {
-            db = await openDB();
-            const tx = db.transaction(STORE, "readwrite");
-            tx.objectStore(STORE).put(conv);
-            tx.oncomplete = () => db?.close();
-            tx.onerror = () => db?.close();
+            const conn = db = await openDB();
+            await new Promise<void>(resolve => {
+                const tx = conn.transaction(STORE, "readwrite");
+                const store = tx.objectStore(STORE);
+                let written: Conversation | null = null;
+                const req = store.get(conv.id);
+                req.onsuccess = () => {
+                    const stored: Conversation | undefined = req.result ? migrate(req.result).conv : undefined;
+                    const base = conv.version ?? 0;
+                    if (!stored && base > 0) return;
+                    const storedVersion = stored?.version ?? 0;
+                    const next = stored && storedVersion !== base ? mergeConversations(stored, conv) : conv;
+                    written = { ...next, version: storedVersion + 1 };
+                    store.put(written);
+                };
+                tx.oncomplete = () => {
+                    const w = written as Conversation | null;
+                    if (!w) {
+                        forget(conv.id);
+                    } else {
+                        // keep local edits made while this write was in flight
+                        setConversations(prev => prev.map(c => c.id === w.id ? { ...mergeConversations(w, c), version: w.version } : c));
+                        broadcast({ topic: "chat", kind: "put", id: w.id, version: w.version });
+                    }
+                    resolve();
+                };
+                tx.onerror = () => resolve();
+            });
         } catch {
+            // not persisted; the copy in state stays as it is
+        } finally {
             db?.close();
         }
-    }, []);
+    }, [forget]);
+
+    // Another tab wrote or deleted a conversation: re-read it and fold it in
+    useEffect(() => subscribe("chat", async (msg) => {
+        if (!msg.id) return;
+        if (msg.kind === "delete") {
+            forget(msg.id);
+            return;
+        }
+        const stored = await readConversation(msg.id);
+        if (!stored) return;
+        setConversations(prev => {
+            const local = prev.find(c => c.id === stored.id);
+            if (local && (local.version ?? 0) >= (stored.version ?? 0)) return prev;
+            const next = local ? { ...mergeConversations(local, stored), version: stored.version } : stored;
+            next.nodes.forEach(m => indexMessage(next.id, m));
+            return local ? prev.map(c => c.id === next.id ? next : c) : [next, ...prev];
+        });
+    }), [forget]);
 
-    const addMessage = useCallback((msg: Omit<ChatMessage, "timestamp">) => {
-        const message: ChatMessage = { ...msg, timestamp: Date.now() };
+    // Appends under the active leaf, or under `parentId` to start a sibling
+    // branch; either way the new message becomes the active leaf
+    const addMessage = useCallback((msg: Omit<ChatMessage, "timestamp" | "parentId">, parentId?: string | null) => {
+        const message: ChatMessage = { ...msg, parentId: parentId ?? null, timestamp: Date.now() };
 
         setConversations(prev => {
             let convs = [...prev];
@@ -127,24 +398,34 @@ export function useChatStore() {
                 conv = {
                     id,
                     title: msg.role === "user" ? titleFrom(msg.content) : "New chat",
-                    messages: [message],
+                    titleSource: msg.role === "user" ? "prompt" : undefined,
+                    nodes: [message],
+                    activeLeafId: message.id,
+                    generation: pendingGenerationRef.current,
+                    provider: pendingProviderRef.current,
+                    settings: pendingSettingsRef.current,
                     createdAt: Date.now(),
                     updatedAt: Date.now(),
                 };
                 convs = [conv, ...convs];
                 // sync ref immediately so the next addMessage finds this conv
                 setActiveId(id);
+                pendingGenerationRef.current = undefined;
+                setPendingGeneration(undefined);
             } else {
+                message.parentId = parentId !== undefined ? parentId : conv.activeLeafId;
                 conv = {
                     ...conv,
-                    messages: [...conv.messages, message],
+                    nodes: [...conv.nodes, message],
+                    activeLeafId: message.id,
                     updatedAt: Date.now(),
-                    title: conv.title === "New chat" && msg.role === "user" ? titleFrom(msg.content) : conv.title,
+                    ...(conv.title === "New chat" && msg.role === "user" ? { title: titleFrom(msg.content), titleSource: "prompt" as const } : {}),
                 };
                 convs = convs.map(c => c.id === conv!.id ? conv! : c);
             }
 
             persist(conv);
+            indexMessage(conv.id, message);
             return convs;
         });
 
@@ -158,16 +439,203 @@ export function useChatStore() {
                 if (conv.id !== id) return conv;
                 return {
                     ...conv,
-                    messages: conv.messages.map(m => m.id === messageId ? { ...m, ...update } : m),
+                    nodes: conv.nodes.map(m => m.id === messageId ? { ...m, ...update } : m),
                     updatedAt: Date.now(),
                 };
             });
             const updated = convs.find(c => c.id === id);
+            if (updated) {
+                persist(updated);
+                const message = updated.nodes.find(m => m.id === messageId);
+                if (message) indexMessage(updated.id, message);
+            }
+            return convs;
+        });
+    }, [persist]);
+
+    const branchInfo = useCallback((messageId: string): BranchInfo | null => {
+        const node = nodes?.find(m => m.id === messageId);
+        if (!node) return null;
+        const siblingIds = nodes!.filter(m => m.parentId === node.parentId).map(m => m.id);
+        return { index: siblingIds.indexOf(messageId), count: siblingIds.length, siblingIds };
+    }, [nodes]);
+
+    // Show the branch that runs through `messageId`
+    const selectBranch = useCallback((messageId: string) => {
+        setConversations(prev => {
+            const id = activeRef.current;
+            const convs = prev.map(conv => {
+                if (conv.id !== id || !conv.nodes.some(m => m.id === messageId)) return conv;
+                return { ...conv, activeLeafId: latestLeaf(conv.nodes, messageId) };
+            });
+            const updated = convs.find(c => c.id === id);
+            if (updated) persist(updated);
+            return convs;
+        });
+    }, [persist]);
+
+    // Messages from the root down to (and including) `messageId` — the history
+    // a new branch under that message is built on
+    const pathToMessage = useCallback((messageId: string | null): ChatMessage[] => {
+        return nodes && messageId ? pathTo(nodes, messageId) : [];
+    }, [nodes]);
+
+    // Ranked matches across every conversation and branch
+    const search = useCallback((query: string, filters?: SearchFilters): ConversationSearchHit[] => {
+        const titles = new Map(conversations.map(c => [c.id, c.title]));
+        return searchIndex.search(query, filters)
+            .filter(hit => titles.has(hit.convId))
+            .map(hit => ({ ...hit, title: titles.get(hit.convId)! }));
+    }, [conversations]);
+
+    const searchFacets = useCallback(() => searchIndex.facets(), []);
+
+    // Open a conversation on the branch that contains `messageId`
+    const jumpToMessage = useCallback((convId: string, messageId: string) => {
+        setActiveId(convId);
+        setConversations(prev => prev.map(conv => {
+            if (conv.id !== convId || !conv.nodes.some(m => m.id === messageId)) return conv;
+            // keep the current branch if the message is already on it
+            if (pathTo(conv.nodes, conv.activeLeafId).some(m => m.id === messageId)) return conv;
+            const updated = { ...conv, activeLeafId: latestLeaf(conv.nodes, messageId) };
+            persist(updated);
+            return updated;
+        }));
+    }, [persist, setActiveId]);
+
+    // Save a compaction (or an edit of one) on the active conversation
+    const saveSummary = useCallback((summary: ConversationSummary) => {
+        const id = activeRef.current;
+        setConversations(prev => {
+            const convs = prev.map(c => c.id === id ? { ...c, summaries: storeSummary(c.summaries, summary) } : c);
+            const updated = convs.find(c => c.id === id);
+            if (updated) persist(updated);
+            return convs;
+        });
+    }, [persist]);
+
+    const removeSummary = useCallback((throughId: string) => {
+        const id = activeRef.current;
+        setConversations(prev => {
+            const convs = prev.map(c => c.id !== id ? c : {
+                ...c,
+                summaries: (c.summaries ?? []).filter(s => s.throughId !== throughId),
+                removed: { ...c.removed, summaries: { ...c.removed?.summaries, [throughId]: Date.now() } },
+            });
+            const updated = convs.find(c => c.id === id);
+            if (updated) persist(updated);
+            return convs;
+        });
+    }, [persist]);
+
+    const setGeneration = useCallback((opts: GenerationOptions | undefined) => {
+        const id = activeRef.current;
+        if (!id) {
+            pendingGenerationRef.current = opts;
+            setPendingGeneration(opts);
+            return;
+        }
+        setConversations(prev => {
+            const convs = prev.map(c => c.id === id ? { ...c, generation: opts } : c);
+            const updated = convs.find(c => c.id === id);
+            if (updated) persist(updated);
+            return convs;
+        });
+    }, [persist]);
+
+    const setProvider = useCallback((selection: ProviderSelection) => {
+        const id = activeRef.current;
+        if (!id) {
+            pendingProviderRef.current = selection;
+            return;
+        }
+        setConversations(prev => {
+            const convs = prev.map(c => c.id === id ? { ...c, provider: selection } : c);
+            const updated = convs.find(c => c.id === id);
             if (updated) persist(updated);
             return convs;
         });
     }, [persist]);
 
+    // Restore conversations from a JSON export. A conversation already here
+    // unchanged is skipped; one whose id is taken by different content is
+    // imported under a fresh id, so nothing local is overwritten.
+    const importConversations = useCallback(async (records: unknown[]) => {
+        const existing = new Map(conversations.map(c => [c.id, c]));
+        const imported: Conversation[] = [];
+        let skipped = 0;
+        let invalid = 0;
+
+        for (const record of records) {
+            if (!isConversationRecord(record)) {
+                invalid++;
+                continue;
+            }
+            const { conv } = migrate(record);
+            const clash = existing.get(conv.id);
+            if (clash && clash.updatedAt === conv.updatedAt && clash.nodes.length === conv.nodes.length) {
+                skipped++;
+                continue;
+            }
+            // message ids only need to be unique within their conversation; children
+            // of a repeated id stay attached to its first occurrence
+            const seen = new Set<string>();
+            const nodes = conv.nodes.map(m => {
+                const id = seen.has(m.id) ? `${m.id}_${Math.random().toString(36).slice(2, 6)}` : m.id;
+                seen.add(id);
+                return id === m.id ? m : { ...m, id };
+            });
+
+            const id = clash ? `conv_${Date.now()}_${Math.random().toString(36).slice(2, 6)}` : conv.id;
+            // a fresh record here, whatever version it had where it was exported
+            const restored: Conversation = { ...conv, id, nodes, version: undefined };
+            existing.set(id, restored);
+            imported.push(restored);
+        }
+
+        // in state first, so each write's version lands on its conversation
+        if (imported.length > 0) {
+            setConversations(prev => [...prev, ...imported].sort((a, b) => b.updatedAt - a.updatedAt));
+        }
+        for (const conv of imported) {
+            await persist(conv);
+            conv.nodes.forEach(m => indexMessage(conv.id, m));
+        }
+        return { imported: imported.length, skipped, invalid };
+    }, [conversations, persist]);
+
+    const setSettings = useCallback((next: ConversationSettings) => {
+        const id = activeRef.current;
+        if (!id) {
+            pendingSettingsRef.current = next;
+            return;
+        }
+        setConversations(prev => {
+            const convs = prev.map(c => c.id === id ? { ...c, settings: next } : c);
+            const updated = convs.find(c => c.id === id);
+            if (updated) persist(updated);
+            return convs;
+        });
+    }, [persist]);
+
+    // titles don't touch updatedAt: renaming shouldn't reorder the sidebar
+    const updateTitle = useCallback((id: string, title: string, source: TitleSource) => {
+        setConversations(prev => {
+            const conv = prev.find(c => c.id === id);
+            // generated titles never replace a rename, even one made while generating
+            if (!conv || (source === "model" && conv.titleSource === "user")) return prev;
+            const updated = { ...conv, title, titleSource: source };
+            persist(updated);
+            return prev.map(c => c.id === id ? updated : c);
+        });
+    }, [persist]);
+
+    const renameConversation = useCallback((id: string, title: string) => {
+        if (title.trim()) updateTitle(id, title.trim(), "user");
+    }, [updateTitle]);
+
+    const setGeneratedTitle = useCallback((id: string, title: string) => updateTitle(id, title, "model"), [updateTitle]);
+
     const newConversation = useCallback(() => setActiveId(null), [setActiveId]);
 
     const switchConversation = useCallback((id: string) => setActiveId(id), [setActiveId]);
@@ -183,14 +651,17 @@ export function useChatStore() {
         } catch {
             db?.close();
         }
-        setConversations(prev => prev.filter(c => c.id !== id));
-        if (activeRef.current === id) setActiveId(null);
-    }, [setActiveId]);
+        forget(id);
+        broadcast({ topic: "chat", kind: "delete", id });
+    }, [forget]);
 
     return {
-        conversations, activeId, messages, isLoaded,
+        conversations, activeId, messages, isLoaded, generation, provider, settings, activeSummary,
         activeConversation: active,
-        addMessage, updateMessage,
+        addMessage, updateMessage, setGeneration, setProvider, setSettings,
+        branchInfo, selectBranch, pathToMessage,
+        search, searchFacets, jumpToMessage, importConversations,
+        saveSummary, removeSummary, renameConversation, setGeneratedTitle,
         newConversation, switchConversation, deleteConversation,
     };
 }
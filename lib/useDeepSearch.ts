@@ -13,6 +13,13 @@ interface SearchResult {
     source?: string;
 }
 
+// content[i] with the page it came from, so answers can cite it
+export interface SearchPassage {
+    title: string;
+    url: string;
+    text: string;
+}
+
 interface DeepSearchState {
     phase: SearchPhase;
     query: string;
@@ -144,6 +151,7 @@ export function useDeepSearch() {
             return {
                 results: data.results,
                 content: contents,
+                passages: (data.passages || []) as SearchPassage[],
                 sources,
                 summary: data.summary,
             };
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
+import { broadcast, subscribe } from "@/lib/crossTab";
 
 interface Memory {
     id: string;
@@ -153,6 +154,17 @@ export function useMemory() {
         })();
     }, []);
 
+    // Memories are write-once — only ever added or deleted by id — so another
+    // tab's change can't conflict with ours; it just has to show up here
+    useEffect(() => subscribe("memory", (msg) => {
+        if (msg.kind === "delete" && msg.id) {
+            setMemories(prev => prev.filter(m => m.id !== msg.id));
+        } else if (msg.kind === "put" && msg.payload) {
+            const memory = msg.payload as Memory;
+            setMemories(prev => prev.some(m => m.id === memory.id) ? prev : [...prev, memory]);
+        }
+    }), []);
+
     const saveMemory = useCallback(async (content: string, tags: string[] = []) => {
         const memory: Memory = {
             id: `m_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
@@ -168,7 +180,10 @@ export function useMemory() {
             db = await openDB();
             const tx = db.transaction(STORE_NAME, "readwrite");
             tx.objectStore(STORE_NAME).add(memory);
-            tx.oncomplete = () => db?.close();
+            tx.oncomplete = () => {
+                db?.close();
+                broadcast({ topic: "memory", kind: "put", id: memory.id, payload: memory });
+            };
             tx.onerror = () => db?.close();
             setMemories(prev => [...prev, memory]);
             return memory;
@@ -184,7 +199,10 @@ export function useMemory() {
             db = await openDB();
             const tx = db.transaction(STORE_NAME, "readwrite");
             tx.objectStore(STORE_NAME).delete(id);
-            tx.oncomplete = () => db?.close();
+            tx.oncomplete = () => {
+                db?.close();
+                broadcast({ topic: "memory", kind: "delete", id });
+            };
             tx.onerror = () => db?.close();
             setMemories(prev => prev.filter(m => m.id !== id));
         } catch {
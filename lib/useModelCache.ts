@@ -0,0 +1,195 @@
+"use client";
+
+import { create } from "zustand";
+import * as webllm from "@mlc-ai/web-llm";
+import { getModelLastUsed, getAppConfig, findModelRecord, modelBaseUrl } from "@/lib/useWebLLM";
+import { getModelCatalog, useModelRegistry } from "@/lib/useModelRegistry";
+
+// ─── Model cache manager ────────────────────────────────────────────
+// WebLLM keeps downloaded artifacts in Cache Storage, keyed by URL:
+//   webllm/model  — tensor-cache.json, weight shards, tokenizer files
+//   webllm/config — mlc-chat-config.json
+//   webllm/wasm   — the compiled model library
+// We walk those scopes and attribute each entry to a catalog model by URL.
+// Anything we can't attribute (stale wasm versions, models that were dropped
+// from the catalog) is reported as an orphan so it can be reclaimed.
+
+const CACHE_SCOPES = ["webllm/model", "webllm/config", "webllm/wasm"] as const;
+
+export interface CachedModel {
+    id: string;
+    label: string;
+    bytes: number;            // on-disk size of every entry attributed to this model
+    complete: boolean;        // all weight shards present — loads without network
+    lastUsed: number | null;
+}
+
+export interface OrphanEntry {
+    scope: string;
+    url: string;
+    bytes: number;
+}
+
+interface ModelCacheState {
+    models: CachedModel[];
+    orphans: OrphanEntry[];
+    usage: number;            // bytes used by this origin (all storage, not just models)
+    quota: number;
+    isScanning: boolean;
+    downloads: Record<string, number>;   // modelId → progress 0..1
+    error: string | null;
+
+    // Actions
+    scan: () => Promise<void>;
+    remove: (modelId: string) => Promise<void>;
+    removeOrphans: () => Promise<void>;
+    prefetch: (modelId: string) => Promise<void>;
+}
+
+async function entrySize(cache: Cache, req: Request): Promise<number> {
+    const res = await cache.match(req);
+    if (!res) return 0;
+    const len = Number(res.headers.get("content-length"));
+    if (len > 0) return len;
+    return (await res.blob()).size;
+}
+
+// Fetch into a cache scope unless it's already there
+async function ensureCached(cache: Cache, url: string): Promise<void> {
+    if (await cache.match(url)) return;
+    await cache.add(url);
+}
+
+export const useModelCache = create<ModelCacheState>((set, get) => ({
+    models: [],
+    orphans: [],
+    usage: 0,
+    quota: 0,
+    isScanning: false,
+    downloads: {},
+    error: null,
+
+    scan: async () => {
+        if (typeof caches === "undefined" || get().isScanning) return;
+        set({ isScanning: true, error: null });
+
+        try {
+            // custom models count as owners too: without them their weights would look orphaned
+            await useModelRegistry.getState().init();
+            const catalog = getModelCatalog()
+                .map(m => ({ model: m, record: findModelRecord(m.id) }))
+                .filter((x): x is { model: typeof x.model; record: webllm.ModelRecord } => !!x.record)
+                .map(x => ({ ...x, base: modelBaseUrl(x.record) }));
+
+            const sizes: Record<string, number> = {};
+            const orphans: OrphanEntry[] = [];
+
+            for (const scope of CACHE_SCOPES) {
+                const cache = await caches.open(scope);
+                for (const req of await cache.keys()) {
+                    const bytes = await entrySize(cache, req);
+                    const owner = catalog.find(c => scope === "webllm/wasm"
+                        ? c.record.model_lib === req.url
+                        : req.url.startsWith(c.base));
+                    if (owner) {
+                        sizes[owner.model.id] = (sizes[owner.model.id] || 0) + bytes;
+                    } else {
+                        orphans.push({ scope, url: req.url, bytes });
+                    }
+                }
+            }
+
+            const lastUsed = getModelLastUsed();
+            const models: CachedModel[] = [];
+            for (const { model } of catalog) {
+                const bytes = sizes[model.id] || 0;
+                models.push({
+                    id: model.id,
+                    label: model.label,
+                    bytes,
+                    complete: bytes > 0 && await webllm.hasModelInCache(model.id, getAppConfig()),
+                    lastUsed: lastUsed[model.id] ?? null,
+                });
+            }
+
+            const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+            set({ models, orphans, usage: estimate.usage || 0, quota: estimate.quota || 0 });
+        } catch (e: any) {
+            console.error("Model cache scan failed:", e);
+            set({ error: e.message || "Failed to read model cache" });
+        } finally {
+            set({ isScanning: false });
+        }
+    },
+
+    remove: async (modelId: string) => {
+        try {
+            await webllm.deleteModelAllInfoInCache(modelId, getAppConfig());
+        } catch (e: any) {
+            set({ error: `Failed to delete ${modelId}: ${e.message}` });
+        }
+        await get().scan();
+    },
+
+    removeOrphans: async () => {
+        const { orphans } = get();
+        for (const o of orphans) {
+            try {
+                const cache = await caches.open(o.scope);
+                await cache.delete(o.url);
+            } catch (e) {
+                console.warn("Orphan delete failed:", o.url, e);
+            }
+        }
+        await get().scan();
+    },
+
+    // Download weights, config, tokenizer and wasm into the same cache entries
+    // WebLLM reads from — a later loadModel() then needs no network at all.
+    prefetch: async (modelId: string) => {
+        const record = findModelRecord(modelId);
+        if (!record || get().downloads[modelId] !== undefined) return;
+
+        const setProgress = (p: number | undefined) => set(s => {
+            const downloads = { ...s.downloads };
+            if (p === undefined) delete downloads[modelId];
+            else downloads[modelId] = p;
+            return { downloads };
+        });
+
+        setProgress(0);
+        try {
+            const base = modelBaseUrl(record);
+            const modelCache = await caches.open("webllm/model");
+            const configCache = await caches.open("webllm/config");
+            const wasmCache = await caches.open("webllm/wasm");
+
+            const configUrl = new URL("mlc-chat-config.json", base).href;
+            await ensureCached(configCache, configUrl);
+            const config = await (await configCache.match(configUrl))!.json();
+            for (const file of (config.tokenizer_files || []) as string[]) {
+                await ensureCached(modelCache, new URL(file, base).href);
+            }
+            await ensureCached(wasmCache, record.model_lib);
+
+            const manifestUrl = new URL("tensor-cache.json", base).href;
+            await ensureCached(modelCache, manifestUrl);
+            const manifest = await (await modelCache.match(manifestUrl))!.json();
+            const shards: { dataPath: string; nbytes?: number }[] = manifest.records || [];
+            const total = shards.reduce((n, r) => n + (r.nbytes || 0), 0) || shards.length;
+
+            let done = 0;
+            for (const shard of shards) {
+                await ensureCached(modelCache, new URL(shard.dataPath, base).href);
+                done += total === shards.length ? 1 : (shard.nbytes || 0);
+                setProgress(done / total);
+            }
+        } catch (e: any) {
+            console.error("Model prefetch failed:", e);
+            set({ error: `Download of ${modelId} failed: ${e.message}` });
+        } finally {
+            setProgress(undefined);
+            await get().scan();
+        }
+    },
+}));
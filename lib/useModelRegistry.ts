@@ -0,0 +1,207 @@
+"use client";
+
+import { useMemo } from "react";
+import { create } from "zustand";
+import type * as webllm from "@mlc-ai/web-llm";
+import {
+    WEBLLM_MODELS, MODEL_CATEGORIES, ModelCategory, ModelInfo,
+    setCustomModels, checkModelArtifacts, isPrebuiltModelId,
+} from "@/lib/useWebLLM";
+
+// ─── Custom model registry ──────────────────────────────────────────
+// Lets users run MLC builds that aren't in WEBLLM_MODELS (new releases,
+// in-house fine-tunes) without forking. Entries live in IndexedDB and are
+// pushed into the engine's appConfig on load and on every change.
+
+export interface CustomModel {
+    id: string;
+    label: string;
+    weightsUrl: string;       // HF repo or any host serving mlc-chat-config.json + tensor-cache.json
+    modelLibUrl: string;      // compiled .wasm for this architecture + quantization
+    contextWindow: number;
+    category: ModelCategory;
+    vramMB: number;
+    createdAt: number;
+}
+
+export type CustomModelInput = Omit<CustomModel, "createdAt">;
+
+interface ModelRegistryState {
+    models: CustomModel[];
+    isLoaded: boolean;
+    isValidating: boolean;
+    error: string | null;
+
+    // Actions
+    init: () => Promise<void>;
+    add: (input: CustomModelInput) => Promise<boolean>;
+    remove: (id: string) => Promise<void>;
+    clearError: () => void;
+}
+
+const DB_NAME = "n0x_models";
+const DB_VER = 1;
+const STORE = "custom";
+
+function openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VER);
+        req.onerror = () => reject(req.error);
+        req.onsuccess = () => resolve(req.result);
+        req.onupgradeneeded = (e) => {
+            const db = (e.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(STORE)) {
+                db.createObjectStore(STORE, { keyPath: "id" });
+            }
+        };
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDB();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+function toRecord(m: CustomModel): webllm.ModelRecord {
+    return {
+        model: m.weightsUrl,
+        model_id: m.id,
+        model_lib: m.modelLibUrl,
+        vram_required_MB: m.vramMB,
+        overrides: { context_window_size: m.contextWindow },
+    };
+}
+
+function toInfo(m: CustomModel): ModelInfo {
+    return {
+        id: m.id,
+        label: m.label || m.id,
+        desc: "Custom model",
+        size: m.vramMB >= 1024 ? `~${(m.vramMB / 1024).toFixed(1)}GB` : `~${m.vramMB}MB`,
+        category: m.category,
+        custom: true,
+    };
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === "https:" || url.protocol === "http:";
+    } catch {
+        return false;
+    }
+}
+
+// Synchronous field checks — returns the first problem found, or null
+export function validateCustomModel(input: CustomModelInput, existing: CustomModel[] = []): string | null {
+    if (!input.id.trim()) return "Model id is required.";
+    if (!/^[\w.\-]+$/.test(input.id)) return "Model id may only contain letters, digits, '.', '-' and '_'.";
+    if (isPrebuiltModelId(input.id) || WEBLLM_MODELS.some(m => m.id === input.id) || existing.some(m => m.id === input.id)) {
+        return `A model with id "${input.id}" already exists.`;
+    }
+    if (!isHttpUrl(input.weightsUrl)) return "Weights URL must be an http(s) URL.";
+    if (!isHttpUrl(input.modelLibUrl)) return "Model library URL must be an http(s) URL.";
+    if (!input.modelLibUrl.split("?")[0].endsWith(".wasm")) return "Model library URL must point to a .wasm file.";
+    if (!Number.isInteger(input.contextWindow) || input.contextWindow < 256) return "Context window must be a whole number of at least 256 tokens.";
+    if (!(input.category in MODEL_CATEGORIES)) return `Unknown category "${input.category}".`;
+    if (!Number.isFinite(input.vramMB) || input.vramMB <= 0) return "VRAM estimate must be a positive number of MB.";
+    return null;
+}
+
+function publish(models: CustomModel[]) {
+    setCustomModels(models.map(m => ({ info: toInfo(m), record: toRecord(m) })));
+}
+
+// shared by concurrent init() calls, so callers can await the catalog being complete
+let loading: Promise<void> | null = null;
+
+export const useModelRegistry = create<ModelRegistryState>((set, get) => ({
+    models: [],
+    isLoaded: false,
+    isValidating: false,
+    error: null,
+
+    init: async () => {
+        if (typeof indexedDB === "undefined" || get().isLoaded) return;
+        loading ??= (async () => {
+            try {
+                const all = await withStore<CustomModel[]>("readonly", s => s.getAll());
+                const models = (all || []).sort((a, b) => a.createdAt - b.createdAt);
+                publish(models);
+                set({ models, isLoaded: true });
+            } catch (e) {
+                console.error("Failed to load custom models:", e);
+                set({ isLoaded: true });
+            }
+        })();
+        await loading;
+    },
+
+    add: async (input: CustomModelInput) => {
+        const model: CustomModel = {
+            ...input,
+            id: input.id.trim(),
+            label: input.label.trim(),
+            weightsUrl: input.weightsUrl.trim(),
+            modelLibUrl: input.modelLibUrl.trim(),
+            createdAt: Date.now(),
+        };
+
+        const invalid = validateCustomModel(model, get().models);
+        if (invalid) {
+            set({ error: invalid });
+            return false;
+        }
+
+        set({ isValidating: true, error: null });
+        try {
+            const problem = await checkModelArtifacts(toRecord(model));
+            if (problem) {
+                set({ error: problem });
+                return false;
+            }
+            await withStore("readwrite", s => s.put(model));
+            const models = [...get().models, model];
+            publish(models);
+            set({ models });
+            return true;
+        } catch (e: any) {
+            set({ error: `Failed to save model: ${e.message}` });
+            return false;
+        } finally {
+            set({ isValidating: false });
+        }
+    },
+
+    remove: async (id: string) => {
+        try {
+            await withStore("readwrite", s => s.delete(id));
+        } catch (e) {
+            console.error("Failed to delete custom model:", e);
+        }
+        const models = get().models.filter(m => m.id !== id);
+        publish(models);
+        set({ models });
+    },
+
+    clearError: () => set({ error: null }),
+}));
+
+// Built-in and custom models as one list, for pickers and lookups
+export function useModelCatalog(): ModelInfo[] {
+    const custom = useModelRegistry(s => s.models);
+    return useMemo(() => [...WEBLLM_MODELS, ...custom.map(toInfo)], [custom]);
+}
+
+// Non-hook variant for stores and callbacks
+export function getModelCatalog(): ModelInfo[] {
+    return [...WEBLLM_MODELS, ...useModelRegistry.getState().models.map(toInfo)];
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+import { classifyMessage, isImageRequest } from "@/lib/useModelRouter";
+
+// web-llm's bundle only loads in a browser; classification never touches it
+vi.mock("@mlc-ai/web-llm", () => ({ prebuiltAppConfig: { model_list: [] } }));
+
+describe("isImageRequest", () => {
+    it.each([
+        "generate an image of a fox in the snow",
+        "draw a picture of a lighthouse",
+        "image: neon city at night",
+        "/image a watercolor owl",
+    ])("sends %j to the image pipeline", (text) => {
+        expect(isImageRequest(text)).toBe(true);
+    });
+
+    it.each([
+        "paint a picture of the market for me",
+        "draw a picture of how the pieces fit together",
+        "what is an image kernel?",
+    ])("leaves %j to the chat model", (text) => {
+        expect(isImageRequest(text)).toBe(false);
+    });
+});
+
+describe("classifyMessage", () => {
+    it("routes drawing requests that name a subject", () => {
+        expect(classifyMessage("draw me a cat").task).toBe("image");
+        expect(classifyMessage("sketch a red dragon").task).toBe("image");
+    });
+
+    it("doesn't treat figurative drawing as an image request", () => {
+        expect(classifyMessage("draw a comparison between Rust and Go").task).not.toBe("image");
+        expect(classifyMessage("draw conclusions from these numbers").task).not.toBe("image");
+        expect(classifyMessage("paint a picture of the market").task).not.toBe("image");
+    });
+
+    it("spots code, math and analysis", () => {
+        expect(classifyMessage("```js\nconsole.log(1)\n```")).toEqual({ task: "code", reason: "contains code" });
+        expect(classifyMessage("why does my python script segfault?").task).toBe("code");
+        expect(classifyMessage("what is 12 * 7")).toEqual({ task: "math", reason: "arithmetic" });
+        expect(classifyMessage("explain the trade-offs of SSR").task).toBe("reasoning");
+    });
+
+    it("falls back on length", () => {
+        expect(classifyMessage("hey there!")).toEqual({ task: "chitchat", reason: "short message" });
+        expect(classifyMessage("tell me a story. ".repeat(40))).toEqual({ task: "reasoning", reason: "long message" });
+    });
+});
@@ -0,0 +1,176 @@
+"use client";
+
+import { create } from "zustand";
+import { useWebLLM, getModelLastUsed, MODEL_CATEGORIES, type ModelCategory, type ModelInfo } from "@/lib/useWebLLM";
+import { getModelCatalog } from "@/lib/useModelRegistry";
+
+// ─── Model router ───────────────────────────────────────────────────
+// Classifies each outgoing message with cheap rules (no model call, so routing
+// adds no latency) and switches to the model tier the user's policy assigns to
+// that kind of task. Models already resident on the GPU switch instantly; the
+// VRAM budget decides how many stay warm alongside the new one.
+
+export type TaskKind = "code" | "math" | "reasoning" | "chitchat" | "image";
+
+// "current" leaves whatever is loaded alone
+export type RouteTarget = ModelCategory | "current";
+
+export type RoutingPolicy = Record<Exclude<TaskKind, "image">, RouteTarget>;
+
+export interface RouteDecision {
+    task: TaskKind;
+    reason: string;             // which rule fired, for the message badge
+    modelId: string | null;     // null → image pipeline, or nothing loaded
+    modelLabel?: string;
+    action: "kept" | "warm" | "loaded" | "image";
+}
+
+export const TASK_LABELS: Record<TaskKind, string> = {
+    code: "code",
+    math: "math",
+    reasoning: "reasoning",
+    chitchat: "chat",
+    image: "image",
+};
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+    code: "coding",
+    math: "powerful",
+    reasoning: "powerful",
+    chitchat: "fast",
+};
+
+const DEFAULT_VRAM_BUDGET_MB = 4096;
+const STORAGE_KEY = "n0x_router";
+
+const IMG_PATTERNS = [
+    /^(generate|create|make|draw|paint|render)\s+(an?\s+)?(image|picture|photo|art|illustration)/i,
+    /^image:\s*/i,
+    /^\/image\s+/i,
+];
+
+// "paint a picture of the market" asks for a description, not an image
+const FIGURATIVE_PICTURE = /^(paint|draw)\s+(me\s+)?an?\s+(\w+\s+)?picture\s+of\s+(how|what|why|where|who|the\s+(market|economy|situation|state|future|industry|problem))\b/i;
+
+export function isImageRequest(text: string): boolean {
+    return !FIGURATIVE_PICTURE.test(text) && IMG_PATTERNS.some(p => p.test(text));
+}
+
+// Checked in order; the first match wins
+const RULES: { task: Exclude<TaskKind, "chitchat">; pattern: RegExp; reason: string }[] = [
+    // the verb alone isn't enough: "draw a comparison", "draw conclusions"
+    { task: "image", pattern: /^(draw|sketch|paint)\s+(me\s+)?(an?\s+|the\s+)?(\w+\s+)?(portrait|cartoon|logo|icon|poster|landscape|scene|doodle|drawing|painting|sketch|sunset|cat|dog|bird|horse|dragon|robot|castle|house|tree|flower|face|character)s?\b/i, reason: "drawing request" },
+    { task: "code", pattern: /```|^\s*(def|class|function|import|const|let|fn|pub|#include)\b/m, reason: "contains code" },
+    { task: "code", pattern: /\b(stack ?trace|traceback|segfault|compile[rd]?|refactor|debug|regex|sql query|unit tests?|typescript|javascript|python|rust|golang|c\+\+|java)\b/i, reason: "programming terms" },
+    { task: "code", pattern: /\b[\w-]+\.(ts|tsx|js|py|rs|go|java|cpp|c|h|rb|sh|json|yaml|yml)\b/, reason: "mentions a source file" },
+    { task: "math", pattern: /\d+(\.\d+)?\s*[-+*/^×÷]\s*\d+/, reason: "arithmetic" },
+    { task: "math", pattern: /\b(solve|integral|integrate|derivative|differentiate|equation|prove|theorem|probability|matrix|eigen\w*|factori[sz]e|calculate|compute)\b/i, reason: "math terms" },
+    { task: "reasoning", pattern: /\b(why|explain|compare|trade-?offs?|pros and cons|analy[sz]e|step[- ]by[- ]step|plan|strategy|evaluate|should i)\b/i, reason: "asks for analysis" },
+];
+
+const LONG_MESSAGE_CHARS = 400;
+
+export function classifyMessage(text: string): { task: TaskKind; reason: string } {
+    if (isImageRequest(text)) return { task: "image", reason: "image request" };
+    const rule = RULES.find(r => r.pattern.test(text));
+    if (rule) return { task: rule.task, reason: rule.reason };
+    if (text.length > LONG_MESSAGE_CHARS) return { task: "reasoning", reason: "long message" };
+    return { task: "chitchat", reason: "short message" };
+}
+
+// Resident models first, then most recently used, then catalog order.
+// Models the GPU can't hold are never picked automatically.
+function pickModel(category: ModelCategory, catalog: ModelInfo[]): ModelInfo | undefined {
+    const { loadedModel, warmModels, backend, assessModelFit } = useWebLLM.getState();
+    const candidates = catalog.filter(m => m.category === category && (backend === "webgpu" || !!m.gguf)
+        && assessModelFit(m.id)?.fit !== "wont-fit");
+    const lastUsed = getModelLastUsed();
+    const rank = (m: ModelInfo) =>
+        m.id === loadedModel ? 3 : warmModels.includes(m.id) ? 2 : lastUsed[m.id] ? 1 : 0;
+    return [...candidates].sort((a, b) => rank(b) - rank(a) || (lastUsed[b.id] || 0) - (lastUsed[a.id] || 0))[0];
+}
+
+interface RouterState {
+    enabled: boolean;
+    policy: RoutingPolicy;
+    vramBudgetMB: number;
+
+    init: () => void;
+    setEnabled: (enabled: boolean) => void;
+    setTarget: (task: keyof RoutingPolicy, target: RouteTarget) => void;
+    setVramBudget: (mb: number) => void;
+    // Classify, then make sure the chosen model is the one answering
+    route: (message: string) => Promise<RouteDecision>;
+}
+
+function save(state: Pick<RouterState, "enabled" | "policy" | "vramBudgetMB">) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch { }
+}
+
+export const useModelRouter = create<RouterState>((set, get) => {
+    const persist = () => {
+        const { enabled, policy, vramBudgetMB } = get();
+        save({ enabled, policy, vramBudgetMB });
+    };
+
+    return {
+        enabled: false,
+        policy: DEFAULT_ROUTING_POLICY,
+        vramBudgetMB: DEFAULT_VRAM_BUDGET_MB,
+
+        init: () => {
+            try {
+                const raw = localStorage.getItem(STORAGE_KEY);
+                if (!raw) return;
+                const saved = JSON.parse(raw);
+                const policy = { ...DEFAULT_ROUTING_POLICY };
+                for (const task of Object.keys(policy) as (keyof RoutingPolicy)[]) {
+                    const target = saved.policy?.[task];
+                    if (target === "current" || target in MODEL_CATEGORIES) policy[task] = target;
+                }
+                set({
+                    enabled: !!saved.enabled,
+                    policy,
+                    vramBudgetMB: Number(saved.vramBudgetMB) > 0 ? Number(saved.vramBudgetMB) : DEFAULT_VRAM_BUDGET_MB,
+                });
+            } catch { }
+        },
+
+        setEnabled: (enabled) => {
+            set({ enabled });
+            persist();
+        },
+
+        setTarget: (task, target) => {
+            set(s => ({ policy: { ...s.policy, [task]: target } }));
+            persist();
+        },
+
+        setVramBudget: (mb) => {
+            set({ vramBudgetMB: mb });
+            persist();
+        },
+
+        route: async (message) => {
+            const { task, reason } = classifyMessage(message);
+            if (task === "image") return { task, reason, modelId: null, action: "image" };
+
+            const webllm = useWebLLM.getState();
+            const catalog = getModelCatalog();
+            const current = catalog.find(m => m.id === webllm.loadedModel);
+            const target = get().policy[task];
+            const model = target === "current" ? current : pickModel(target, catalog) ?? current;
+
+            // never swap weights out from under a running generation
+            if (!model || model.id === webllm.loadedModel || webllm.status !== "ready") {
+                return { task, reason, modelId: current?.id ?? null, modelLabel: current?.label, action: "kept" };
+            }
+
+            const wasWarm = webllm.warmModels.includes(model.id);
+            await webllm.activateModel(model.id, get().vramBudgetMB);
+            return { task, reason, modelId: model.id, modelLabel: model.label, action: wasWarm && webllm.backend === "webgpu" ? "warm" : "loaded" };
+        },
+    };
+});
@@ -1,6 +1,8 @@
 "use client";
 
 import { create } from "zustand";
+import { broadcast, subscribe } from "@/lib/crossTab";
+import { cited, type CitedText } from "@/lib/citations";
 
 interface RAGDocument {
     id: string;
@@ -9,6 +11,15 @@ interface RAGDocument {
     type: string;
     chunks: number;
     rawText: string; // Store full raw text only for small files (direct injection)
+    cacheKey?: string; // large files: key of their vectors in the shared cache
+}
+
+// A chunk from the vector index, with where it came from
+export interface RAGHit {
+    id: string;
+    file: string;
+    page?: number;      // PDFs
+    text: string;
 }
 
 interface RAGState {
@@ -19,15 +30,21 @@ interface RAGState {
     pendingFiles: RAGDocument[];
 
     // Actions
+    init: () => void;
     addFile: (file: File) => Promise<void>;
-    search: (query: string, limit?: number) => Promise<string[]>;
-    getFileContext: (query: string) => Promise<string>;
+    // `names` limits retrieval to those files (a conversation's knowledge scope)
+    search: (query: string, limit?: number, names?: string[] | null) => Promise<RAGHit[]>;
+    // whole small files plus the best chunks of large ones, ready to number and cite
+    getFileSources: (query: string, names?: string[] | null) => Promise<CitedText[]>;
     clear: () => void;
     clearPending: () => void;
     clearCache: () => Promise<void>;
     toggle: () => void;
 }
 
+export const hitSource = (hit: RAGHit): CitedText =>
+    cited({ kind: "doc", title: hit.file, chunkId: hit.id, page: hit.page }, hit.text.trim());
+
 const MAX_DIRECT_INJECT_SIZE = 8000;
 
 // Singleton Worker interface
@@ -82,6 +99,41 @@ function postToWorker(action: string, payload: any, onStatus?: (s: string) => vo
     });
 }
 
+// Worker first; if it fails, fall back to the raw text (or an error note for binaries)
+async function indexFile(file: File, onStatus?: (status: string) => void): Promise<RAGDocument | null> {
+    try {
+        return await postToWorker("ADD_FILE", { file }, onStatus);
+    } catch (e: any) {
+        console.error("RAG Worker Error:", e);
+        onStatus?.(`Error: ${e.message}`);
+        try {
+            let fallbackText = "";
+            const ext = file.name.split('.').pop()?.toLowerCase();
+            const isBinary = ["pdf", "docx", "xlsx", "pptx", "png", "jpg", "jpeg", "gif", "webp", "zip", "tar", "gz"].includes(ext || "");
+
+            if (isBinary) {
+                fallbackText = `[Error extracting text from ${file.name}. Binary parsing failed or is unsupported.]`;
+            } else {
+                fallbackText = ((await file.text()) || "").slice(0, 50000);
+            }
+
+            return {
+                id: Date.now().toString(),
+                name: file.name,
+                size: file.size,
+                type: file.type || ext || "unknown",
+                chunks: 1,
+                rawText: fallbackText,
+            };
+        } catch (fallbackError) {
+            console.error("Fallback extraction failed:", fallbackError);
+            return null;
+        }
+    }
+}
+
+let subscribed = false;
+
 export const useRAG = create<RAGState>((set, get) => ({
     documents: [],
     isIndexing: false,
@@ -89,60 +141,56 @@ export const useRAG = create<RAGState>((set, get) => ({
     ragEnabled: false,
     pendingFiles: [],
 
-    addFile: async (file: File) => {
-        try {
-            set({ isIndexing: true, status: `Initializing Worker for ${file.name}...` });
-
-            const newDoc = await postToWorker("ADD_FILE", { file }, (status) => {
-                set({ status });
-            });
-
-            set(state => ({
-                documents: [...state.documents, newDoc],
-                pendingFiles: [...state.pendingFiles, newDoc],
-                isIndexing: false,
-                ragEnabled: true,
-                status: "ready",
-            }));
-
-        } catch (e: any) {
-            console.error("RAG Worker Error:", e);
-            set({ status: `Error: ${e.message}`, isIndexing: false });
-            try {
-                let fallbackText = "";
-                const ext = file.name.split('.').pop()?.toLowerCase();
-                const isBinary = ["pdf", "docx", "xlsx", "pptx", "png", "jpg", "jpeg", "gif", "webp", "zip", "tar", "gz"].includes(ext || "");
-
-                if (isBinary) {
-                    fallbackText = `[Error extracting text from ${file.name}. Binary parsing failed or is unsupported.]`;
-                } else {
-                    fallbackText = ((await file.text()) || "").slice(0, 50000);
+    // Files added in another tab arrive as metadata. Small ones carry their
+    // text; large ones are loaded from the shared vector cache the other tab
+    // wrote, so nothing is parsed or embedded twice. A file already loaded
+    // (same name and size) is skipped.
+    init: () => {
+        if (subscribed) return;
+        subscribed = true;
+        subscribe("rag", async (msg) => {
+            if (msg.kind === "clear") {
+                postToWorker("CLEAR", {}).catch(() => { });
+                set({ documents: [], pendingFiles: [] });
+                return;
+            }
+            const doc = msg.payload as RAGDocument | undefined;
+            if (msg.kind !== "put" || !doc) return;
+            const loaded = () => get().documents.some(d => d.name === doc.name && d.size === doc.size);
+            if (loaded()) return;
+            if (!doc.rawText) {
+                const restored = doc.cacheKey
+                    ? await postToWorker("LOAD_CACHED", { cacheKey: doc.cacheKey }).catch(() => false)
+                    : false;
+                if (!restored) {
+                    console.warn(`RAG: no cached vectors for ${doc.name} from another tab`);
+                    return;
                 }
-
-                const fallbackDoc: RAGDocument = {
-                    id: Date.now().toString(),
-                    name: file.name,
-                    size: file.size,
-                    type: file.type || ext || "unknown",
-                    chunks: 1,
-                    rawText: fallbackText,
-                };
-                set(state => ({
-                    documents: [...state.documents, fallbackDoc],
-                    pendingFiles: [...state.pendingFiles, fallbackDoc],
-                    isIndexing: false,
-                    ragEnabled: true,
-                    status: "ready",
-                }));
-            } catch (fallbackError) {
-                console.error("Fallback extraction failed:", fallbackError);
             }
+            if (!loaded()) set(state => ({ documents: [...state.documents, doc] }));
+        });
+    },
+
+    addFile: async (file: File) => {
+        set({ isIndexing: true, status: `Initializing Worker for ${file.name}...` });
+        const doc = await indexFile(file, (status) => set({ status }));
+        if (!doc) {
+            set({ isIndexing: false });
+            return;
         }
+        set(state => ({
+            documents: [...state.documents, doc],
+            pendingFiles: [...state.pendingFiles, doc],
+            isIndexing: false,
+            ragEnabled: true,
+            status: "ready",
+        }));
+        broadcast({ topic: "rag", kind: "put", id: doc.name, payload: doc });
     },
 
-    search: async (query: string, limit: number = 3) => {
+    search: async (query: string, limit: number = 3, names?: string[] | null) => {
         try {
-            const chunks = await postToWorker("SEARCH", { query, limit });
+            const chunks = await postToWorker("SEARCH", { query, limit, titles: names ?? undefined });
             return chunks || [];
         } catch (e) {
             console.error("Worker search failed:", e);
@@ -150,39 +198,35 @@ export const useRAG = create<RAGState>((set, get) => ({
         }
     },
 
-    getFileContext: async (query: string) => {
-        const { documents } = get();
-        if (documents.length === 0) return "";
+    getFileSources: async (query: string, names?: string[] | null) => {
+        const documents = get().documents.filter(d => !names || names.includes(d.name));
+        if (documents.length === 0) return [];
 
-        const parts: string[] = [];
+        const sources: CitedText[] = [];
 
         for (const doc of documents) {
             if (doc.rawText && doc.rawText.length > 0) {
-                parts.push(`📎 File: "${doc.name}" (${doc.type})\n---\n${doc.rawText}\n---`);
+                sources.push(cited({ kind: "doc", title: doc.name }, doc.rawText));
             }
         }
 
         const hasLargeFiles = documents.some(d => !d.rawText && d.chunks > 0);
         if (hasLargeFiles) {
             try {
-                const chunks = await get().search(query, 4);
-                const relevantChunks = chunks.filter((c: string) => c && c.trim().length > 20);
-                if (relevantChunks.length > 0) {
-                    parts.push(
-                        `📎 Relevant excerpts from uploaded documents:\n---\n${relevantChunks.map((c: string, i: number) => `[Excerpt ${i + 1}] ${c.trim()}`).join("\n\n")}\n---`
-                    );
-                }
+                const hits = await get().search(query, 4, names);
+                sources.push(...hits.filter(h => h.text && h.text.trim().length > 20).map(hitSource));
             } catch (e) {
                 console.error("RAG search failed:", e);
             }
         }
 
-        return parts.join("\n\n");
+        return sources;
     },
 
     clear: () => {
         postToWorker("CLEAR", {}).catch(() => { });
         set({ documents: [], pendingFiles: [], status: "ready" });
+        broadcast({ topic: "rag", kind: "clear" });
     },
 
     clearPending: () => {
@@ -1,12 +1,16 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
+import type { GenerationOptions } from "@/lib/useWebLLM";
+import { broadcast, subscribe } from "@/lib/crossTab";
 
 interface Persona {
     id: string;
     name: string;
     prompt: string;
     builtin?: boolean;
+    generation?: GenerationOptions;
+    version?: number;       // custom personas: bumped on every edit
 }
 
 const PRESETS: Persona[] = [
@@ -82,19 +86,55 @@ ANALYSIS GUIDELINES:
 
 const PERSONAS_KEY = "n0x_personas";
 const ACTIVE_KEY = "n0x_active_persona";
+// generation params are stored separately so builtin presets can carry them too
+const GENERATION_KEY = "n0x_persona_generation";
+
+function loadGeneration(): Record<string, GenerationOptions> {
+    try {
+        const raw = localStorage.getItem(GENERATION_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+}
 
 function loadAll(): Persona[] {
     if (typeof window === "undefined") return PRESETS;
+    const generation = loadGeneration();
+    return [...PRESETS, ...loadCustom()].map(p => ({ ...p, generation: generation[p.id] }));
+}
+
+function loadCustom(): Persona[] {
     try {
         const raw = localStorage.getItem(PERSONAS_KEY);
-        return [...PRESETS, ...(raw ? JSON.parse(raw) : [])];
+        return raw ? JSON.parse(raw) : [];
     } catch {
-        return PRESETS;
+        return [];
     }
 }
 
-function saveCustom(all: Persona[]) {
-    localStorage.setItem(PERSONAS_KEY, JSON.stringify(all.filter(p => !p.builtin)));
+// Writes go one persona at a time against what's stored, so a tab holding an
+// old list can't drop personas another tab added. `expected` is the version
+// this tab last saw; if another tab has saved since, the write is refused.
+function writeCustom(id: string, next: Persona | null, expected: number): boolean {
+    const stored = loadCustom();
+    const current = stored.find(p => p.id === id);
+    if (current && (current.version ?? 0) !== expected) return false;
+    const record = next && (({ generation, ...p }: Persona) => p)(next);
+    const list = !record ? stored.filter(p => p.id !== id)
+        : current ? stored.map(p => p.id === id ? record : p)
+            : [...stored, record];
+    localStorage.setItem(PERSONAS_KEY, JSON.stringify(list));
+    broadcast({ topic: "persona", kind: next ? "put" : "delete", id, version: next?.version });
+    return true;
+}
+
+function writeGeneration(id: string, generation: GenerationOptions | undefined) {
+    const map = loadGeneration();
+    if (generation) map[id] = generation;
+    else delete map[id];
+    localStorage.setItem(GENERATION_KEY, JSON.stringify(map));
+    broadcast({ topic: "persona", kind: "put", id });
 }
 
 export function useSystemPrompt() {
@@ -109,6 +149,9 @@ export function useSystemPrompt() {
         setIsLoaded(true);
     }, []);
 
+    // other tabs' edits: re-read the whole list, it's small
+    useEffect(() => subscribe("persona", () => setPersonas(loadAll())), []);
+
     const activePersona = personas.find(p => p.id === activeId) || personas[0];
 
     const selectPersona = useCallback((id: string) => {
@@ -117,40 +160,44 @@ export function useSystemPrompt() {
     }, []);
 
     const addPersona = useCallback((name: string, prompt: string) => {
-        const p: Persona = { id: `custom_${Date.now()}`, name, prompt, builtin: false };
-        setPersonas(prev => {
-            const next = [...prev, p];
-            saveCustom(next);
-            return next;
-        });
+        const p: Persona = { id: `custom_${Date.now()}`, name, prompt, builtin: false, version: 1 };
+        writeCustom(p.id, p, 0);
+        setPersonas(loadAll());
         setActiveId(p.id);
         localStorage.setItem(ACTIVE_KEY, p.id);
         return p;
     }, []);
 
-    const updatePersona = useCallback((id: string, name: string, prompt: string) => {
-        setPersonas(prev => {
-            const next = prev.map(p => p.id === id ? { ...p, name, prompt } : p);
-            saveCustom(next);
-            return next;
-        });
+    // `expected` is the version the editor opened (the live list may already
+    // hold another tab's newer one). False when another tab changed the persona
+    // since — the list is reloaded so saving again is a deliberate overwrite.
+    const updatePersona = useCallback((id: string, name: string, prompt: string, expected: number): boolean => {
+        const p = personas.find(x => x.id === id);
+        if (!p) return false;
+        const saved = writeCustom(id, { ...p, name, prompt, version: (p.version ?? 0) + 1 }, expected);
+        setPersonas(loadAll());
+        return saved;
+    }, [personas]);
+
+    const setPersonaGeneration = useCallback((id: string, generation: GenerationOptions | undefined) => {
+        writeGeneration(id, generation);
+        setPersonas(loadAll());
     }, []);
 
     const deletePersona = useCallback((id: string) => {
-        setPersonas(prev => {
-            const next = prev.filter(p => p.id !== id);
-            saveCustom(next);
-            return next;
-        });
+        const p = personas.find(x => x.id === id);
+        if (p && writeCustom(id, null, p.version ?? 0)) writeGeneration(id, undefined);
+        setPersonas(loadAll());
         if (activeId === id) {
             setActiveId("default");
             localStorage.setItem(ACTIVE_KEY, "default");
         }
-    }, [activeId]);
+    }, [activeId, personas]);
 
     return {
         personas, activePersona, activeId, isLoaded,
         systemPrompt: activePersona.prompt,
-        selectPersona, addPersona, updatePersona, deletePersona,
+        generation: activePersona.generation,
+        selectPersona, addPersona, updatePersona, deletePersona, setPersonaGeneration,
     };
 }
@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_GENERATION_OPTIONS, resolveGenerationOptions } from "@/lib/useWebLLM";
+
+// web-llm's bundle only loads in a browser; these tests never touch the engine
+vi.mock("@mlc-ai/web-llm", () => ({ prebuiltAppConfig: { model_list: [] } }));
+
+describe("resolveGenerationOptions", () => {
+    it("lets later layers override earlier ones", () => {
+        const out = resolveGenerationOptions(DEFAULT_GENERATION_OPTIONS, { temperature: 0.2 }, { max_tokens: 256 });
+        expect(out).toEqual({ ...DEFAULT_GENERATION_OPTIONS, temperature: 0.2, max_tokens: 256 });
+    });
+
+    it("never lets an undefined field clobber a set one", () => {
+        const out = resolveGenerationOptions({ temperature: 0.9, seed: 7 }, { temperature: undefined, seed: undefined });
+        expect(out).toEqual({ temperature: 0.9, seed: 7 });
+    });
+
+    it("skips missing layers and copies rather than aliasing", () => {
+        const persona = { top_p: 0.5, stop: ["###"] };
+        const out = resolveGenerationOptions(undefined, persona, undefined);
+        expect(out).toEqual(persona);
+        expect(out).not.toBe(persona);
+    });
+});
@@ -2,9 +2,16 @@
 
 import { create } from "zustand";
 import * as webllm from "@mlc-ai/web-llm";
+import {
+    InferenceProvider, ProviderKind, withImageParts, ProviderSelection, RemoteConfig, ToolCall, ToolDefinition,
+    DEFAULT_REMOTE_CONFIG, createOpenAICompatibleProvider, listRemoteModels, normalizeBaseUrl,
+} from "@/lib/inferenceProvider";
+import { GGUFSource, CPU_CONTEXT_TOKENS, cpuProvider, isCpuModelLoaded, loadCpuModel, unloadCpuModel } from "@/lib/cpuEngine";
+import { FitAssessment, GpuProfile, assessFit, probeAdapter } from "@/lib/gpuProbe";
+import { DEFAULT_CONTEXT_TOKENS, countMessageTokens, countTokens, getContextWindow, isExactCount, setTokenizer } from "@/lib/tokenCounter";
 
 // Comprehensive list of WebLLM models - 2024/2025
-export const WEBLLM_MODELS = [
+export const WEBLLM_MODELS: ModelInfo[] = [
     // === FAST / SMALL (< 1GB) ===
     {
         id: "SmolLM2-360M-Instruct-q4f16_1-MLC",
@@ -12,6 +19,7 @@ export const WEBLLM_MODELS = [
         desc: "Ultra fast, lightweight",
         size: "~250MB",
         category: "fast",
+        gguf: { repo: "HuggingFaceTB/SmolLM2-360M-Instruct-GGUF", file: "smollm2-360m-instruct-q8_0.gguf" },
     },
     {
         id: "Qwen2.5-0.5B-Instruct-q4f16_1-MLC",
@@ -19,6 +27,7 @@ export const WEBLLM_MODELS = [
         desc: "Tiny but capable",
         size: "~350MB",
         category: "fast",
+        gguf: { repo: "Qwen/Qwen2.5-0.5B-Instruct-GGUF", file: "qwen2.5-0.5b-instruct-q4_k_m.gguf" },
     },
     {
         id: "TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC",
@@ -26,6 +35,7 @@ export const WEBLLM_MODELS = [
         desc: "Fast general chat",
         size: "~600MB",
         category: "fast",
+        gguf: { repo: "TheBloke/TinyLlama-1.1B-Chat-v1.0-GGUF", file: "tinyllama-1.1b-chat-v1.0.Q4_K_M.gguf" },
     },
 
     // === BALANCED (1-2GB) ===
@@ -121,6 +131,15 @@ export const WEBLLM_MODELS = [
         desc: "Function calling",
         size: "~4.5GB",
         category: "powerful",
+        toolCalling: true,
+    },
+    {
+        id: "Phi-3.5-vision-instruct-q4f16_1-MLC",
+        label: "Phi-3.5 Vision",
+        desc: "Reads attached images",
+        size: "~4GB",
+        category: "powerful",
+        vision: true,
     },
     {
         id: "Llama-3.1-8B-Instruct-q4f16_1-MLC",
@@ -184,20 +203,88 @@ export const WEBLLM_MODELS = [
     },
 ];
 
-// Group models by category
+// Group models by category. `cpu` marks tiers that also run on the WASM
+// fallback when WebGPU is missing — every model in them ships a GGUF source.
 export const MODEL_CATEGORIES = {
-    fast: { label: "⚡ Fast (< 1GB)", desc: "Quick responses, lower quality" },
-    balanced: { label: "⚖️ Balanced (1-2GB)", desc: "Good speed and quality" },
-    powerful: { label: "🚀 Powerful (2-4GB+)", desc: "Best quality, slower" },
-    coding: { label: "💻 Coding", desc: "Optimized for code" },
-    uncensored: { label: "🔓 Uncensored", desc: "No filters" },
+    fast: { label: "⚡ Fast (< 1GB)", desc: "Quick responses, lower quality", cpu: true },
+    balanced: { label: "⚖️ Balanced (1-2GB)", desc: "Good speed and quality", cpu: false },
+    powerful: { label: "🚀 Powerful (2-4GB+)", desc: "Best quality, slower", cpu: false },
+    coding: { label: "💻 Coding", desc: "Optimized for code", cpu: false },
+    uncensored: { label: "🔓 Uncensored", desc: "No filters", cpu: false },
 };
 
+export type ModelCategory = keyof typeof MODEL_CATEGORIES;
+
+export interface ModelInfo {
+    id: string;
+    label: string;
+    desc: string;
+    size: string;
+    category: string;
+    custom?: boolean;
+    gguf?: GGUFSource;        // CPU fallback weights (llama.cpp/WASM)
+    toolCalling?: boolean;    // native function calling through the engine's `tools` parameter
+    vision?: boolean;         // accepts image content parts in user turns
+}
+
+// "webgpu" runs MLC on the GPU; "cpu" is the WASM fallback for browsers without WebGPU
+export type InferenceBackend = "webgpu" | "cpu";
+
 export type WebLLMStatus = "unloaded" | "loading" | "ready" | "generating" | "error";
 
 interface ChatMessage {
     role: string;
     content: string;
+    tool_call_id?: string;    // role "tool": which call this is the result of
+    images?: string[];        // user turns, vision models only — see supportsVision()
+}
+
+// generateWithTools() result — content is the raw model output
+export interface ToolTurn {
+    content: string;
+    toolCalls: ToolCall[];
+}
+
+// Sampling parameters accepted by generate(). Field names follow the
+// OpenAI chat API so they can be passed straight through to the engine.
+export interface GenerationOptions {
+    temperature?: number;
+    top_p?: number;
+    max_tokens?: number;
+    stop?: string[];
+    seed?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+    // JSON schema (serialized) the output must conform to — grammar-constrained
+    // decoding on providers that support it. Not a user-facing setting.
+    json_schema?: string;
+    // Offered to the model as native function calls. Only honoured when
+    // supportsToolCalling() — use generateWithTools() to read the calls back.
+    tools?: ToolDefinition[];
+}
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+    temperature: 0.7,
+    top_p: 1,
+    max_tokens: 4096,
+    presence_penalty: 0,
+    frequency_penalty: 0,
+};
+
+// Merge option layers left to right (defaults → persona → conversation → call site).
+// Undefined fields never clobber a value from an earlier layer.
+export function resolveGenerationOptions(...layers: (GenerationOptions | undefined)[]): GenerationOptions {
+    const out: GenerationOptions = {};
+    // generic in the key, so each field is checked against its own type
+    const take = <K extends keyof GenerationOptions>(layer: GenerationOptions, k: K) => {
+        const value = layer[k];
+        if (value !== undefined) out[k] = value;
+    };
+    for (const layer of layers) {
+        if (!layer) continue;
+        (Object.keys(layer) as (keyof GenerationOptions)[]).forEach(k => take(layer, k));
+    }
+    return out;
 }
 
 interface WebLLMStats {
@@ -206,147 +293,528 @@ interface WebLLMStats {
     lastTokenTime: number;
 }
 
+// Token accounting for the most recent generate() call
+export interface TurnUsage {
+    promptTokens: number;
+    completionTokens: number;
+    contextWindow: number;
+    exact: boolean;           // counted with the model's tokenizer rather than estimated
+    // Filled in once the turn completes
+    modelId?: string | null;
+    ttftMs?: number;          // request start → first token
+    prefillTps?: number;      // prompt tokens over time to first token
+    decodeTps?: number;       // tokens after the first over the rest of the stream
+}
+
+// ─── Generation queue ───────────────────────────────────────────────
+// One engine, many callers: user turns, the agent, background jobs (titles,
+// memory). Requests wait here while the engine is busy or a model is still
+// loading, interactive ones ahead of background ones. Each request has its own
+// AbortController, so stop() only cancels what the user is waiting on.
+
+export type GenerationPriority = "interactive" | "background";
+
+export interface GenerationRequest {
+    priority?: GenerationPriority;              // default "interactive"
+    label?: string;                             // shown in queue listings
+    signal?: AbortSignal;                       // cancels just this request
+    onQueued?: (position: number) => void;      // 1-based, re-sent as the queue moves
+    onUsage?: (usage: TurnUsage) => void;       // this request's final usage and timings
+}
+
+export interface QueuedRequestInfo {
+    id: number;
+    priority: GenerationPriority;
+    label?: string;
+}
+
+interface GenerationJob extends QueuedRequestInfo {
+    messages: ChatMessage[];
+    onToken?: (token: string) => void;
+    options?: GenerationOptions;
+    controller: AbortController;
+    onQueued?: (position: number) => void;
+    onUsage?: (usage: TurnUsage) => void;
+    position?: number;
+    resolve: (turn: ToolTurn) => void;
+    reject: (error: Error) => void;
+}
+
 interface WebLLMState {
     status: WebLLMStatus;
     loadProgress: number;
     loadedModel: string | null;
+    warmModels: string[];         // resident in the GPU engine; loadedModel is the one answering
+    deviceLost: { message: string; at: number; recovering: boolean } | null;   // set until the engine is rebuilt
     loadingModel: string | null;
+    failedModel: string | null;   // target of the last load that errored or was blocked (for force-load)
     error: string | null;
     isSupported: boolean;
+    backend: InferenceBackend;
+    gpu: GpuProfile | null;       // adapter limits/features probed at init (WebGPU only)
     stats: WebLLMStats;
+    lastTurn: TurnUsage | null;
+    activeRequest: QueuedRequestInfo | null;
+    queued: QueuedRequestInfo[];
+    provider: ProviderKind;
+    remote: RemoteConfig;
+    remoteModels: string[];
 
     // Actions
     init: () => Promise<void>;
-    loadModel: (modelId: string, force?: boolean) => Promise<void>;
-    generate: (messages: ChatMessage[], onToken?: (token: string) => void) => Promise<string>;
+    loadModel: (modelId: string, force?: boolean, keepWarm?: string[]) => Promise<void>;
+    // Will this model run on the probed GPU? null until probed, or on the CPU backend
+    assessModelFit: (modelId: string) => FitAssessment | null;
+    activateModel: (modelId: string, vramBudgetMB: number) => Promise<void>;
+    generate: (messages: ChatMessage[], onToken?: (token: string) => void, options?: GenerationOptions, request?: GenerationRequest) => Promise<string>;
     stop: () => void;
+    cancelRequest: (id: number) => void;
     unload: () => Promise<void>;
+    restart: () => Promise<void>;
+    selectProvider: (selection: ProviderSelection) => void;
+    supportsStructuredOutput: () => boolean;
+    supportsToolCalling: () => boolean;
+    // Can the answering model see images? Servers are trusted to know their own model
+    supportsVision: () => boolean;
+    generateWithTools: (messages: ChatMessage[], tools: ToolDefinition[], options?: GenerationOptions, request?: GenerationRequest) => Promise<ToolTurn>;
+    setRemoteConfig: (update: Partial<RemoteConfig>) => void;
+    fetchRemoteModels: () => Promise<void>;
 }
 
 // Module-level variables to hold non-reactive instances
-let engine: webllm.MLCEngine | null = null;
-let abortController: AbortController | null = null;
+let engine: webllm.WebWorkerMLCEngine | null = null;
+let worker: Worker | null = null;
 let isLoadingModel = false;
+let recovering = false;             // rebuilding the engine after a lost GPU device
+let recentRecoveries: number[] = [];
+const MAX_RECOVERIES_PER_MINUTE = 2;
+let queue: GenerationJob[] = [];
+let activeJob: GenerationJob | null = null;
+let nextJobId = 1;
 
-export const useWebLLM = create<WebLLMState>((set, get) => ({
-    status: "unloaded",
-    loadProgress: 0,
-    loadedModel: null,
-    loadingModel: null,
-    error: null,
-    isSupported: true,
-    stats: { tps: 0, totalTokens: 0, lastTokenTime: 0 },
-
-    init: async () => {
-        if (typeof navigator === "undefined") return;
-        const { status } = get();
-        if (status !== "unloaded") return; // Already initialized or loading
+// ─── Engine worker ──────────────────────────────────────────────────
+// The MLC engine lives in lib/webllm.worker.ts. If the worker dies (uncaught
+// error, GPU crash) or stops producing tokens, every pending engine call is
+// rejected so the UI never sits in "generating" forever. restart() spins up a
+// fresh worker and reloads the last model from cache.
+
+const FIRST_TOKEN_TIMEOUT_MS = 120_000;  // prefill of a long prompt on a weak GPU
+const TOKEN_STALL_TIMEOUT_MS = 30_000;   // max silence between streamed tokens
+
+let rejectOnWorkerDeath: (reason: Error) => void = () => { };
+let workerDeath: Promise<never> = new Promise(() => { });
 
-        if (!("gpu" in navigator)) {
-            set({ isSupported: false, error: "WebGPU not supported. Use Chrome 113+ or Edge 113+." });
+// Posted by the worker when its GPU device goes away (see webllm.worker.ts)
+const DEVICE_LOST_KIND = "n0x:deviceLost";
+// Request and reply for loading one more model beside the resident ones
+const ADD_MODEL_KIND = "n0x:addModel";
+const pendingAdds = new Map<string, { resolve: () => void; reject: (e: Error) => void }>();
+
+function spawnWorker(onDeath: (reason: Error) => void, onDeviceLost: (message: string) => void): Worker {
+    const w = new Worker(new URL("./webllm.worker.ts", import.meta.url), { type: "module" });
+    workerDeath = new Promise<never>((_, reject) => { rejectOnWorkerDeath = reject; });
+    workerDeath.catch(() => { }); // observed through guard(), never unhandled
+    // registered before WebWorkerMLCEngine sets onmessage, so it runs first —
+    // and keeps our messages away from the engine, which throws on unknown kinds
+    w.addEventListener("message", (e) => {
+        const kind = e.data?.kind;
+        if (kind !== DEVICE_LOST_KIND && kind !== ADD_MODEL_KIND) return;
+        e.stopImmediatePropagation();
+        if (kind === DEVICE_LOST_KIND) {
+            onDeviceLost(e.data.message);
             return;
         }
+        const pending = pendingAdds.get(e.data.uuid);
+        pendingAdds.delete(e.data.uuid);
+        if (e.data.error) pending?.reject(new Error(e.data.error));
+        else pending?.resolve();
+    });
+    w.onerror = (e) => {
+        e.preventDefault();
+        const reason = new Error(`Engine worker crashed: ${e.message || "unknown error"}`);
+        rejectOnWorkerDeath(reason);
+        onDeath(reason);
+    };
+    return w;
+}
 
-        try {
-            const adapter = await (navigator as any).gpu.requestAdapter();
-            if (!adapter) {
-                set({ isSupported: false, error: "No WebGPU adapter found. Try updating your browser/drivers." });
-            }
-        } catch (e) {
-            set({ isSupported: false, error: "WebGPU initialization failed." });
-        }
-    },
+function terminateWorker(reason: Error = new Error("Engine worker terminated")) {
+    rejectOnWorkerDeath(reason);
+    pendingAdds.clear(); // guard() already rejected their callers
+    worker?.terminate();
+    worker = null;
+    engine = null;
+}
 
-    loadModel: async (modelId: string, force: boolean = false) => {
-        const { isSupported, status } = get();
-        if (!isSupported || isLoadingModel) return;
-
-        // Allow retry from error state
-        if (status !== "unloaded" && status !== "ready" && status !== "error") return;
-
-        // OOM Protection: Check navigator.deviceMemory and block heavy models on constrained devices
-        const deviceMemory = (navigator as any).deviceMemory;
-        if (deviceMemory && !force) {
-            const model = WEBLLM_MODELS.find(m => m.id === modelId);
-            if (model) {
-                // If device has 4GB or less, block anything larger than 'fast' (which are > 1GB)
-                if (deviceMemory <= 4 && model.category !== "fast") {
-                    set({ error: `Hardware Restricted: Device reports ${deviceMemory}GB RAM. Loading this model will likely crash your browser. Please select a 'Fast' model.`, status: "error" });
-                    return;
-                }
-                // If device has 8GB or less, warn/block massive models
-                if (deviceMemory <= 8 && (model.category === "uncensored" || model.category === "powerful")) {
-                    set({ error: `Hardware Restricted: Device reports ${deviceMemory}GB RAM. Loading a heavy model requires 16GB+ and may cause an Out-Of-Memory crash.`, status: "error" });
-                    return;
-                }
-            }
+// web-llm's reload() unloads every resident model before loading the list it's
+// given; this loads just `modelId` next to them (see webllm.worker.ts)
+function addModel(modelId: string): Promise<void> {
+    if (!worker || !engine) return Promise.reject(new Error("Model not loaded"));
+    const uuid = crypto.randomUUID();
+    const client = engine;
+    const added = new Promise<void>((resolve, reject) => pendingAdds.set(uuid, { resolve, reject }));
+    worker.postMessage({ kind: ADD_MODEL_KIND, uuid, modelId });
+    // the client sends its model list with every request and the worker reloads on a mismatch
+    return added.then(() => { client.modelId = [...(client.modelId ?? []), modelId]; });
+}
+
+// Race an engine call against worker death and (optionally) a stall timeout
+function guard<T>(promise: Promise<T>, timeoutMs = 0, what = "Engine"): Promise<T> {
+    const racers: Promise<T>[] = [promise, workerDeath];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    if (timeoutMs > 0) {
+        racers.push(new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const err = new Error(`${what} stopped responding after ${timeoutMs / 1000}s`);
+                err.name = "EngineStallError";
+                reject(err);
+            }, timeoutMs);
+        }));
+    }
+    return Promise.race(racers).finally(() => clearTimeout(timer));
+}
+
+// ─── Model usage tracking (for the cache manager) ───────────────────
+
+const MODEL_USAGE_KEY = "n0x_model_last_used";
+
+export function getModelLastUsed(): Record<string, number> {
+    if (typeof window === "undefined") return {};
+    try {
+        const raw = localStorage.getItem(MODEL_USAGE_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+}
+
+function recordModelUse(modelId: string) {
+    try {
+        localStorage.setItem(MODEL_USAGE_KEY, JSON.stringify({ ...getModelLastUsed(), [modelId]: Date.now() }));
+    } catch { }
+}
+
+// ─── Custom models ──────────────────────────────────────────────────
+// User-registered MLC builds (see useModelRegistry) are merged into the
+// appConfig next to the prebuilt catalog. The registry owns persistence;
+// this module only keeps what the engine needs to resolve a model id.
+
+export interface CustomModelEntry {
+    info: ModelInfo;
+    record: webllm.ModelRecord;
+}
+
+let customModels: CustomModelEntry[] = [];
+
+export function setCustomModels(entries: CustomModelEntry[]) {
+    customModels = entries;
+    engine?.setAppConfig(getAppConfig());
+}
+
+export function getAppConfig(): webllm.AppConfig {
+    return {
+        ...webllm.prebuiltAppConfig,
+        model_list: [...webllm.prebuiltAppConfig.model_list, ...customModels.map(c => c.record)],
+    };
+}
+
+// Any id web-llm ships a record for, listed in WEBLLM_MODELS or not. A custom
+// model reusing one would be shadowed by the prebuilt record.
+export function isPrebuiltModelId(modelId: string): boolean {
+    return webllm.prebuiltAppConfig.model_list.some(m => m.model_id === modelId);
+}
+
+export function findModelRecord(modelId: string): webllm.ModelRecord | undefined {
+    return getAppConfig().model_list.find(m => m.model_id === modelId);
+}
+
+export function findModel(modelId: string | null): ModelInfo | undefined {
+    if (!modelId) return undefined;
+    return WEBLLM_MODELS.find(m => m.id === modelId) || customModels.find(c => c.info.id === modelId)?.info;
+}
+
+function isCustomModel(modelId: string): boolean {
+    return customModels.some(c => c.info.id === modelId);
+}
+
+// Mirrors WebLLM's own URL normalisation: ".../MODEL" → ".../MODEL/resolve/main/"
+export function modelBaseUrl(record: webllm.ModelRecord): string {
+    let url = record.model.endsWith("/") ? record.model : record.model + "/";
+    if (!/.+\/resolve\/.+\//.test(url)) url += "resolve/main/";
+    return new URL(url).href;
+}
+
+// Prebuilt libs are named like "Llama-3.2-1B-Instruct-q4f16_1-ctx4k_cs1k-webgpu.wasm"
+function parseModelLibName(url: string): { quantization?: string; contextWindow?: number } {
+    const name = url.split("/").pop() || "";
+    const quant = name.match(/-(q\d+f\d+(?:_\d+)?)-/)?.[1];
+    const ctx = name.match(/-ctx(\d+)k/)?.[1];
+    return { quantization: quant, contextWindow: ctx ? Number(ctx) * 1024 : undefined };
+}
+
+// Fetch the weights' mlc-chat-config.json and check it against the wasm lib.
+// Returns a human-readable problem, or null when nothing looks wrong. A wasm
+// compiled for a different quantization or architecture fails deep inside TVM
+// with an unhelpful message, so we catch the obvious mismatches up front.
+export async function checkModelArtifacts(record: webllm.ModelRecord): Promise<string | null> {
+    const base = modelBaseUrl(record);
+    let config: any;
+    try {
+        const res = await fetch(new URL("mlc-chat-config.json", base));
+        if (!res.ok) return `No mlc-chat-config.json at ${base} (HTTP ${res.status}). The weights URL must point at an MLC-converted model.`;
+        config = await res.json();
+    } catch (e: any) {
+        return `Could not read mlc-chat-config.json from ${base}: ${e.message}`;
+    }
+
+    try {
+        const res = await fetch(new URL("tensor-cache.json", base), { method: "HEAD" });
+        if (!res.ok) return `No tensor-cache.json at ${base} (HTTP ${res.status}). The weight shards are missing or the URL is wrong.`;
+        const lib = await fetch(record.model_lib, { method: "HEAD" });
+        if (!lib.ok) return `Model library not found at ${record.model_lib} (HTTP ${lib.status}).`;
+    } catch (e: any) {
+        return `Could not reach model files: ${e.message}`;
+    }
+
+    const lib = parseModelLibName(record.model_lib);
+    if (config.quantization && lib.quantization && config.quantization !== lib.quantization) {
+        return `Model library and weights don't match: the wasm was compiled for ${lib.quantization} but the weights are ${config.quantization}.`;
+    }
+    const ctx = record.overrides?.context_window_size;
+    if (ctx && lib.contextWindow && ctx > lib.contextWindow) {
+        return `Context window ${ctx} exceeds the ${lib.contextWindow} tokens the model library was compiled for.`;
+    }
+    return null;
+}
+
+// ─── Provider settings ──────────────────────────────────────────────
+
+const PROVIDER_KEY = "n0x_provider";
+
+function loadProviderSettings(): { kind: ProviderKind; remote: RemoteConfig } {
+    try {
+        const raw = localStorage.getItem(PROVIDER_KEY);
+        if (raw) {
+            const saved = JSON.parse(raw);
+            return { kind: saved.kind === "openai" ? "openai" : "webllm", remote: { ...DEFAULT_REMOTE_CONFIG, ...saved.remote } };
         }
+    } catch { }
+    return { kind: "webllm", remote: DEFAULT_REMOTE_CONFIG };
+}
 
-        isLoadingModel = true;
+function saveProviderSettings(kind: ProviderKind, remote: RemoteConfig) {
+    try {
+        localStorage.setItem(PROVIDER_KEY, JSON.stringify({ kind, remote }));
+    } catch { }
+}
+
+export function selectionOf(state: Pick<WebLLMState, "provider" | "remote">): ProviderSelection {
+    return state.provider === "openai"
+        ? { kind: "openai", baseUrl: state.remote.baseUrl, model: state.remote.model || undefined }
+        : { kind: "webllm" };
+}
+
+export function sameSelection(a: ProviderSelection | undefined, b: ProviderSelection | undefined): boolean {
+    if (!a || !b) return a === b;
+    if (a.kind !== b.kind) return false;
+    return a.kind === "webllm" || (normalizeBaseUrl(a.baseUrl || "") === normalizeBaseUrl(b.baseUrl || "") && a.model === b.model);
+}
+
+// Hermes-style function calling owns the system slot, so ours becomes a
+// preamble on the first user turn
+function foldSystemPrompt(messages: ChatMessage[]): ChatMessage[] {
+    const [head, ...rest] = messages;
+    if (head?.role !== "system") return messages;
+    const userIdx = rest.findIndex(m => m.role === "user");
+    if (userIdx < 0) return [{ role: "user", content: head.content }, ...rest];
+    return rest.map((m, i) => i === userIdx ? { ...m, content: `${head.content}\n\n${m.content}` } : m);
+}
+
+function contextWindowFor(modelId: string): number {
+    return findModelRecord(modelId)?.overrides?.context_window_size || 4096;
+}
+
+export const useWebLLM = create<WebLLMState>((set, get, api) => {
+    const handleWorkerDeath = (reason: Error) => {
+        console.error(reason);
+        // onerror doesn't end the thread — without this the dead engine keeps its model in VRAM
+        terminateWorker(reason);
+        isLoadingModel = false;
+        set({ status: "error", loadingModel: null, error: `${reason.message}. Restart the engine to continue.` });
+    };
+
+    // Reload what was resident from cache; requests queued before or during it wait it out
+    const recover = async (modelId: string, warm: string[], message: string, at: number) => {
+        recovering = true;
+        set({ status: "error", loadedModel: null, warmModels: [], deviceLost: { message, at, recovering: true } });
         try {
-            set({ status: "loading", loadProgress: 0, loadingModel: modelId, error: null });
+            await get().loadModel(modelId, true, warm);
+        } finally {
+            recovering = false;
+        }
+        if (get().status === "ready") {
+            set({ deviceLost: null });
+        } else {
+            set({ deviceLost: { message, at, recovering: false } });
+            failQueued(get().error || "Engine recovery failed");
+        }
+    };
 
-            // Cleanup previous engine (resilient to failures)
-            if (engine) {
-                try { await engine.unload(); } catch (e) { console.warn("Engine cleanup failed:", e); }
-                engine = null;
-            }
+    const handleDeviceLost = (message: string) => {
+        if (recovering) return;
+        console.error("WebGPU device lost:", message);
+        const { loadedModel, warmModels } = get();
+        const at = Date.now();
+
+        // the engine went with the device; a fresh worker gets a fresh one.
+        // In-flight calls reject with this, which run() leaves to recovery.
+        const lost = new Error(`GPU device lost (${message})`);
+        lost.name = "DeviceLostError";
+        terminateWorker(lost);
+
+        // lost mid-load is usually OOM: reloading would only lose it again.
+        // loadModel's own error handling reports that case.
+        if (isLoadingModel) {
+            set({ deviceLost: { message, at, recovering: false } });
+            return;
+        }
+        recentRecoveries = recentRecoveries.filter(t => at - t < 60_000);
+        if (!loadedModel || recentRecoveries.length >= MAX_RECOVERIES_PER_MINUTE) {
+            set({ status: "error", loadedModel: null, warmModels: [], error: `${lost.message}. Restart the engine to continue.`, deviceLost: { message, at, recovering: false } });
+            return;
+        }
+        recentRecoveries.push(at);
+        recover(loadedModel, warmModels.filter(id => id !== loadedModel), message, at);
+    };
 
-            // Create new engine with progress callback
-            engine = await webllm.CreateMLCEngine(modelId, {
+    const getEngine = () => {
+        if (!engine) {
+            worker = spawnWorker(handleWorkerDeath, handleDeviceLost);
+            engine = new webllm.WebWorkerMLCEngine(worker, {
+                appConfig: getAppConfig(),
                 initProgressCallback: (progress) => {
                     set({ loadProgress: progress.progress });
                 },
             });
+        }
+        return engine;
+    };
 
-            // Extract context window size dynamically for agent budgeting
-            const windowSize = (engine.chat as any).config?.context_window_size || 4096;
-            // set dynamic window global for useAgent to consume without cyclical deps
-            (window as any)._n0x_context_chars = Math.floor(windowSize * 4 * 0.85);
+    // WebGPU provider — every engine call is raced against worker death and stalls
+    const mlcProvider: InferenceProvider = {
+        async *stream(messages, options, signal) {
+            if (!engine) throw new Error("Model not loaded");
+            const { stop, json_schema, tools, ...sampling } = options;
+            const native = !!tools && tools.length > 0;
+            const asyncGenerator = await guard(engine.chat.completions.create({
+                // required once more than one model is resident
+                model: get().loadedModel ?? undefined,
+                // web-llm writes its own tool-use system prompt and rejects a second one
+                messages: withImageParts(native ? foldSystemPrompt(messages) : messages) as any,
+                stream: true,
+                ...sampling,
+                stop: stop && stop.length > 0 ? stop : undefined,
+                // function calling is itself grammar-constrained; the two can't be combined
+                response_format: json_schema && !native ? { type: "json_object", schema: json_schema } : undefined,
+                tools: native
+                    ? tools.map(t => ({ type: "function" as const, function: { name: t.name, description: t.description, parameters: t.parameters } }))
+                    : undefined,
+            }), FIRST_TOKEN_TIMEOUT_MS);
 
-            set({ loadedModel: modelId, loadingModel: null, status: "ready" });
-        } catch (e: any) {
-            console.error("Model load error:", e);
-            engine = null;
-            set({ error: e.message || "Failed to load model", loadingModel: null, status: "error" });
-        } finally {
-            isLoadingModel = false;
+            // Manual iteration so each chunk can be raced against the stall watchdog
+            const iterator = asyncGenerator[Symbol.asyncIterator]();
+            let first = true;
+            let toolCalls: ToolCall[] = [];
+            while (!signal.aborted) {
+                const next = await guard(iterator.next(), first ? FIRST_TOKEN_TIMEOUT_MS : TOKEN_STALL_TIMEOUT_MS);
+                first = false;
+                if (next.done) break;
+                const delta = next.value.choices[0]?.delta;
+                // the final chunk carries the parsed calls; earlier ones stream the raw JSON.
+                // A call with malformed arguments comes back as text instead, for the
+                // agent's lenient text-format parser to make what it can of.
+                let malformed = "";
+                if (delta?.tool_calls) {
+                    toolCalls = [];
+                    delta.tool_calls.forEach((call, i) => {
+                        const name = call.function?.name || "";
+                        const args = call.function?.arguments || "{}";
+                        try {
+                            toolCalls.push({ id: call.id || `call_${i}`, name, arguments: JSON.parse(args) });
+                        } catch {
+                            malformed += `\n{"tool": ${JSON.stringify(name)}, "args": ${args}}`;
+                        }
+                    });
+                }
+                yield (delta?.content || "") + malformed;
+            }
+            return toolCalls;
+        },
+    };
+
+    // Token counts follow whatever is answering: the loaded model's tokenizer
+    // and window, or an estimate for local servers
+    const syncTokenizer = () => {
+        const { provider, loadedModel, backend } = get();
+        const record = loadedModel ? findModelRecord(loadedModel) : undefined;
+        if (provider === "openai" || !loadedModel || !record) {
+            void setTokenizer(null, DEFAULT_CONTEXT_TOKENS);
+            return;
         }
-    },
+        void setTokenizer(modelBaseUrl(record), backend === "cpu" ? CPU_CONTEXT_TOKENS : contextWindowFor(loadedModel));
+    };
 
-    generate: async (messages: ChatMessage[], onToken?: (token: string) => void) => {
-        const { status } = get();
-        if (!engine || status !== "ready") {
+    const activeProvider = (): InferenceProvider => {
+        const { provider, remote } = get();
+        if (provider === "openai") return createOpenAICompatibleProvider(remote);
+        return get().backend === "cpu" ? cpuProvider : mlcProvider;
+    };
+
+    // Shared by generate() and generateWithTools(): streams from the active provider,
+    // keeps status/stats current, and hands back any native tool calls.
+    const run = async ({ messages, onToken, options, controller, onUsage }: GenerationJob): Promise<ToolTurn> => {
+        const { status, provider } = get();
+        const local = get().backend === "cpu" ? isCpuModelLoaded() : !!engine;
+        if (status !== "ready" || (provider === "webllm" && !local)) {
             throw new Error("Model not loaded");
         }
 
-        set({ status: "generating" });
-        abortController = new AbortController();
+        const promptTokens = countMessageTokens(messages);
+        set({
+            status: "generating",
+            lastTurn: { promptTokens, completionTokens: 0, contextWindow: getContextWindow(), exact: isExactCount() },
+        });
+        const signal = controller.signal;
 
         // Stats tracking
         let tokenCount = 0;
         const startTime = performance.now();
+        let firstTokenTime = 0;
         set({ stats: { tps: 0, totalTokens: 0, lastTokenTime: 0 } });
 
+        let fullResponse = "";
+        let toolCalls: ToolCall[] = [];
         try {
-            let fullResponse = "";
-
-            const asyncGenerator = await engine.chat.completions.create({
-                messages: messages as any,
-                stream: true,
-                temperature: 0.7,
-                max_tokens: 4096,
-            });
-
-            for await (const chunk of asyncGenerator) {
-                if (abortController?.signal.aborted) break;
-
-                const token = chunk.choices[0]?.delta?.content || "";
+            const sampling = resolveGenerationOptions(DEFAULT_GENERATION_OPTIONS, options);
+            // iterated by hand — the generator's return value carries the tool calls
+            const stream = activeProvider().stream(messages, sampling, signal);
+            while (true) {
+                const next = await stream.next();
+                if (next.done) {
+                    toolCalls = next.value || [];
+                    break;
+                }
+                if (signal.aborted) {
+                    await stream.return(undefined); // let the provider release its stream
+                    break;
+                }
+                const token = next.value;
                 fullResponse += token;
 
                 // Update stats
                 tokenCount++;
                 const now = performance.now();
+                if (!firstTokenTime) firstTokenTime = now;
                 const duration = (now - startTime) / 1000;
                 const tps = duration > 0 ? Math.round(tokenCount / duration) : 0;
 
@@ -362,30 +830,407 @@ export const useWebLLM = create<WebLLMState>((set, get) => ({
             const now = performance.now();
             const duration = (now - startTime) / 1000;
             const tps = duration > 0 ? Math.round(tokenCount / duration) : 0;
-            set({ stats: { tps, totalTokens: tokenCount, lastTokenTime: now }, status: "ready" });
+            const completionTokens = countTokens(fullResponse);
+            const ttftMs = firstTokenTime ? firstTokenTime - startTime : undefined;
+            const decodeMs = firstTokenTime ? now - firstTokenTime : 0;
+            const usage: TurnUsage = {
+                promptTokens,
+                completionTokens,
+                contextWindow: getContextWindow(),
+                exact: isExactCount(),
+                modelId: provider === "openai" ? get().remote.model || null : get().loadedModel,
+                ttftMs: ttftMs !== undefined ? Math.round(ttftMs) : undefined,
+                prefillTps: ttftMs ? Math.round(promptTokens / (ttftMs / 1000) * 10) / 10 : undefined,
+                // the first token belongs to prefill
+                decodeTps: decodeMs > 0 ? Math.round((completionTokens - 1) / (decodeMs / 1000) * 10) / 10 : undefined,
+            };
+            set({
+                stats: { tps, totalTokens: tokenCount, lastTokenTime: now },
+                lastTurn: usage,
+                status: "ready",
+            });
+            onUsage?.(usage);
 
-            return fullResponse;
+            return { content: fullResponse, toolCalls };
         } catch (e: any) {
-            if (e.name !== "AbortError") {
-                console.error("Generation error:", e);
-                set({ error: e.message });
+            if (signal.aborted && e.name === "AbortError") {
+                // remote fetch aborted by cancellation — same outcome as a local interrupt
+                set({ status: "ready" });
+                return { content: fullResponse, toolCalls: [] };
+            }
+            if (e.name === "DeviceLostError") throw e; // handleDeviceLost owns the status now
+            console.error("Generation error:", e);
+            set({ error: e.message });
+            if (provider === "openai" || get().backend === "cpu") {
+                set({ status: "ready" });
+            } else if (!engine) {
+                // worker died mid-stream — handleWorkerDeath already flagged the error
+                set({ status: "error" });
+            } else if (e.name === "EngineStallError") {
+                // hung worker: kill it so restart() starts clean
+                terminateWorker();
+                set({ status: "error", error: `${e.message}. Restart the engine to continue.` });
+            } else {
+                set({ status: "ready" });
             }
-            set({ status: "ready" });
             throw e;
         }
-    },
+    };
 
-    stop: () => {
-        if (abortController) {
-            abortController.abort();
-        }
-    },
+    const infoOf = ({ id, priority, label }: GenerationJob): QueuedRequestInfo => ({ id, priority, label });
 
-    unload: async () => {
-        if (engine) {
-            await engine.unload();
-            engine = null;
+    const publishQueue = () => {
+        queue.forEach((job, i) => {
+            if (job.position === i + 1) return;
+            job.position = i + 1;
+            job.onQueued?.(job.position);
+        });
+        set({ queued: queue.map(infoOf), activeRequest: activeJob && infoOf(activeJob) });
+    };
+
+    // Start the next request if the engine is free
+    const pump = () => {
+        if (activeJob || queue.length === 0 || get().status !== "ready") return;
+        const job = queue.shift()!;
+        activeJob = job;
+        publishQueue();
+        run(job).then(job.resolve, job.reject).finally(() => {
+            activeJob = null;
+            publishQueue();
+            pump();
+        });
+    };
+
+    const enqueue = (messages: ChatMessage[], onToken: ((token: string) => void) | undefined, options: GenerationOptions | undefined, request: GenerationRequest = {}): Promise<ToolTurn> => {
+        // waiting only makes sense if a model is (or is about to be) available —
+        // a device-lost recovery passes through "error" on its way back
+        const { status } = get();
+        if ((status === "unloaded" || status === "error") && !recovering) return Promise.reject(new Error("Model not loaded"));
+
+        return new Promise<ToolTurn>((resolve, reject) => {
+            if (request.signal?.aborted) return resolve({ content: "", toolCalls: [] });
+
+            const job: GenerationJob = {
+                id: nextJobId++,
+                priority: request.priority ?? "interactive",
+                label: request.label,
+                messages, onToken, options,
+                controller: new AbortController(),
+                onQueued: request.onQueued,
+                onUsage: request.onUsage,
+                resolve, reject,
+            };
+            request.signal?.addEventListener("abort", () => job.controller.abort(), { once: true });
+            job.controller.signal.addEventListener("abort", () => {
+                if (job === activeJob) {
+                    // run() sees the signal; the engine needs an explicit interrupt
+                    if (get().provider === "webllm") engine?.interruptGenerate();
+                } else if (queue.includes(job)) {
+                    queue = queue.filter(j => j !== job);
+                    resolve({ content: "", toolCalls: [] });
+                    publishQueue();
+                }
+            }, { once: true });
+
+            // interactive requests go ahead of every background one
+            const at = job.priority === "interactive" ? queue.findIndex(j => j.priority === "background") : -1;
+            if (at < 0) queue.push(job);
+            else queue.splice(at, 0, job);
+            pump();
+            publishQueue(); // only reports a position if it had to wait
+        });
+    };
+
+    const failQueued = (reason: string) => {
+        if (queue.length === 0) return;
+        const failed = queue;
+        queue = [];
+        failed.forEach(job => job.reject(new Error(reason)));
+        publishQueue();
+    };
+
+    // Drain when a model becomes ready; fail waiting requests if it never will
+    // (a device-lost recovery passes through "error" but will come back)
+    api.subscribe((state, prev) => {
+        if (state.status === prev.status) return;
+        if (state.status === "ready") {
+            pump();
+        } else if ((state.status === "error" || state.status === "unloaded") && !recovering) {
+            failQueued(state.error || "Model not loaded");
         }
-        set({ loadedModel: null, status: "unloaded" });
-    },
-}));
+    });
+
+    return {
+        status: "unloaded",
+        loadProgress: 0,
+        loadedModel: null,
+        warmModels: [],
+        deviceLost: null,
+        loadingModel: null,
+        failedModel: null,
+        error: null,
+        isSupported: true,
+        backend: "webgpu",
+        gpu: null,
+        stats: { tps: 0, totalTokens: 0, lastTokenTime: 0 },
+        lastTurn: null,
+        activeRequest: null,
+        queued: [],
+        provider: "webllm",
+        remote: DEFAULT_REMOTE_CONFIG,
+        remoteModels: [],
+
+        init: async () => {
+            if (typeof navigator === "undefined") return;
+            const { status } = get();
+            if (status !== "unloaded") return; // Already initialized or loading
+
+            const saved = loadProviderSettings();
+            set({ remote: saved.remote });
+            if (saved.kind === "openai") get().selectProvider({ kind: "openai" });
+
+            // Without WebGPU we drop to the llama.cpp WASM backend (fast tier only)
+            const fallBack = (reason: string) => {
+                if (typeof WebAssembly !== "undefined") {
+                    console.warn(`${reason} Falling back to CPU inference.`);
+                    set({ backend: "cpu" });
+                } else {
+                    set({ isSupported: false, error: reason });
+                }
+            };
+
+            if (!("gpu" in navigator)) {
+                fallBack("WebGPU not supported. Use Chrome 113+ or Edge 113+.");
+                return;
+            }
+
+            try {
+                const adapter = await (navigator as any).gpu.requestAdapter();
+                if (!adapter) {
+                    fallBack("No WebGPU adapter found. Try updating your browser/drivers.");
+                    return;
+                }
+                set({ gpu: await probeAdapter(adapter) });
+            } catch (e) {
+                fallBack("WebGPU initialization failed.");
+            }
+        },
+
+        // keepWarm: other models to keep resident alongside this one (GPU only)
+        loadModel: async (modelId: string, force: boolean = false, keepWarm: string[] = []) => {
+            const { isSupported, status } = get();
+            if (!isSupported || isLoadingModel) return;
+
+            // Allow retry from error state
+            if (status !== "unloaded" && status !== "ready" && status !== "error") return;
+
+            // OOM Protection: on WebGPU, judge the model against the probed adapter
+            const fit = get().assessModelFit(modelId);
+            if (fit?.fit === "wont-fit" && !force) {
+                set({ error: `Hardware Restricted: ${findModel(modelId)?.label ?? modelId} ${fit.reason}. Loading it will likely crash the tab.`, status: "error", loadingModel: null, failedModel: modelId });
+                return;
+            }
+
+            // Without a probe (CPU backend), fall back to navigator.deviceMemory
+            const deviceMemory = (navigator as any).deviceMemory;
+            if (!get().gpu && deviceMemory && !force) {
+                const model = findModel(modelId);
+                if (model) {
+                    // If device has 4GB or less, block anything larger than 'fast' (which are > 1GB)
+                    if (deviceMemory <= 4 && model.category !== "fast") {
+                        set({ error: `Hardware Restricted: Device reports ${deviceMemory}GB RAM. Loading this model will likely crash your browser. Please select a 'Fast' model.`, status: "error", loadingModel: null, failedModel: modelId });
+                        return;
+                    }
+                    // If device has 8GB or less, warn/block massive models
+                    if (deviceMemory <= 8 && (model.category === "uncensored" || model.category === "powerful")) {
+                        set({ error: `Hardware Restricted: Device reports ${deviceMemory}GB RAM. Loading a heavy model requires 16GB+ and may cause an Out-Of-Memory crash.`, status: "error", loadingModel: null, failedModel: modelId });
+                        return;
+                    }
+                }
+            }
+
+            isLoadingModel = true;
+            try {
+                // picking an in-browser model implies using the in-browser provider
+                set({ status: "loading", loadProgress: 0, loadingModel: modelId, failedModel: null, error: null, provider: "webllm" });
+                saveProviderSettings("webllm", get().remote);
+
+                let warm: string[];
+                if (get().backend === "cpu") {
+                    const model = findModel(modelId);
+                    if (!model?.gguf) {
+                        throw new Error(`${model?.label || modelId} needs WebGPU. Without it only the ⚡ Fast models can run (on the CPU).`);
+                    }
+                    await loadCpuModel(model.gguf, (progress) => set({ loadProgress: progress }));
+                    warm = [modelId];
+                } else {
+                    warm = [...keepWarm.filter(id => id !== modelId), modelId];
+                    // models already resident stay put; only newcomers are loaded.
+                    // Evicting one needs a full reload — web-llm unloads all or nothing.
+                    const resident = engine && status === "ready" ? get().warmModels : [];
+                    const adding = warm.filter(id => !resident.includes(id));
+                    if (resident.length > 0 && resident.every(id => warm.includes(id))) {
+                        for (const id of adding) await guard(addModel(id));
+                    } else {
+                        await guard(getEngine().reload(warm.length > 1 ? warm : modelId));
+                    }
+                }
+
+                recordModelUse(modelId);
+                set({ loadedModel: modelId, warmModels: warm, loadingModel: null, status: "ready" });
+                syncTokenizer();
+            } catch (e: any) {
+                console.error("Model load error:", e);
+                let message = e.message || "Failed to load model";
+                if (isCustomModel(modelId)) {
+                    // TVM errors from a mismatched wasm are cryptic — explain if we can
+                    const record = findModelRecord(modelId);
+                    const problem = record ? await checkModelArtifacts(record) : null;
+                    message = `Custom model ${modelId} failed to load: ${problem || `${message}. Check that the model library was compiled for these weights.`}`;
+                }
+                set({ error: message, loadedModel: null, warmModels: [], loadingModel: null, failedModel: modelId, status: "error" });
+            } finally {
+                isLoadingModel = false;
+            }
+        },
+
+        // Whether a model fits the probed adapter; null when there's no probe to judge by (CPU)
+        assessModelFit: (modelId: string) => {
+            const { gpu, backend } = get();
+            if (!gpu || backend !== "webgpu") return null;
+            return assessFit(findModelRecord(modelId), gpu);
+        },
+
+        // Switch the answering model. A model that's already resident is instant;
+        // otherwise the most recently used resident models stay loaded as long as
+        // everything fits in the VRAM budget, and the rest are evicted.
+        activateModel: async (modelId: string, vramBudgetMB: number) => {
+            const { loadedModel, warmModels, backend, status } = get();
+            if (modelId === loadedModel && status === "ready") return;
+            if (backend === "webgpu" && warmModels.includes(modelId) && status === "ready") {
+                recordModelUse(modelId);
+                set({ loadedModel: modelId });
+                syncTokenizer();
+                return;
+            }
+
+            const keep: string[] = [];
+            if (backend === "webgpu") {
+                const vram = (id: string) => findModelRecord(id)?.vram_required_MB ?? Infinity;
+                let used = vram(modelId);
+                const lastUsed = getModelLastUsed();
+                const byRecency = [...warmModels].sort((a, b) => (lastUsed[b] || 0) - (lastUsed[a] || 0));
+                for (const id of byRecency) {
+                    if (used + vram(id) > vramBudgetMB) continue;
+                    used += vram(id);
+                    keep.push(id);
+                }
+            }
+            await get().loadModel(modelId, false, keep);
+        },
+
+        generate: async (messages: ChatMessage[], onToken?: (token: string) => void, options?: GenerationOptions, request?: GenerationRequest) => {
+            return (await enqueue(messages, onToken, options, request)).content;
+        },
+
+        generateWithTools: async (messages: ChatMessage[], tools: ToolDefinition[], options?: GenerationOptions, request?: GenerationRequest) => {
+            if (!get().supportsToolCalling()) throw new Error("Loaded model does not support native tool calling");
+            return enqueue(messages, undefined, { ...options, tools }, request);
+        },
+
+        // Foreground only — background jobs keep running and keep their place
+        stop: () => {
+            for (const job of queue.filter(j => j.priority === "interactive")) job.controller.abort();
+            if (activeJob?.priority === "interactive") activeJob.controller.abort();
+        },
+
+        cancelRequest: (id: number) => {
+            const job = activeJob?.id === id ? activeJob : queue.find(j => j.id === id);
+            job?.controller.abort();
+        },
+
+        unload: async () => {
+            if (engine) {
+                try { await guard(engine.unload(), 10_000); } catch (e) { console.warn("Engine unload failed:", e); }
+            }
+            await unloadCpuModel();
+            set({ loadedModel: null, warmModels: [], status: "unloaded" });
+            syncTokenizer();
+        },
+
+        restart: async () => {
+            const modelId = get().loadedModel || get().loadingModel || get().failedModel;
+            terminateWorker();
+            await unloadCpuModel();
+            isLoadingModel = false;
+            set({ status: "unloaded", loadedModel: null, warmModels: [], deviceLost: null, error: null, stats: { tps: 0, totalTokens: 0, lastTokenTime: 0 } });
+            if (modelId) await get().loadModel(modelId, true);
+        },
+
+        // Capability flag on the model entry; only the in-browser GPU engine
+        // implements `tools` (web-llm's Hermes function-calling support)
+        supportsToolCalling: () => {
+            const { provider, backend, loadedModel } = get();
+            return provider === "webllm" && backend === "webgpu" && !!findModel(loadedModel)?.toolCalling;
+        },
+
+        // Remote servers are trusted to accept images; locally only vision-tagged models on WebGPU
+        supportsVision: () => {
+            const { provider, backend, loadedModel } = get();
+            if (provider === "openai") return true;
+            return backend === "webgpu" && !!findModel(loadedModel)?.vision;
+        },
+
+        // MLC (xgrammar) and llama.cpp both constrain decoding to a JSON schema;
+        // OpenAI-compatible servers vary, so that's a per-server setting
+        supportsStructuredOutput: () => {
+            const { provider, remote } = get();
+            return provider === "openai" ? remote.structuredOutput : true;
+        },
+
+        selectProvider: (selection: ProviderSelection) => {
+            const { status, remote, loadedModel } = get();
+            if (status === "generating" || status === "loading") return;
+
+            if (selection.kind === "openai") {
+                const next: RemoteConfig = {
+                    ...remote,
+                    baseUrl: selection.baseUrl ?? remote.baseUrl,
+                    model: selection.model ?? remote.model,
+                };
+                saveProviderSettings("openai", next);
+                set({ provider: "openai", remote: next, error: null, status: next.model ? "ready" : "unloaded" });
+            } else {
+                saveProviderSettings("webllm", remote);
+                const local = get().backend === "cpu" ? isCpuModelLoaded() : !!engine;
+                set({ provider: "webllm", error: null, status: local && loadedModel ? "ready" : "unloaded" });
+            }
+            syncTokenizer();
+        },
+
+        setRemoteConfig: (update: Partial<RemoteConfig>) => {
+            const { provider, remote, status } = get();
+            const next = { ...remote, ...update };
+            saveProviderSettings(provider, next);
+            set({ remote: next });
+            if (provider === "openai" && status !== "generating") {
+                set({ status: next.model ? "ready" : "unloaded" });
+            }
+        },
+
+        fetchRemoteModels: async () => {
+            try {
+                const remoteModels = await listRemoteModels(get().remote);
+                set({ remoteModels, error: null });
+                // pick the first model if the saved one isn't served any more
+                const { remote } = get();
+                if (remoteModels.length > 0 && (!remote.model || !remoteModels.includes(remote.model))) {
+                    get().setRemoteConfig({ model: remoteModels[0] });
+                }
+            } catch (e: any) {
+                set({ remoteModels: [], error: e.message });
+                throw e;
+            }
+        },
+    };
+});
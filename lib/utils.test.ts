@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { splitThinking, stripThinking } from "@/lib/utils";
+
+describe("splitThinking", () => {
+    it("separates reasoning from the answer", () => {
+        expect(splitThinking("<think>\nadd them\n</think>\n\nIt's 4.")).toEqual({ thinking: "add them", answer: "It's 4." });
+    });
+
+    it("joins several blocks and drops empty ones", () => {
+        expect(splitThinking("<think>one</think>A<think> </think>B<think>two</think>"))
+            .toEqual({ thinking: "one\n\ntwo", answer: "AB" });
+    });
+
+    it("runs an unterminated block to the end", () => {
+        expect(splitThinking("Partial<think>still going")).toEqual({ thinking: "still going", answer: "Partial" });
+    });
+
+    it("leaves text without blocks alone", () => {
+        expect(splitThinking(" plain ")).toEqual({ thinking: "", answer: "plain" });
+    });
+
+    it("gives the same result on repeated calls", () => {
+        const text = "<think>x</think>y";
+        expect(stripThinking(text)).toBe("y");
+        expect(stripThinking(text)).toBe("y");
+    });
+});
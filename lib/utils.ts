@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
     return twMerge(clsx(inputs));
 }
+
+const THINK_RE = /<think>([\s\S]*?)(?:<\/think>|$)/g;
+
+// A reply's <think> reasoning and the answer without it. An unterminated block
+// (a reply cut off, or still streaming) runs to the end of the text.
+export function splitThinking(content: string): { thinking: string; answer: string } {
+    const blocks: string[] = [];
+    const answer = content.replace(THINK_RE, (_, inner: string) => {
+        if (inner.trim()) blocks.push(inner.trim());
+        return "";
+    }).trim();
+    return { thinking: blocks.join("\n\n"), answer };
+}
+
+export const stripThinking = (content: string) => splitThinking(content).answer;
@@ -0,0 +1,55 @@
+/// <reference lib="webworker" />
+
+// Hosts the MLC engine off the main thread. Tokenization, sampling and the
+// streaming loop run here so they don't compete with React rendering.
+// The main thread talks to it through webllm.WebWorkerMLCEngine (see useWebLLM).
+
+import { WebWorkerMLCEngineHandler } from "@mlc-ai/web-llm";
+
+// web-llm disposes its pipelines when the GPU device is lost (driver reset,
+// tab backgrounded on some laptops) but only logs it. Wrap device creation so
+// the main thread hears about it and can rebuild the engine. The message kind
+// must match DEVICE_LOST_KIND in useWebLLM.
+const gpu = (self.navigator as any).gpu;
+if (gpu) {
+    const requestAdapter = gpu.requestAdapter.bind(gpu);
+    gpu.requestAdapter = async (...args: any[]) => {
+        const adapter = await requestAdapter(...args);
+        if (!adapter) return adapter;
+        const requestDevice = adapter.requestDevice.bind(adapter);
+        adapter.requestDevice = async (...deviceArgs: any[]) => {
+            const device = await requestDevice(...deviceArgs);
+            device.lost.then((info: { reason: string; message: string }) => {
+                // "destroyed" is web-llm unloading a model on purpose
+                if (info.reason !== "destroyed") {
+                    self.postMessage({ kind: "n0x:deviceLost", message: info.message || "unknown reason" });
+                }
+            });
+            return device;
+        };
+        return adapter;
+    };
+}
+
+const handler = new WebWorkerMLCEngineHandler();
+
+// Load one more model without touching the resident ones. reload() would
+// unload everything first; reloadInternal is the per-model step it runs after
+// that. The kind must match ADD_MODEL_KIND in useWebLLM.
+async function addModel(uuid: string, modelId: string) {
+    try {
+        await (handler.engine as any).reloadInternal(modelId);
+        handler.modelId = [...(handler.modelId ?? []), modelId];
+        self.postMessage({ kind: "n0x:addModel", uuid });
+    } catch (err) {
+        self.postMessage({ kind: "n0x:addModel", uuid, error: String(err) });
+    }
+}
+
+self.onmessage = (e: MessageEvent) => {
+    if (e.data?.kind === "n0x:addModel") {
+        addModel(e.data.uuid, e.data.modelId);
+        return;
+    }
+    handler.onmessage(e);
+};